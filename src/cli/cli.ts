@@ -0,0 +1,560 @@
+/**
+ * Command-Line Tool
+ *
+ * The dtcg command validates, resolves and explains design token files and
+ * resolver files, with the same preprocessing as the library:
+ * - dtcg validate <files...> validates each file; arguments can be globs
+ * - dtcg resolve <file> prints the resolved tokens of a file as JSON
+ * - dtcg explain <file> <token> shows where a token's value comes from
+ *
+ * Resolver files are recognized by their resolutionOrder property or their
+ * string version, which design token files cannot have at the root. The
+ * token files they reference are loaded relative to them and must be inside
+ * their directory.
+ *
+ * Exit codes: 0 when every document is valid, 1 when a document is invalid
+ * or cannot be resolved, 2 for usage errors and files that cannot be read.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs"
+import { dirname, relative, resolve as resolvePath } from "node:path"
+import { parseArgs } from "node:util"
+import { formatDiagnostic, hasErrors } from "../preprocessors/diagnostics.js"
+import {
+    collectSources,
+    mergeSources,
+    resolve,
+    type SourceOptions,
+} from "../preprocessors/resolverEngine.js"
+import {
+    JsonSyntaxError,
+    parseJson,
+    type SourcePosition,
+} from "../preprocessors/sourcePositions.js"
+import {
+    explainResolvedToken,
+    explainToken,
+    formatTokenExplanation,
+} from "../preprocessors/tokenExplanation.js"
+import type {
+    DesignTokenObject,
+    Diagnostic,
+    ResolverDocument,
+    ResolverInputs,
+} from "../preprocessors/types.js"
+import { isPlainObject, walkTokens } from "../preprocessors/utils.js"
+import {
+    REPORTERS,
+    isReporterFormat,
+    type FileReport,
+} from "../reporters/index.js"
+import { formatIssue, type ValidationIssue } from "../schemas.js"
+import {
+    preprocess,
+    validateResolverDocument,
+    validateTokenDocument,
+    type DocumentValidationResult,
+} from "../validate.js"
+import { expandFileArguments } from "./glob.js"
+
+/**
+ * Exit codes of the command-line tool
+ */
+export const EXIT_CODES = {
+    /** Every document is valid */
+    success: 0,
+    /** A document is invalid or cannot be resolved */
+    invalid: 1,
+    /** The arguments are wrong or a file cannot be read */
+    error: 2,
+} as const
+
+const USAGE = `Usage: dtcg <command> [options]
+
+Commands:
+  validate <files...>       Validate design token and resolver files; files
+                            can be globs, e.g. "tokens/**/*.json"
+  resolve <file>            Print the resolved tokens of a file as JSON
+  explain <file> <token>    Show where the value of a token comes from
+
+Options:
+  --input <modifier=context>  Context of a modifier for resolver files
+                              (resolve, explain); repeatable
+  --no-preprocess             validate: only validate against the schema
+                              resolve: do not resolve references and types
+  --format <format>           validate: report as text (default), json,
+                              sarif or junit
+  --test-cases <file|token>   validate: one JUnit test case per file
+                              (default) or per token
+  --output <file>             validate: write the report to a file
+  --json                      explain: print the explanation as JSON
+  --help                      Show this message`
+
+/**
+ * Where the command-line tool runs and writes to
+ */
+export interface CliOptions {
+    /** Directory relative file arguments are resolved against */
+    cwd?: string
+    /** Write a line of regular output; defaults to console.log */
+    stdout?: (text: string) => void
+    /** Write a line of error output; defaults to console.error */
+    stderr?: (text: string) => void
+}
+
+/**
+ * The options of runCli with their defaults applied
+ */
+type CliContext = Required<CliOptions>
+
+/**
+ * A file read and parsed, or the reason it could not be
+ */
+type LoadedDocument =
+    | { location: string; document: unknown }
+    | {
+          location: string
+          error: string
+          exitCode: number
+          /** Where the JSON syntax error is */
+          position?: SourcePosition
+      }
+
+/**
+ * Read and parse a JSON file, remembering the source positions of its values
+ * A file that cannot be read is an error; a file that is not JSON is an
+ * invalid document.
+ */
+function loadDocument(file: string, context: CliContext): LoadedDocument {
+    const location = resolvePath(context.cwd, file)
+
+    let content: string
+    try {
+        content = readFileSync(location, "utf-8")
+    } catch (error) {
+        const reason = (error as NodeJS.ErrnoException).code ?? String(error)
+        return {
+            location,
+            error: `File cannot be read (${reason})`,
+            exitCode: EXIT_CODES.error,
+        }
+    }
+
+    try {
+        return { location, document: parseJson(content) }
+    } catch (error) {
+        if (!(error instanceof JsonSyntaxError)) {
+            throw error
+        }
+        return {
+            location,
+            error: `File is not valid JSON: ${error.reason}`,
+            exitCode: EXIT_CODES.invalid,
+            position: { line: error.line, column: error.column },
+        }
+    }
+}
+
+/**
+ * Format why a file could not be loaded, as "file:line:column: reason" when
+ * the position is known
+ */
+function formatLoadError(
+    file: string,
+    loaded: Extract<LoadedDocument, { error: string }>
+): string {
+    const position = loaded.position
+        ? `:${loaded.position.line}:${loaded.position.column}`
+        : ""
+    return `${file}${position}: ${loaded.error}`
+}
+
+/**
+ * Check if a document is a resolver document rather than a design token
+ * document
+ * A string version is enough, so that resolver documents without
+ * resolutionOrder get the resolver schema's errors.
+ */
+function isResolverDocument(document: unknown): document is ResolverDocument {
+    return (
+        isPlainObject(document) &&
+        ("resolutionOrder" in document || typeof document.version === "string")
+    )
+}
+
+/**
+ * Options for loading the token files of a resolver document
+ */
+function sourceOptions(location: string): SourceOptions {
+    return { location, rootDir: dirname(location) }
+}
+
+/**
+ * Parse --input arguments ("theme=dark") into resolver inputs
+ * @returns The inputs, or undefined if an argument is malformed
+ */
+function parseInputs(values: readonly string[]): ResolverInputs | undefined {
+    const inputs: ResolverInputs = {}
+    for (const value of values) {
+        const separator = value.indexOf("=")
+        if (separator <= 0 || separator === value.length - 1) {
+            return undefined
+        }
+        inputs[value.slice(0, separator)] = value.slice(separator + 1)
+    }
+    return inputs
+}
+
+/**
+ * Report a usage error
+ */
+function usageError(context: CliContext, message: string): number {
+    context.stderr(`${message}\n\n${USAGE}`)
+    return EXIT_CODES.error
+}
+
+/**
+ * Write diagnostics as indented lines, prefixed with their severity
+ */
+function writeDiagnostics(
+    write: (text: string) => void,
+    diagnostics: readonly Diagnostic[]
+): void {
+    for (const diagnostic of diagnostics) {
+        write(`  ${diagnostic.severity}: ${formatDiagnostic(diagnostic)}`)
+    }
+}
+
+/**
+ * Make the files issues name relative to the working directory, and leave
+ * out the file itself
+ */
+function relativeIssues(
+    issues: readonly ValidationIssue[],
+    location: string,
+    context: CliContext
+): ValidationIssue[] {
+    return issues.map((issue) => {
+        if (issue.file === undefined) {
+            return issue
+        }
+        const { file, ...rest } = issue
+        return file === location
+            ? rest
+            : { ...rest, file: relative(context.cwd, file) }
+    })
+}
+
+/**
+ * Validate one file for dtcg validate
+ * @returns The report of the file and the exit code it calls for
+ */
+function validateFile(
+    file: string,
+    preprocessing: boolean,
+    context: CliContext
+): { report: FileReport; exitCode: number } {
+    const loaded = loadDocument(file, context)
+    if ("error" in loaded) {
+        const issue: ValidationIssue = {
+            severity: "error",
+            message: loaded.error,
+            ...loaded.position,
+        }
+        return {
+            report: {
+                file,
+                result: {
+                    valid: false,
+                    errors: [loaded.error],
+                    issues: [issue],
+                },
+            },
+            exitCode: loaded.exitCode,
+        }
+    }
+
+    const { document, location } = loaded
+    let result: DocumentValidationResult
+    let tokens: string[] | undefined
+    if (isResolverDocument(document)) {
+        result = validateResolverDocument(document, {
+            ...sourceOptions(location),
+            semantics: preprocessing,
+        })
+    } else {
+        const tokenResult = validateTokenDocument(
+            document as DesignTokenObject,
+            { location, preprocess: preprocessing }
+        )
+        result = tokenResult
+        tokens = []
+        walkTokens(
+            tokenResult.tokens ?? (document as DesignTokenObject),
+            (_token, segments) => tokens!.push(segments.join("."))
+        )
+    }
+
+    const issues = relativeIssues(result.issues, location, context)
+    const errors = issues
+        .filter((issue) => issue.severity === "error")
+        .map(formatIssue)
+    return {
+        report: {
+            file,
+            result: { valid: result.valid, errors, issues },
+            tokens,
+        },
+        exitCode: result.valid ? EXIT_CODES.success : EXIT_CODES.invalid,
+    }
+}
+
+/**
+ * dtcg validate <files...> [--no-preprocess] [--format <format>]
+ * [--test-cases <file|token>] [--output <file>]
+ */
+function runValidate(args: string[], context: CliContext): number {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            "no-preprocess": { type: "boolean", default: false },
+            format: { type: "string", default: "text" },
+            "test-cases": { type: "string", default: "file" },
+            output: { type: "string" },
+        },
+    })
+    if (positionals.length === 0) {
+        return usageError(context, "validate needs at least one file")
+    }
+    const format = values.format
+    if (!isReporterFormat(format)) {
+        return usageError(context, `Unknown format "${format}"`)
+    }
+    const testCases = values["test-cases"]
+    if (testCases !== "file" && testCases !== "token") {
+        return usageError(context, "--test-cases must be file or token")
+    }
+
+    const { files, unmatched } = expandFileArguments(positionals, context.cwd)
+    for (const pattern of unmatched) {
+        context.stderr(`No files match ${pattern}`)
+    }
+    if (files.length === 0) {
+        return EXIT_CODES.error
+    }
+
+    const preprocessing = !values["no-preprocess"]
+    let exitCode: number =
+        unmatched.length > 0 ? EXIT_CODES.error : EXIT_CODES.success
+    const reports: FileReport[] = []
+    for (const file of files) {
+        const validated = validateFile(file, preprocessing, context)
+        reports.push(validated.report)
+        exitCode = Math.max(exitCode, validated.exitCode)
+    }
+
+    const output = REPORTERS[format](reports, { testCases })
+    if (values.output === undefined) {
+        context.stdout(output)
+        return exitCode
+    }
+
+    try {
+        writeFileSync(resolvePath(context.cwd, values.output), `${output}\n`)
+    } catch (error) {
+        context.stderr(`${values.output}: ${(error as Error).message}`)
+        return EXIT_CODES.error
+    }
+    return exitCode
+}
+
+/**
+ * dtcg resolve <file> [--input <modifier=context>]... [--no-preprocess]
+ */
+function runResolve(args: string[], context: CliContext): number {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            input: { type: "string", multiple: true, default: [] },
+            "no-preprocess": { type: "boolean", default: false },
+        },
+    })
+    const inputs = parseInputs(values.input)
+    if (positionals.length !== 1 || !inputs) {
+        return usageError(
+            context,
+            "resolve needs one file and inputs of the form modifier=context"
+        )
+    }
+
+    const loaded = loadDocument(positionals[0], context)
+    if ("error" in loaded) {
+        context.stderr(formatLoadError(positionals[0], loaded))
+        return loaded.exitCode
+    }
+
+    const { document, location } = loaded
+    const preprocessing = !values["no-preprocess"]
+    const diagnostics: Diagnostic[] = []
+    let tokens: DesignTokenObject
+
+    try {
+        if (isResolverDocument(document)) {
+            tokens = preprocessing
+                ? resolve(document, inputs, {
+                      ...sourceOptions(location),
+                      diagnostics,
+                  })
+                : mergeSources(
+                      collectSources(document, inputs, sourceOptions(location))
+                  )
+        } else if (values.input.length > 0) {
+            return usageError(
+                context,
+                "--input only applies to resolver files"
+            )
+        } else {
+            tokens = preprocessing
+                ? preprocess(document as DesignTokenObject, {
+                      location,
+                      diagnostics,
+                  })
+                : (document as DesignTokenObject)
+        }
+    } catch (error) {
+        context.stderr(`${positionals[0]}: ${(error as Error).message}`)
+        return EXIT_CODES.invalid
+    }
+
+    if (diagnostics.length > 0) {
+        context.stderr(`${positionals[0]}:`)
+        writeDiagnostics(context.stderr, diagnostics)
+    }
+    if (hasErrors(diagnostics)) {
+        return EXIT_CODES.invalid
+    }
+
+    context.stdout(JSON.stringify(tokens, null, 4))
+    return EXIT_CODES.success
+}
+
+/**
+ * dtcg explain <file> <token> [--input <modifier=context>]... [--json]
+ */
+function runExplain(args: string[], context: CliContext): number {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            input: { type: "string", multiple: true, default: [] },
+            json: { type: "boolean", default: false },
+        },
+    })
+    const inputs = parseInputs(values.input)
+    if (positionals.length !== 2 || !inputs) {
+        return usageError(
+            context,
+            "explain needs one file, one token path and inputs of the form modifier=context"
+        )
+    }
+
+    const [file, path] = positionals
+    const loaded = loadDocument(file, context)
+    if ("error" in loaded) {
+        context.stderr(formatLoadError(file, loaded))
+        return loaded.exitCode
+    }
+
+    const { document, location } = loaded
+    if (!isResolverDocument(document) && values.input.length > 0) {
+        return usageError(context, "--input only applies to resolver files")
+    }
+
+    try {
+        const explanation = isResolverDocument(document)
+            ? explainResolvedToken(document, path, {
+                  ...sourceOptions(location),
+                  inputs,
+              })
+            : explainToken(document as DesignTokenObject, path, { location })
+        context.stdout(
+            values.json
+                ? JSON.stringify(explanation, null, 4)
+                : formatTokenExplanation(explanation)
+        )
+    } catch (error) {
+        context.stderr(`${file}: ${(error as Error).message}`)
+        return EXIT_CODES.invalid
+    }
+
+    return EXIT_CODES.success
+}
+
+/**
+ * The subcommands, keyed by name
+ */
+const COMMANDS = new Map<
+    string,
+    (args: string[], context: CliContext) => number
+>([
+    ["validate", runValidate],
+    ["resolve", runResolve],
+    ["explain", runExplain],
+])
+
+/**
+ * Run the dtcg command-line tool
+ *
+ * @param args - The arguments after "dtcg", e.g. ["validate", "tokens/*.json"]
+ * @param options - Working directory and output, see CliOptions
+ * @returns The exit code, see EXIT_CODES
+ *
+ * @example
+ * ```typescript
+ * process.exitCode = runCli(process.argv.slice(2));
+ * ```
+ */
+export function runCli(
+    args: readonly string[],
+    options: CliOptions = {}
+): number {
+    const context: CliContext = {
+        cwd: options.cwd ?? process.cwd(),
+        stdout: options.stdout ?? ((text) => console.log(text)),
+        stderr: options.stderr ?? ((text) => console.error(text)),
+    }
+    const [command, ...rest] = args
+
+    if (command === "--help" || command === "-h" || command === "help") {
+        context.stdout(USAGE)
+        return EXIT_CODES.success
+    }
+    if (command === undefined) {
+        return usageError(context, "Missing command")
+    }
+    const run = COMMANDS.get(command)
+    if (!run) {
+        return usageError(context, `Unknown command "${command}"`)
+    }
+    if (rest.includes("--help") || rest.includes("-h")) {
+        context.stdout(USAGE)
+        return EXIT_CODES.success
+    }
+
+    try {
+        return run(rest, context)
+    } catch (error) {
+        // parseArgs rejects unknown options and missing option values
+        const code = (error as NodeJS.ErrnoException).code
+        if (code?.startsWith("ERR_PARSE_ARGS")) {
+            return usageError(context, (error as Error).message)
+        }
+        throw error
+    }
+}
+
+export default {
+    runCli,
+}
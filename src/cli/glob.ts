@@ -0,0 +1,219 @@
+/**
+ * File Globs
+ *
+ * Expands the file arguments of the command-line tool, so quoted globs work
+ * the same in every shell:
+ * - "*" matches any characters within a path segment, "?" one character
+ * - "**" matches any number of directories, including none
+ * - "{a,b}" matches either alternative, "[abc]" one of the characters;
+ *   unbalanced braces and brackets are matched literally
+ *
+ * Like shell globs, wildcards do not match names starting with a dot, and
+ * node_modules directories are not searched.
+ */
+
+import { readdirSync } from "node:fs"
+import { isAbsolute, join, relative, resolve } from "node:path"
+
+/**
+ * Characters that make an argument a glob
+ */
+const GLOB_CHARACTERS = /[*?[{]/
+
+/**
+ * Check if a file argument is a glob rather than a path
+ */
+export function isGlob(pattern: string): boolean {
+    return GLOB_CHARACTERS.test(pattern)
+}
+
+/**
+ * Find the braces of a glob segment that open or close a group of
+ * alternatives; the others are literal
+ */
+function findGroupBraces(segment: string): Set<number> {
+    const braces = new Set<number>()
+    const open: number[] = []
+
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i]
+        if (char === "[") {
+            // Braces between brackets are characters to match
+            i = Math.max(i, segment.indexOf("]", i + 1))
+        } else if (char === "{") {
+            open.push(i)
+        } else if (char === "}" && open.length > 0) {
+            braces.add(open.pop()!)
+            braces.add(i)
+        }
+    }
+
+    return braces
+}
+
+/**
+ * Convert one path segment of a glob to a regular expression
+ */
+function segmentToRegExp(segment: string): RegExp {
+    const groupBraces = findGroupBraces(segment)
+    let source = ""
+    let alternatives = 0
+
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i]
+        if (char === "*") {
+            source += "[^/]*"
+        } else if (char === "?") {
+            source += "[^/]"
+        } else if (char === "[") {
+            const end = segment.indexOf("]", i + 1)
+            if (end === -1) {
+                source += "\\["
+            } else {
+                const characters = segment.slice(i + 1, end)
+                source += `[${characters.replace(/^!/, "^").replace(/\\/g, "\\\\")}]`
+                i = end
+            }
+        } else if (char === "{" && groupBraces.has(i)) {
+            source += "(?:"
+            alternatives++
+        } else if (char === "," && alternatives > 0) {
+            source += "|"
+        } else if (char === "}" && groupBraces.has(i)) {
+            source += ")"
+            alternatives--
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+        }
+    }
+
+    return new RegExp(`^${source}$`)
+}
+
+/**
+ * Find the files below a directory that match the remaining glob segments
+ */
+function matchSegments(
+    directory: string,
+    segments: readonly string[],
+    matches: Set<string>
+): void {
+    const [segment, ...rest] = segments
+
+    if (segment === "**") {
+        // Zero directories, then one more directory at a time
+        matchSegments(directory, rest, matches)
+        for (const entry of readDirectory(directory)) {
+            if (entry.isDirectory() && isSearchable(entry.name, segment)) {
+                matchSegments(join(directory, entry.name), segments, matches)
+            }
+        }
+        return
+    }
+
+    const pattern = segmentToRegExp(segment)
+    for (const entry of readDirectory(directory)) {
+        if (!isSearchable(entry.name, segment) || !pattern.test(entry.name)) {
+            continue
+        }
+        const path = join(directory, entry.name)
+        if (rest.length > 0 && entry.isDirectory()) {
+            matchSegments(path, rest, matches)
+        } else if (rest.length === 0 && entry.isFile()) {
+            matches.add(path)
+        }
+    }
+}
+
+/**
+ * Check if a directory entry can be matched by a glob segment
+ * Dot files only match segments that start with a dot.
+ */
+function isSearchable(name: string, segment: string): boolean {
+    if (name === "node_modules") {
+        return segment === name
+    }
+    return !name.startsWith(".") || segment.startsWith(".")
+}
+
+/**
+ * List a directory, treating a missing or unreadable directory as empty
+ */
+function readDirectory(directory: string) {
+    try {
+        return readdirSync(directory, { withFileTypes: true })
+    } catch {
+        return []
+    }
+}
+
+/**
+ * Find the files matching a glob
+ *
+ * @param pattern - The glob, with "/" separating path segments
+ * @param cwd - Directory relative globs are matched from
+ * @returns The matching files, sorted; relative to cwd for relative globs
+ *
+ * @example
+ * ```typescript
+ * expandGlob('tokens/{base,themes}/*.json');
+ * // ['tokens/base/colors.json', 'tokens/themes/dark.json']
+ * ```
+ */
+export function expandGlob(
+    pattern: string,
+    cwd: string = process.cwd()
+): string[] {
+    const segments = pattern.split("/")
+    const firstGlob = segments.findIndex(isGlob)
+    if (firstGlob === -1) {
+        return [pattern]
+    }
+
+    // Search from the part of the path without wildcards
+    const base = segments.slice(0, firstGlob).join("/")
+    const globSegments = segments
+        .slice(firstGlob)
+        .filter((segment) => segment !== "")
+    // A trailing "**" matches every file below the base
+    if (globSegments[globSegments.length - 1] === "**") {
+        globSegments.push("*")
+    }
+    const matches = new Set<string>()
+    matchSegments(resolve(cwd, base), globSegments, matches)
+
+    return Array.from(matches, (match) =>
+        isAbsolute(pattern) ? match : relative(cwd, match)
+    ).sort()
+}
+
+/**
+ * Expand file arguments: globs become the files they match, other arguments
+ * are kept as they are
+ * @returns The files, without duplicates, and the globs that matched nothing
+ */
+export function expandFileArguments(
+    patterns: readonly string[],
+    cwd: string = process.cwd()
+): { files: string[]; unmatched: string[] } {
+    const files = new Set<string>()
+    const unmatched: string[] = []
+
+    for (const pattern of patterns) {
+        const matches = expandGlob(pattern, cwd)
+        if (matches.length === 0) {
+            unmatched.push(pattern)
+        }
+        for (const match of matches) {
+            files.add(match)
+        }
+    }
+
+    return { files: Array.from(files), unmatched }
+}
+
+export default {
+    isGlob,
+    expandGlob,
+    expandFileArguments,
+}
@@ -0,0 +1,33 @@
+/**
+ * DTCG JSON Schema
+ *
+ * Validates design token documents and resolver documents against the DTCG
+ * JSON schemas bundled with this package. Also exposes the preprocessors the
+ * validation builds on: reference resolution, type inheritance and the
+ * resolver engine.
+ */
+
+export * from "./validate.js"
+export * from "./schemas.js"
+export * from "./schemaErrors.js"
+export * from "./reporters/index.js"
+
+export * from "./preprocessors/contextDiff.js"
+export * from "./preprocessors/diagnostics.js"
+export * from "./preprocessors/documentLoader.js"
+export * from "./preprocessors/jsonPointer.js"
+export * from "./preprocessors/referenceGraph.js"
+export * from "./preprocessors/referenceResolver.js"
+export * from "./preprocessors/resolverBundler.js"
+export * from "./preprocessors/resolverEngine.js"
+export * from "./preprocessors/resolverPermutations.js"
+export * from "./preprocessors/resolverValidator.js"
+export * from "./preprocessors/sourcePositions.js"
+export * from "./preprocessors/tokenExplanation.js"
+export * from "./preprocessors/typeCompatibility.js"
+export * from "./preprocessors/typeHoisting.js"
+export * from "./preprocessors/typeInference.js"
+export * from "./preprocessors/typeInheritance.js"
+export * from "./preprocessors/typeStability.js"
+export * from "./preprocessors/types.js"
+export { isGroup, isToken, walkTokens } from "./preprocessors/utils.js"
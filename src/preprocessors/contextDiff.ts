@@ -0,0 +1,238 @@
+/**
+ * Context Diff
+ *
+ * Answers "what differs between light and dark?": resolves a resolver
+ * document once per context of a modifier and compares the resolved tokens.
+ * A token differs when it is missing from some contexts, or when its $value
+ * or $type is not the same in all of them.
+ *
+ * The other modifiers keep one context throughout: the given input, or their
+ * default context.
+ *
+ * The result is plain JSON; formatContextDiff renders it as a table.
+ */
+
+import { isDeepStrictEqual } from "node:util"
+import { DiagnosticError } from "./diagnostics.js"
+import { DocumentCache } from "./documentLoader.js"
+import { resolve, type SourceOptions } from "./resolverEngine.js"
+import { findUsedModifiers } from "./resolverValidator.js"
+import type { ResolverDocument, ResolverInputs, Token } from "./types.js"
+import { walkTokens } from "./utils.js"
+
+/**
+ * What differs for a token between contexts
+ */
+export type TokenChange = "presence" | "value" | "type"
+
+/**
+ * A token in one context, as resolved
+ */
+export interface ContextToken {
+    $type?: string
+    $value: unknown
+}
+
+/**
+ * A token that differs between contexts
+ */
+export interface TokenDifference {
+    /** Dot path of the token, e.g. "color.text" */
+    path: string
+    changes: TokenChange[]
+    /** The token in each context, keyed by context; null where it is missing */
+    contexts: Record<string, ContextToken | null>
+}
+
+/**
+ * Differences between the contexts of a modifier
+ */
+export interface ContextDiff {
+    modifier: string
+    /** The compared contexts, in document order */
+    contexts: string[]
+    /** Inputs used for the other modifiers */
+    inputs: ResolverInputs
+    /** Number of tokens compared: every token present in any context */
+    tokenCount: number
+    differences: TokenDifference[]
+}
+
+/**
+ * Options for diffContexts
+ */
+export interface ContextDiffOptions extends SourceOptions {
+    /** Contexts to compare, at least two; all contexts by default */
+    contexts?: string[]
+    /** Contexts of the other modifiers; their default context otherwise */
+    inputs?: ResolverInputs
+}
+
+/**
+ * Compare a token across contexts
+ * @returns What differs, empty if the token is the same everywhere
+ */
+function compareToken(
+    tokens: readonly (ContextToken | null)[]
+): TokenChange[] {
+    if (tokens.some((token) => token === null)) {
+        return ["presence"]
+    }
+
+    const [first, ...rest] = tokens as ContextToken[]
+    const changes: TokenChange[] = []
+    if (rest.some((token) => !isDeepStrictEqual(token.$value, first.$value))) {
+        changes.push("value")
+    }
+    if (rest.some((token) => token.$type !== first.$type)) {
+        changes.push("type")
+    }
+    return changes
+}
+
+/**
+ * Resolve a resolver document for contexts of a modifier and report the
+ * tokens that differ between them
+ *
+ * @param resolver - The resolver document
+ * @param modifier - Name of a modifier used in resolutionOrder
+ * @param options - Contexts to compare, inputs of the other modifiers and
+ * loading of token files
+ * @returns The differences, in document order of the tokens
+ * @throws DiagnosticError if the modifier is not used, fewer than two
+ * contexts are compared or the inputs are invalid
+ *
+ * @example
+ * ```typescript
+ * const diff = diffContexts(resolver, 'theme', { contexts: ['light', 'dark'] });
+ * // diff.differences: [{ path: 'color.text', changes: ['value'],
+ * //   contexts: { light: { $type: 'color', $value: ... }, dark: { ... } } }]
+ * ```
+ */
+export function diffContexts(
+    resolver: ResolverDocument,
+    modifier: string,
+    options: ContextDiffOptions = {}
+): ContextDiff {
+    const entry = findUsedModifiers(resolver).find(
+        ({ name }) => name === modifier
+    )
+    if (!entry) {
+        throw new DiagnosticError(
+            "unknown-modifier",
+            `Modifier "${modifier}" is not used in resolutionOrder`
+        )
+    }
+
+    const contexts = options.contexts ?? Object.keys(entry.modifier.contexts)
+    if (contexts.length < 2) {
+        throw new DiagnosticError(
+            "unknown-context",
+            `Comparing contexts of modifier "${modifier}" needs at least two contexts, got: ${contexts.join(", ")}`
+        )
+    }
+
+    const otherInputs = Object.fromEntries(
+        Object.entries(options.inputs ?? {}).filter(
+            ([name]) => name !== modifier
+        )
+    )
+    // Load each token file once across contexts
+    const documents =
+        options.documents ?? new DocumentCache(options.loader, options.rootDir)
+
+    const byPath = new Map<string, Record<string, ContextToken | null>>()
+    for (const context of contexts) {
+        const tokens = resolve(
+            resolver,
+            { ...otherInputs, [modifier]: context },
+            { ...options, documents }
+        )
+        walkTokens(tokens, (token: Token, segments) => {
+            const path = segments.join(".")
+            let entries = byPath.get(path)
+            if (!entries) {
+                entries = Object.fromEntries(contexts.map((c) => [c, null]))
+                byPath.set(path, entries)
+            }
+            entries[context] = { $type: token.$type, $value: token.$value }
+        })
+    }
+
+    const differences: TokenDifference[] = []
+    for (const [path, entries] of byPath) {
+        const changes = compareToken(contexts.map((c) => entries[c]))
+        if (changes.length > 0) {
+            differences.push({ path, changes, contexts: entries })
+        }
+    }
+
+    return {
+        modifier,
+        contexts,
+        inputs: otherInputs,
+        tokenCount: byPath.size,
+        differences,
+    }
+}
+
+/**
+ * Format a token of one context for a table cell
+ */
+function formatContextToken(token: ContextToken | null): string {
+    if (token === null) {
+        return "-"
+    }
+    const value = JSON.stringify(token.$value)
+    return token.$type ? `${value} (${token.$type})` : value
+}
+
+/**
+ * Format a context diff as a table, one row per differing token
+ *
+ * @example
+ * ```
+ * density: 2 of 5 tokens differ between compact and comfortable
+ *
+ * Token        Changes   compact     comfortable
+ * space.gap    value     4 (number)  8 (number)
+ * space.inset  presence  -           12 (number)
+ * ```
+ */
+export function formatContextDiff(diff: ContextDiff): string {
+    const contextList =
+        diff.contexts.length === 2
+            ? diff.contexts.join(" and ")
+            : diff.contexts.join(", ")
+    const summary = `${diff.modifier}: ${diff.differences.length} of ${diff.tokenCount} tokens differ between ${contextList}`
+    if (diff.differences.length === 0) {
+        return summary
+    }
+
+    const rows = [
+        ["Token", "Changes", ...diff.contexts],
+        ...diff.differences.map((difference) => [
+            difference.path,
+            difference.changes.join(", "),
+            ...diff.contexts.map((context) =>
+                formatContextToken(difference.contexts[context])
+            ),
+        ]),
+    ]
+    const widths = rows[0].map((_, column) =>
+        Math.max(...rows.map((row) => row[column].length))
+    )
+    const lines = rows.map((row) =>
+        row
+            .map((cell, column) => cell.padEnd(widths[column]))
+            .join("  ")
+            .trimEnd()
+    )
+
+    return [summary, "", ...lines].join("\n")
+}
+
+export default {
+    diffContexts,
+    formatContextDiff,
+}
@@ -0,0 +1,131 @@
+/**
+ * Diagnostics for design token preprocessors
+ *
+ * Preprocessors report problems by throwing a DiagnosticError. Callers that
+ * want every problem in a document instead of the first one can collect them
+ * as Diagnostic objects through a DiagnosticCollector.
+ */
+
+import type {
+    Diagnostic,
+    DiagnosticCode,
+    DiagnosticSeverity,
+} from "./types.js"
+
+/**
+ * Error thrown by preprocessors, carrying the data needed to build a Diagnostic
+ */
+export class DiagnosticError extends Error {
+    readonly code: DiagnosticCode
+    readonly reference?: string
+    readonly file?: string
+
+    constructor(
+        code: DiagnosticCode,
+        message: string,
+        details: { reference?: string; file?: string } = {}
+    ) {
+        super(message)
+        this.name = "DiagnosticError"
+        this.code = code
+        this.reference = details.reference
+        this.file = details.file
+    }
+}
+
+/**
+ * Accumulates diagnostics, ignoring exact duplicates
+ *
+ * The same problem can be reached more than once, for example when a group is
+ * resolved both on its own and as the target of an $extends.
+ */
+export class DiagnosticCollector {
+    readonly diagnostics: Diagnostic[]
+    /** File recorded for errors that do not name one themselves */
+    readonly file?: string
+    private readonly seen = new Set<string>()
+
+    constructor(diagnostics: Diagnostic[] = [], file?: string) {
+        this.diagnostics = diagnostics
+        this.file = file
+        for (const diagnostic of diagnostics) {
+            this.seen.add(diagnosticKey(diagnostic))
+        }
+    }
+
+    add(diagnostic: Diagnostic): void {
+        const key = diagnosticKey(diagnostic)
+        if (this.seen.has(key)) {
+            return
+        }
+        this.seen.add(key)
+        this.diagnostics.push(diagnostic)
+    }
+
+    /**
+     * Record a thrown error against a path
+     * Errors that are not DiagnosticErrors are recorded as invalid references
+     */
+    addError(
+        path: string,
+        error: unknown,
+        severity: DiagnosticSeverity = "error"
+    ): void {
+        const diagnostic: Diagnostic =
+            error instanceof DiagnosticError
+                ? {
+                      path,
+                      code: error.code,
+                      severity,
+                      message: error.message,
+                      ...(error.reference !== undefined && {
+                          reference: error.reference,
+                      }),
+                  }
+                : {
+                      path,
+                      code: "invalid-reference",
+                      severity,
+                      message:
+                          error instanceof Error
+                              ? error.message
+                              : String(error),
+                  }
+
+        const file =
+            error instanceof DiagnosticError && error.file
+                ? error.file
+                : this.file
+        if (file !== undefined) {
+            diagnostic.file = file
+        }
+
+        this.add(diagnostic)
+    }
+}
+
+function diagnosticKey(diagnostic: Diagnostic): string {
+    return [
+        diagnostic.file ?? "",
+        diagnostic.path,
+        diagnostic.code,
+        diagnostic.severity,
+        diagnostic.message,
+    ].join("\u0000")
+}
+
+/**
+ * Check whether any diagnostic in a list is an error
+ */
+export function hasErrors(diagnostics: readonly Diagnostic[]): boolean {
+    return diagnostics.some((diagnostic) => diagnostic.severity === "error")
+}
+
+/**
+ * Format a diagnostic as a single human-readable line
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+    const path = diagnostic.path || "(root)"
+    const file = diagnostic.file ? ` (in ${diagnostic.file})` : ""
+    return `${path}: [${diagnostic.code}] ${diagnostic.message}${file}`
+}
@@ -0,0 +1,220 @@
+/**
+ * Design Token Document Loading
+ *
+ * References can point into other documents, for example
+ * "./base/colors.json#/blue/$value" or an $extends of "./base.json#/button".
+ * A DocumentLoader turns such a reference into a parsed document, and a
+ * DocumentCache makes sure each document is only loaded once per resolution.
+ *
+ * Two loaders are provided:
+ * - createFileSystemLoader: reads JSON files relative to the referring file
+ * - createMemoryLoader: serves documents from an in-memory map (for tests)
+ */
+
+import { readFileSync } from "node:fs"
+import { dirname, isAbsolute, posix, relative, resolve, sep } from "node:path"
+import { DiagnosticError } from "./diagnostics.js"
+import { parseJson } from "./sourcePositions.js"
+import type { DesignTokenObject } from "./types.js"
+
+/**
+ * Loads documents referenced from other documents
+ */
+export interface DocumentLoader {
+    /**
+     * Turn a document reference into a canonical location
+     * A canonical location without a base must be returned as it is.
+     * @param reference - The document part of a reference, e.g. "./base.json"
+     * @param base - Location of the referring document, if known
+     */
+    resolveLocation(reference: string, base?: string): string
+    /**
+     * Load and parse the document at a canonical location
+     * Throws if the document does not exist or cannot be parsed
+     */
+    load(location: string): DesignTokenObject
+}
+
+/**
+ * A reference split into its document and JSON Pointer parts
+ */
+export interface SplitReference {
+    /** The document part, empty for same-document references */
+    document: string
+    /** The fragment including its leading "#", empty if there is none */
+    pointer: string
+}
+
+/**
+ * Split a reference into its document and fragment parts
+ * Example: "./base.json#/blue/$value" -> { document: "./base.json", pointer: "#/blue/$value" }
+ */
+export function splitReference(reference: string): SplitReference {
+    const hashIndex = reference.indexOf("#")
+
+    if (hashIndex === -1) {
+        return { document: reference, pointer: "" }
+    }
+
+    return {
+        document: reference.slice(0, hashIndex),
+        pointer: reference.slice(hashIndex),
+    }
+}
+
+/**
+ * Check that a location is inside a directory
+ * Both are resolved against the working directory when they are relative.
+ */
+export function isInsideDirectory(
+    location: string,
+    directory: string
+): boolean {
+    const fromDirectory = relative(resolve(directory), resolve(location))
+    return !(
+        fromDirectory === ".." ||
+        fromDirectory.startsWith(`..${sep}`) ||
+        isAbsolute(fromDirectory)
+    )
+}
+
+/**
+ * Create a loader that reads JSON documents from the filesystem
+ * Relative references are resolved against the referring file's directory,
+ * or the working directory when the referring document has no location.
+ * Files are parsed with parseJson, so problems in them can be located.
+ */
+export function createFileSystemLoader(): DocumentLoader {
+    return {
+        resolveLocation(reference, base) {
+            return base
+                ? resolve(dirname(base), reference)
+                : resolve(reference)
+        },
+        load(location) {
+            return parseJson(
+                readFileSync(location, "utf-8")
+            ) as DesignTokenObject
+        },
+    }
+}
+
+/**
+ * Create a loader that serves documents from memory
+ * Locations are POSIX paths, e.g. { "tokens.json": ..., "base/colors.json": ... }
+ */
+export function createMemoryLoader(
+    documents: Record<string, DesignTokenObject>
+): DocumentLoader {
+    const normalized = new Map<string, DesignTokenObject>()
+    for (const [location, document] of Object.entries(documents)) {
+        normalized.set(posix.normalize(location), document)
+    }
+
+    return {
+        resolveLocation(reference, base) {
+            return posix.normalize(
+                base ? posix.join(posix.dirname(base), reference) : reference
+            )
+        },
+        load(location) {
+            const document = normalized.get(location)
+            if (document === undefined) {
+                throw new Error(`No document at "${location}"`)
+            }
+            return document
+        },
+    }
+}
+
+/**
+ * Caches the documents loaded through a DocumentLoader
+ *
+ * The cache also remembers the location of every document root it has seen,
+ * so relative references can be resolved from wherever they appear.
+ * Loading can be confined to a root directory.
+ */
+export class DocumentCache {
+    readonly loader: DocumentLoader
+    /** Directory loaded documents must be inside, if any */
+    readonly rootDir?: string
+    private readonly documents = new Map<string, DesignTokenObject>()
+    private readonly locations = new WeakMap<object, string>()
+
+    constructor(
+        loader: DocumentLoader = createFileSystemLoader(),
+        rootDir?: string
+    ) {
+        this.loader = loader
+        this.rootDir = rootDir
+    }
+
+    /**
+     * Register an already-parsed document under its location
+     */
+    register(location: string, root: DesignTokenObject): void {
+        this.documents.set(location, root)
+        this.locations.set(root, location)
+    }
+
+    /**
+     * Get the location of a registered document root
+     */
+    locationOf(root: DesignTokenObject): string | undefined {
+        return this.locations.get(root)
+    }
+
+    /**
+     * Get a loaded or registered document by its location
+     */
+    get(location: string): DesignTokenObject | undefined {
+        return this.documents.get(location)
+    }
+
+    /**
+     * Load a referenced document, reusing it if it was loaded before
+     * @param reference - The document part of a reference
+     * @param base - Location of the referring document, if known
+     * @throws DiagnosticError if the document is outside the root directory
+     * or cannot be loaded
+     */
+    load(
+        reference: string,
+        base?: string
+    ): { location: string; root: DesignTokenObject } {
+        const location = this.loader.resolveLocation(reference, base)
+
+        if (
+            this.rootDir !== undefined &&
+            !isInsideDirectory(location, this.rootDir)
+        ) {
+            throw new DiagnosticError(
+                "outside-root",
+                `Document "${reference}" is outside the root directory "${this.rootDir}"`,
+                { reference, file: base }
+            )
+        }
+
+        const cached = this.documents.get(location)
+
+        if (cached !== undefined) {
+            return { location, root: cached }
+        }
+
+        let root: DesignTokenObject
+        try {
+            root = this.loader.load(location)
+        } catch (error) {
+            const reason =
+                error instanceof Error ? error.message : String(error)
+            throw new DiagnosticError(
+                "unresolved-document",
+                `Document "${reference}" could not be loaded: ${reason}`,
+                { reference, file: base }
+            )
+        }
+
+        this.register(location, root)
+        return { location, root }
+    }
+}
@@ -0,0 +1,258 @@
+/**
+ * JSON Pointer
+ *
+ * Strict implementation of JSON Pointer (RFC 6901) in its URI fragment
+ * representation (RFC 3986 section 3.5), as used by $ref:
+ * - "#" is the whole document, "#/a/b" the member "b" of the member "a"
+ * - "~1" and "~0" in a reference token stand for "/" and "~"
+ * - Characters that are not allowed in a URI fragment (e.g. spaces, "{", "}"
+ *   or a second "#") must be percent-encoded, e.g. "#/token%20name"
+ * - Array elements are addressed by index without leading zeros; "-" (the
+ *   element after the last one) never exists when evaluating
+ *
+ * Every malformed pointer or unresolvable location throws a JsonPointerError
+ * saying exactly what is wrong and where.
+ */
+
+import { DiagnosticError } from "./diagnostics.js"
+import type { DiagnosticCode } from "./types.js"
+
+/**
+ * Error thrown for a malformed JSON Pointer ("invalid-pointer") or a pointer
+ * that does not resolve in a document ("unresolved-reference")
+ */
+export class JsonPointerError extends DiagnosticError {
+    constructor(
+        code: Extract<
+            DiagnosticCode,
+            "invalid-pointer" | "unresolved-reference"
+        >,
+        message: string,
+        pointer: string
+    ) {
+        super(code, message, { reference: pointer })
+        this.name = "JsonPointerError"
+    }
+}
+
+/**
+ * Characters allowed unencoded in a URI fragment, besides "%" escapes:
+ * unreserved, sub-delims, ":", "@", "/" and "?"
+ */
+const FRAGMENT_CHARACTER = /[A-Za-z0-9\-._~!$&'()*+,;=:@/?]/
+
+/**
+ * Array index: "0" or a positive integer without leading zeros
+ */
+const ARRAY_INDEX = /^(?:0|[1-9][0-9]*)$/
+
+/**
+ * Parse a JSON Pointer in its JSON string representation, e.g. "/a/b~1c"
+ * @returns The unescaped reference tokens, e.g. ["a", "b/c"]
+ * @throws JsonPointerError if the pointer is malformed
+ */
+export function parsePointer(pointer: string): string[] {
+    if (pointer === "") {
+        return []
+    }
+
+    if (!pointer.startsWith("/")) {
+        throw new JsonPointerError(
+            "invalid-pointer",
+            `Invalid JSON Pointer "${pointer}": must be empty or start with "/"`,
+            pointer
+        )
+    }
+
+    return pointer
+        .slice(1)
+        .split("/")
+        .map((token) => {
+            if (/~(?![01])/.test(token)) {
+                throw new JsonPointerError(
+                    "invalid-pointer",
+                    `Invalid JSON Pointer "${pointer}": "~" in reference token "${token}" must be followed by "0" or "1"`,
+                    pointer
+                )
+            }
+            return token.replace(/~1/g, "/").replace(/~0/g, "~")
+        })
+}
+
+/**
+ * Parse a JSON Pointer in its URI fragment representation, e.g. "#/a/b%20c"
+ * @returns The decoded reference tokens, e.g. ["a", "b c"]
+ * @throws JsonPointerError if the fragment or the pointer is malformed
+ */
+export function parseFragmentPointer(fragment: string): string[] {
+    if (!fragment.startsWith("#")) {
+        throw new JsonPointerError(
+            "invalid-pointer",
+            `Invalid JSON Pointer "${fragment}": a URI fragment must start with "#"`,
+            fragment
+        )
+    }
+
+    for (let i = 1; i < fragment.length; i++) {
+        const character = fragment[i]
+
+        if (character === "%") {
+            if (!/^[0-9A-Fa-f]{2}$/.test(fragment.slice(i + 1, i + 3))) {
+                throw new JsonPointerError(
+                    "invalid-pointer",
+                    `Invalid JSON Pointer "${fragment}": "%" at position ${i} must be followed by two hexadecimal digits`,
+                    fragment
+                )
+            }
+            i += 2
+        } else if (!FRAGMENT_CHARACTER.test(character)) {
+            throw new JsonPointerError(
+                "invalid-pointer",
+                `Invalid JSON Pointer "${fragment}": "${character}" at position ${i} is not allowed in a URI fragment and must be percent-encoded`,
+                fragment
+            )
+        }
+    }
+
+    let pointer: string
+    try {
+        pointer = decodeURIComponent(fragment.slice(1))
+    } catch {
+        throw new JsonPointerError(
+            "invalid-pointer",
+            `Invalid JSON Pointer "${fragment}": percent-encoded characters are not valid UTF-8`,
+            fragment
+        )
+    }
+
+    try {
+        return parsePointer(pointer)
+    } catch (error) {
+        // Report the pointer as written rather than decoded
+        if (error instanceof JsonPointerError) {
+            throw new JsonPointerError(
+                "invalid-pointer",
+                error.message.replace(`"${pointer}"`, `"${fragment}"`),
+                fragment
+            )
+        }
+        throw error
+    }
+}
+
+/**
+ * Format reference tokens as a JSON Pointer, e.g. ["a", "b/c"] -> "/a/b~1c"
+ */
+export function formatPointer(tokens: readonly string[]): string {
+    return tokens
+        .map((token) => `/${token.replace(/~/g, "~0").replace(/\//g, "~1")}`)
+        .join("")
+}
+
+/**
+ * Format reference tokens as a URI fragment, e.g. ["a b"] -> "#/a%20b"
+ */
+export function formatFragmentPointer(tokens: readonly string[]): string {
+    const pointer = formatPointer(tokens)
+    let fragment = "#"
+    for (const character of pointer) {
+        fragment += FRAGMENT_CHARACTER.test(character)
+            ? character
+            : encodeURIComponent(character)
+    }
+    return fragment
+}
+
+/**
+ * Describe a JSON value for error messages
+ */
+function describeValue(value: unknown): string {
+    if (value === null) {
+        return "null"
+    }
+    if (Array.isArray(value)) {
+        return `an array with ${value.length} element${value.length === 1 ? "" : "s"}`
+    }
+    return typeof value === "object" ? "an object" : `a ${typeof value}`
+}
+
+/**
+ * Evaluate reference tokens against a document, keeping every value passed
+ * @param document - The document to evaluate against
+ * @param tokens - Reference tokens, e.g. from parseFragmentPointer
+ * @param pointer - The pointer as written, for error messages
+ * @returns The values along the path: the document first, the target last
+ * @throws JsonPointerError if a reference token does not exist
+ */
+export function walkPointer(
+    document: unknown,
+    tokens: readonly string[],
+    pointer: string = formatFragmentPointer(tokens)
+): unknown[] {
+    const values: unknown[] = [document]
+    let current = document
+
+    tokens.forEach((token, i) => {
+        const location = `"${formatFragmentPointer(tokens.slice(0, i))}"`
+        const fail = (reason: string): never => {
+            throw new JsonPointerError(
+                "unresolved-reference",
+                `JSON Pointer "${pointer}" could not be resolved: ${location} ${reason}`,
+                pointer
+            )
+        }
+
+        if (Array.isArray(current)) {
+            if (token === "-") {
+                fail(
+                    `is ${describeValue(current)}; "-" refers to the element after the last one, which does not exist`
+                )
+            }
+            if (!ARRAY_INDEX.test(token)) {
+                fail(
+                    `is ${describeValue(current)}; "${token}" is not an array index (a non-negative integer without leading zeros)`
+                )
+            }
+            if (Number(token) >= current.length) {
+                fail(
+                    `is ${describeValue(current)}; index ${token} is out of bounds`
+                )
+            }
+            current = current[Number(token)]
+        } else if (current !== null && typeof current === "object") {
+            if (!Object.prototype.hasOwnProperty.call(current, token)) {
+                fail(`has no member "${token}"`)
+            }
+            current = (current as Record<string, unknown>)[token]
+        } else {
+            fail(`is ${describeValue(current)} and has no members`)
+        }
+
+        values.push(current)
+    })
+
+    return values
+}
+
+/**
+ * Evaluate reference tokens against a document
+ * @returns The value the tokens point to
+ * @throws JsonPointerError if a reference token does not exist
+ */
+export function evaluatePointer(
+    document: unknown,
+    tokens: readonly string[],
+    pointer?: string
+): unknown {
+    const values = walkPointer(document, tokens, pointer)
+    return values[values.length - 1]
+}
+
+export default {
+    parsePointer,
+    parseFragmentPointer,
+    formatPointer,
+    formatFragmentPointer,
+    walkPointer,
+    evaluatePointer,
+}
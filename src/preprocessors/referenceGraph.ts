@@ -0,0 +1,559 @@
+/**
+ * Design Token Reference Graph
+ *
+ * This module builds an explicit dependency graph between the tokens of a
+ * document, using the same reference syntaxes as the reference resolver:
+ * - Curly brace aliases in $value, including inside composite values
+ * - JSON Pointer references ($ref), at token level or property level
+ * - Group extensions ($extends), which add the inherited tokens to the graph
+ *
+ * The graph answers questions such as "what changes if I edit colors.blue?"
+ * (transitive dependents), "which primitives are never used?" and "in which
+ * order can tokens be processed?" (dependencies first).
+ *
+ * Only same-document references are followed. References into other files
+ * are listed in externalReferences.
+ */
+
+import { DiagnosticError } from "./diagnostics.js"
+import { splitReference } from "./documentLoader.js"
+import {
+    isCurlyBraceReference,
+    isJsonPointerReference,
+    parseCurlyBraceReference,
+    parseJsonPointer,
+} from "./referenceResolver.js"
+import type { DesignTokenObject, Diagnostic, Group, Token } from "./types.js"
+import { hasRefProperty } from "./types.js"
+import { isGroup, isPlainObject, navigateToPath, walkTokens } from "./utils.js"
+
+/**
+ * How one token depends on another
+ * - alias: curly brace reference, e.g. "{colors.blue}"
+ * - pointer: JSON Pointer reference, e.g. { "$ref": "#/colors/blue/$value" }
+ * - extends: the token was inherited through a group's $extends
+ */
+export type ReferenceKind = "alias" | "pointer" | "extends"
+
+/**
+ * A dependency of one token on another
+ */
+export interface ReferenceEdge {
+    /** Path of the dependent token */
+    from: string
+    /** Path of the token it depends on */
+    to: string
+    kind: ReferenceKind
+    /** The reference as written in the document */
+    reference: string
+}
+
+/**
+ * A token in the reference graph
+ */
+export interface ReferenceGraphNode {
+    /** Dot-separated token path */
+    path: string
+    /** Tokens this token references directly, in document order */
+    dependencies: string[]
+    /** Tokens that reference this token directly */
+    dependents: string[]
+    /** Every token this token depends on, directly or through other tokens */
+    transitiveDependencies: string[]
+    /** Every token that depends on this token, directly or through other tokens */
+    transitiveDependents: string[]
+    /**
+     * Number of alias hops needed to reach literal values: 0 for a leaf,
+     * 1 for an alias to a leaf, and so on. $extends hops do not count.
+     * Infinity for tokens that are part of or depend on a cycle.
+     */
+    aliasDepth: number
+    /** True if the token's value contains no references at all */
+    isLeaf: boolean
+    /** True if the token only exists because a group $extends another */
+    inherited: boolean
+}
+
+/**
+ * A reference that points into another document and is not followed
+ */
+export interface ExternalReference {
+    /** Path of the token or group containing the reference */
+    from: string
+    reference: string
+}
+
+/**
+ * Dependency graph of every token in a document
+ */
+export interface ReferenceGraph {
+    /** Nodes keyed by token path, in document order */
+    nodes: Map<string, ReferenceGraphNode>
+    edges: ReferenceEdge[]
+    /** Groups of tokens that reference each other in a loop */
+    cycles: string[][]
+    externalReferences: ExternalReference[]
+    /** References that could not be mapped to a token */
+    diagnostics: Diagnostic[]
+}
+
+/**
+ * Collect the references in a token's $ref and $value, in document order
+ */
+function collectTokenReferences(
+    token: Token
+): Array<{ reference: string; kind: ReferenceKind }> {
+    const references: Array<{ reference: string; kind: ReferenceKind }> = []
+
+    if (isJsonPointerReference(token)) {
+        references.push({ reference: token.$ref as string, kind: "pointer" })
+    }
+
+    const visit = (value: unknown): void => {
+        if (isCurlyBraceReference(value)) {
+            references.push({ reference: value, kind: "alias" })
+        } else if (hasRefProperty(value)) {
+            references.push({ reference: value.$ref, kind: "pointer" })
+        } else if (Array.isArray(value)) {
+            value.forEach(visit)
+        } else if (isPlainObject(value)) {
+            Object.values(value).forEach(visit)
+        }
+    }
+    visit(token.$value)
+
+    return references
+}
+
+/**
+ * Collect every group that declares $extends, with its path segments
+ */
+function collectExtendingGroups(
+    obj: DesignTokenObject,
+    segments: string[] = [],
+    groups: Array<{ segments: string[]; group: Group }> = []
+): Array<{ segments: string[]; group: Group }> {
+    if ((obj as Group).$extends) {
+        groups.push({ segments, group: obj as Group })
+    }
+
+    for (const [key, value] of Object.entries(obj)) {
+        if (!key.startsWith("$") && isGroup(value)) {
+            collectExtendingGroups(value, [...segments, key], groups)
+        }
+    }
+
+    return groups
+}
+
+/**
+ * Parse an $extends value into target segments
+ * Returns null for references into other documents
+ */
+function parseExtendsReference(extendsRef: unknown): {
+    reference: string
+    segments: string[] | null
+} | null {
+    const reference =
+        typeof extendsRef === "string"
+            ? extendsRef
+            : hasRefProperty(extendsRef)
+              ? extendsRef.$ref
+              : null
+
+    if (reference === null) {
+        return null
+    }
+
+    if (isCurlyBraceReference(reference)) {
+        return { reference, segments: parseCurlyBraceReference(reference) }
+    }
+
+    const { document, pointer } = splitReference(reference)
+    if (document !== "") {
+        return { reference, segments: null }
+    }
+
+    try {
+        return { reference, segments: parseJsonPointer(pointer) }
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Map a reference to the path of the token it depends on
+ * Curly brace references name the token directly; JSON Pointers depend on the
+ * token that contains the pointed-to location.
+ */
+function findReferencedToken(
+    reference: string,
+    kind: ReferenceKind,
+    nodes: Map<string, ReferenceGraphNode>
+): string | undefined {
+    if (kind === "alias") {
+        const path = parseCurlyBraceReference(reference).join(".")
+        return nodes.has(path) ? path : undefined
+    }
+
+    let segments: string[]
+    try {
+        segments = parseJsonPointer(splitReference(reference).pointer)
+    } catch {
+        return undefined
+    }
+
+    for (let i = 1; i <= segments.length; i++) {
+        const path = segments.slice(0, i).join(".")
+        if (nodes.has(path)) {
+            return path
+        }
+    }
+
+    return undefined
+}
+
+function createNode(path: string, inherited: boolean): ReferenceGraphNode {
+    return {
+        path,
+        dependencies: [],
+        dependents: [],
+        transitiveDependencies: [],
+        transitiveDependents: [],
+        aliasDepth: 0,
+        isLeaf: true,
+        inherited,
+    }
+}
+
+/**
+ * Add the tokens inherited through $extends as nodes with an extends edge
+ * to the token they were inherited from. Repeats until nothing changes so
+ * that chained extensions are expanded too.
+ */
+function expandExtends(
+    doc: DesignTokenObject,
+    nodes: Map<string, ReferenceGraphNode>,
+    edges: ReferenceEdge[],
+    graph: Pick<ReferenceGraph, "externalReferences" | "diagnostics">
+): void {
+    const extensions: Array<{
+        path: string
+        target: string
+        reference: string
+    }> = []
+
+    for (const { segments, group } of collectExtendingGroups(doc)) {
+        const path = segments.join(".")
+        const parsed = parseExtendsReference(group.$extends)
+
+        if (!parsed) {
+            graph.diagnostics.push({
+                path,
+                code: "invalid-extends",
+                severity: "error",
+                message: `Invalid $extends reference: ${group.$extends}`,
+            })
+            continue
+        }
+
+        if (!parsed.segments) {
+            graph.externalReferences.push({
+                from: path,
+                reference: parsed.reference,
+            })
+            continue
+        }
+
+        const target = navigateToPath(doc, parsed.segments)
+        if (!isGroup(target)) {
+            graph.diagnostics.push({
+                path,
+                code:
+                    target === undefined
+                        ? "unresolved-extends"
+                        : "extends-not-group",
+                severity: "error",
+                message:
+                    target === undefined
+                        ? `$extends reference "${parsed.reference}" could not be resolved`
+                        : `$extends reference "${parsed.reference}" points to a token, not a group`,
+                reference: parsed.reference,
+            })
+            continue
+        }
+
+        extensions.push({
+            path,
+            target: parsed.segments.join("."),
+            reference: parsed.reference,
+        })
+    }
+
+    let changed = true
+    while (changed) {
+        changed = false
+
+        for (const { path, target, reference } of extensions) {
+            const targetPrefix = target === "" ? "" : `${target}.`
+            const ownPrefix = path === "" ? "" : `${path}.`
+
+            // A group extending one of its ancestors must not inherit its
+            // own tokens, or every pass would nest them one level deeper
+            const targetInsideGroup =
+                ownPrefix === "" || targetPrefix.startsWith(ownPrefix)
+
+            for (const sourcePath of Array.from(nodes.keys())) {
+                if (
+                    !sourcePath.startsWith(targetPrefix) ||
+                    (!targetInsideGroup && sourcePath.startsWith(ownPrefix))
+                ) {
+                    continue
+                }
+
+                const inheritedPath =
+                    ownPrefix + sourcePath.slice(targetPrefix.length)
+                if (nodes.has(inheritedPath)) {
+                    continue
+                }
+
+                const node = createNode(inheritedPath, true)
+                node.dependencies.push(sourcePath)
+                node.isLeaf = false
+                nodes.set(inheritedPath, node)
+                edges.push({
+                    from: inheritedPath,
+                    to: sourcePath,
+                    kind: "extends",
+                    reference,
+                })
+                changed = true
+            }
+        }
+    }
+}
+
+/**
+ * Group nodes into strongly connected components (Tarjan's algorithm)
+ * Components are returned dependencies-first.
+ */
+function findComponents(nodes: Map<string, ReferenceGraphNode>): string[][] {
+    const index = new Map<string, number>()
+    const lowLink = new Map<string, number>()
+    const onStack = new Set<string>()
+    const stack: string[] = []
+    const components: string[][] = []
+    let counter = 0
+
+    const connect = (path: string): void => {
+        index.set(path, counter)
+        lowLink.set(path, counter)
+        counter++
+        stack.push(path)
+        onStack.add(path)
+
+        for (const dependency of nodes.get(path)!.dependencies) {
+            if (!index.has(dependency)) {
+                connect(dependency)
+                lowLink.set(
+                    path,
+                    Math.min(lowLink.get(path)!, lowLink.get(dependency)!)
+                )
+            } else if (onStack.has(dependency)) {
+                lowLink.set(
+                    path,
+                    Math.min(lowLink.get(path)!, index.get(dependency)!)
+                )
+            }
+        }
+
+        if (lowLink.get(path) === index.get(path)) {
+            const component: string[] = []
+            let member: string
+            do {
+                member = stack.pop()!
+                onStack.delete(member)
+                component.push(member)
+            } while (member !== path)
+            components.push(component.reverse())
+        }
+    }
+
+    for (const path of nodes.keys()) {
+        if (!index.has(path)) {
+            connect(path)
+        }
+    }
+
+    return components
+}
+
+/**
+ * Build the reference graph of a design token document
+ *
+ * @param doc - The document root
+ * @returns The graph of every token, including tokens inherited through $extends
+ *
+ * @example
+ * ```typescript
+ * const graph = buildReferenceGraph(tokens);
+ * graph.nodes.get('colors.blue')?.transitiveDependents;
+ * // => ['semantic.primary', 'button.background', ...]
+ * ```
+ */
+export function buildReferenceGraph(doc: DesignTokenObject): ReferenceGraph {
+    const nodes = new Map<string, ReferenceGraphNode>()
+    const edges: ReferenceEdge[] = []
+    const graph: ReferenceGraph = {
+        nodes,
+        edges,
+        cycles: [],
+        externalReferences: [],
+        diagnostics: [],
+    }
+
+    const tokens: Array<{ path: string; token: Token }> = []
+    walkTokens(doc, (token, segments) => {
+        const path = segments.join(".")
+        tokens.push({ path, token })
+        nodes.set(path, createNode(path, false))
+    })
+
+    expandExtends(doc, nodes, edges, graph)
+
+    // Direct references of locally defined tokens
+    for (const { path, token } of tokens) {
+        const node = nodes.get(path)!
+
+        for (const { reference, kind } of collectTokenReferences(token)) {
+            node.isLeaf = false
+
+            if (
+                kind === "pointer" &&
+                splitReference(reference).document !== ""
+            ) {
+                graph.externalReferences.push({ from: path, reference })
+                continue
+            }
+
+            const target = findReferencedToken(reference, kind, nodes)
+            if (target === undefined) {
+                graph.diagnostics.push({
+                    path,
+                    code: "unresolved-reference",
+                    severity: "error",
+                    message: `Reference "${reference}" does not point to a token`,
+                    reference,
+                })
+                continue
+            }
+
+            edges.push({ from: path, to: target, kind, reference })
+            if (!node.dependencies.includes(target)) {
+                node.dependencies.push(target)
+            }
+        }
+    }
+
+    const edgesFrom = new Map<string, ReferenceEdge[]>()
+    for (const edge of edges) {
+        const dependents = nodes.get(edge.to)!.dependents
+        if (!dependents.includes(edge.from)) {
+            dependents.push(edge.from)
+        }
+
+        const outgoing = edgesFrom.get(edge.from) ?? []
+        outgoing.push(edge)
+        edgesFrom.set(edge.from, outgoing)
+    }
+
+    // Transitive dependencies and alias depth, dependencies first
+    const reachable = new Map<string, Set<string>>()
+    for (const component of findComponents(nodes)) {
+        const members = new Set(component)
+        const isCycle =
+            component.length > 1 ||
+            nodes.get(component[0])!.dependencies.includes(component[0])
+
+        if (isCycle) {
+            graph.cycles.push(component)
+        }
+
+        const reach = new Set<string>()
+        let depth = 0
+        for (const member of component) {
+            for (const dependency of nodes.get(member)!.dependencies) {
+                reach.add(dependency)
+                if (!members.has(dependency)) {
+                    reachable.get(dependency)!.forEach((d) => reach.add(d))
+                }
+            }
+        }
+
+        if (isCycle) {
+            depth = Infinity
+        } else {
+            for (const edge of edgesFrom.get(component[0]) ?? []) {
+                const hop = edge.kind === "extends" ? 0 : 1
+                depth = Math.max(depth, hop + nodes.get(edge.to)!.aliasDepth)
+            }
+        }
+
+        for (const member of component) {
+            const node = nodes.get(member)!
+            node.aliasDepth = depth
+            reachable.set(member, reach)
+        }
+    }
+
+    for (const node of nodes.values()) {
+        const reach = reachable.get(node.path)!
+        node.transitiveDependencies = Array.from(reach).filter(
+            (path) => path !== node.path
+        )
+        for (const dependency of node.transitiveDependencies) {
+            nodes.get(dependency)!.transitiveDependents.push(node.path)
+        }
+    }
+
+    return graph
+}
+
+/**
+ * Find leaf tokens that no other token references
+ * These are candidates for unused primitives.
+ */
+export function findUnusedTokens(graph: ReferenceGraph): string[] {
+    return Array.from(graph.nodes.values())
+        .filter(
+            (node) =>
+                node.isLeaf && !node.inherited && node.dependents.length === 0
+        )
+        .map((node) => node.path)
+}
+
+/**
+ * Order tokens so that every token comes after the tokens it depends on
+ * Throws if the graph contains a cycle.
+ */
+export function sortTokensByDependencies(graph: ReferenceGraph): string[] {
+    if (graph.cycles.length > 0) {
+        throw new DiagnosticError(
+            "circular-reference",
+            `Cannot order tokens with circular references: ${graph.cycles
+                .map((cycle) => cycle.join(" -> "))
+                .join("; ")}`
+        )
+    }
+
+    return findComponents(graph.nodes).map((component) => component[0])
+}
+
+/**
+ * Default export
+ */
+export default {
+    buildReferenceGraph,
+    findUnusedTokens,
+    sortTokensByDependencies,
+}
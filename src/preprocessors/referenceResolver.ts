@@ -0,0 +1,1269 @@
+/**
+ * Design Token Reference Resolver
+ *
+ * This module provides functionality to resolve design token references, converting
+ * alias tokens into their resolved values. This should be run BEFORE type inheritance
+ * to ensure tokens get their types from the correct source.
+ *
+ * Supports all reference syntaxes from the DTCG specification:
+ * - Curly brace references: "{group.token}" in $value
+ * - JSON Pointer references: "$ref": "#/path/to/value"
+ * - Group extensions: "$extends": "{group}" for group inheritance
+ *
+ * Handles:
+ * - Chained references (references to references)
+ * - Circular reference detection
+ * - Property-level references (JSON Pointer only)
+ * - Group extension with deep merge, optionally recording the provenance of
+ *   every token (where it is defined and which $extends it came through)
+ * - Warnings for references and $extends that point at deprecated tokens or
+ *   groups, including tokens deprecated through their parent groups
+ *
+ * By default the first problem throws. Passing a diagnostics array collects
+ * every problem instead and returns a best-effort resolved tree; warnings are
+ * only reported in this mode.
+ */
+
+import { DiagnosticCollector, DiagnosticError } from "./diagnostics.js"
+import type { DocumentLoader } from "./documentLoader.js"
+import { DocumentCache, splitReference } from "./documentLoader.js"
+import {
+    JsonPointerError,
+    parseFragmentPointer,
+    walkPointer,
+} from "./jsonPointer.js"
+import { ResolutionCache } from "./resolutionCache.js"
+import type {
+    DesignTokenObject,
+    Diagnostic,
+    Group,
+    ResolveResult,
+    Token,
+    TokenProvenance,
+} from "./types.js"
+import { hasRefProperty } from "./types.js"
+import {
+    isGroup,
+    isPlainObject,
+    isToken,
+    navigateToPath,
+    resolveDeprecation,
+    resolveInheritedType,
+} from "./utils.js"
+
+/**
+ * Check if a value is a curly brace reference (e.g., "{group.token}")
+ */
+export function isCurlyBraceReference(value: unknown): value is string {
+    return (
+        typeof value === "string" &&
+        value.startsWith("{") &&
+        value.endsWith("}") &&
+        value.length > 2
+    )
+}
+
+/**
+ * Check if a token uses JSON Pointer reference ($ref property)
+ */
+export function isJsonPointerReference(token: Token): boolean {
+    return typeof token.$ref === "string" && token.$ref.length > 0
+}
+
+/**
+ * Parse a curly brace reference into path segments
+ * Example: "{colors.primary}" -> ["colors", "primary"]
+ */
+export function parseCurlyBraceReference(reference: string): string[] {
+    // Remove curly braces
+    const path = reference.slice(1, -1)
+    // Split by dots
+    return path.split(".")
+}
+
+/**
+ * Parse a JSON Pointer reference into path segments
+ * The pointer is the URI fragment of the reference, see jsonPointer.ts; an
+ * empty pointer (a reference without fragment) is the whole document.
+ * Example: "#/colors/primary/$value" -> ["colors", "primary", "$value"]
+ * @throws JsonPointerError if the pointer is malformed
+ */
+export function parseJsonPointer(pointer: string): string[] {
+    return pointer === "" ? [] : parseFragmentPointer(pointer)
+}
+
+/**
+ * Optional collaborators for the reference resolution functions
+ */
+export interface ReferenceContext {
+    /**
+     * Loads and caches documents referenced by file, e.g. "./base.json#/a".
+     * Without it only same-document references can be followed.
+     */
+    documents?: DocumentCache
+    /**
+     * Memoizes resolved references and indexes documents for lookups.
+     * resolveReferences creates one per call; without it every reference is
+     * resolved from scratch.
+     */
+    cache?: ResolutionCache
+}
+
+/**
+ * Key used to detect circular references
+ * References are qualified with their document location when it is known so
+ * that cycles spanning several files are detected too.
+ */
+function visitKey(
+    reference: string,
+    root: DesignTokenObject,
+    context: ReferenceContext
+): string {
+    const location = context.documents?.locationOf(root)
+    return location === undefined ? reference : `${location}${reference}`
+}
+
+/**
+ * Resolve a reference once per context, detecting circular references
+ *
+ * The visited set holds the references currently being followed; each key is
+ * removed again once its reference is resolved. Successful results are
+ * memoized in the context's cache.
+ */
+function followReference(
+    key: string,
+    reference: string,
+    file: string | undefined,
+    visitedRefs: Set<string>,
+    context: ReferenceContext,
+    resolve: () => ResolveResult | null
+): ResolveResult | null {
+    const cached = context.cache?.references.get(key)
+    if (cached !== undefined) {
+        return cached
+    }
+
+    if (visitedRefs.has(key)) {
+        throw new DiagnosticError(
+            "circular-reference",
+            `Circular reference detected: ${Array.from(visitedRefs).join(
+                " -> "
+            )} -> ${key}`,
+            { reference, file }
+        )
+    }
+
+    visitedRefs.add(key)
+    try {
+        const result = resolve()
+        context.cache?.references.set(key, result)
+        return result
+    } finally {
+        visitedRefs.delete(key)
+    }
+}
+
+/**
+ * Find the token or value at a path, using the document index when available
+ */
+function findAtPath(
+    root: DesignTokenObject,
+    segments: readonly string[],
+    context: ReferenceContext
+): unknown {
+    return (
+        context.cache?.indexOf(root).getToken(segments) ??
+        navigateToPath(root, segments)
+    )
+}
+
+/**
+ * Get the type inherited from parent groups, using the document index when
+ * available
+ */
+function findInheritedType(
+    root: DesignTokenObject,
+    segments: readonly string[],
+    context: ReferenceContext
+): string | undefined {
+    if (context.cache) {
+        const indexed = context.cache.indexOf(root).getInheritedType(segments)
+        if (indexed !== null) {
+            return indexed
+        }
+    }
+    return resolveInheritedType(root, segments)
+}
+
+/**
+ * Get the $deprecated that applies to a token or group, using the document
+ * index when available
+ */
+function findDeprecation(
+    root: DesignTokenObject,
+    segments: readonly string[],
+    context: ReferenceContext
+): boolean | string | undefined {
+    if (context.cache) {
+        const indexed = context.cache.indexOf(root).getDeprecation(segments)
+        if (indexed !== null) {
+            return indexed
+        }
+    }
+    return resolveDeprecation(root, segments)
+}
+
+/**
+ * Resolve a curly brace reference to its value
+ * Curly brace references always resolve to the $value of the target token
+ */
+export function resolveCurlyBraceReference(
+    root: DesignTokenObject,
+    reference: string,
+    visitedRefs: Set<string> = new Set(),
+    context: ReferenceContext = {}
+): ResolveResult | null {
+    const file = context.documents?.locationOf(root)
+
+    return followReference(
+        visitKey(reference, root, context),
+        reference,
+        file,
+        visitedRefs,
+        context,
+        () => {
+            const segments = parseCurlyBraceReference(reference)
+            const target = findAtPath(root, segments, context)
+
+            if (!isToken(target)) {
+                throw new DiagnosticError(
+                    "unresolved-reference",
+                    `Curly brace reference "${reference}" does not point to a valid token`,
+                    { reference, file }
+                )
+            }
+
+            // If the target is also a reference, resolve it recursively
+            if (isCurlyBraceReference(target.$value)) {
+                return resolveCurlyBraceReference(
+                    root,
+                    target.$value as string,
+                    visitedRefs,
+                    context
+                )
+            }
+
+            if (isJsonPointerReference(target)) {
+                return resolveJsonPointerReference(
+                    root,
+                    target.$ref as string,
+                    visitedRefs,
+                    context
+                )
+            }
+
+            // Get the type - either explicit on token or inherited from parent groups
+            const resolvedType =
+                target.$type ?? findInheritedType(root, segments, context)
+
+            // Return the resolved value and type
+            return {
+                value: target.$value,
+                type: resolvedType,
+            }
+        }
+    )
+}
+
+/**
+ * Find the document a reference points into
+ * Same-document references return the given root; references with a document
+ * part (e.g. "./base.json#/a") are loaded through the context's DocumentCache.
+ */
+function resolveReferenceDocument(
+    root: DesignTokenObject,
+    reference: string,
+    context: ReferenceContext
+): { root: DesignTokenObject; pointer: string } {
+    const { document, pointer } = splitReference(reference)
+
+    if (document === "") {
+        return { root, pointer }
+    }
+
+    const file = context.documents?.locationOf(root)
+
+    if (!context.documents) {
+        throw new DiagnosticError(
+            "unresolved-document",
+            `Reference "${reference}" points to another document, but no document loader is available`,
+            { reference, file }
+        )
+    }
+
+    return { root: context.documents.load(document, file).root, pointer }
+}
+
+/**
+ * Parse a JSON Pointer and evaluate it against a document
+ * Pointer errors are reported against the document the reference is in.
+ * @param reference - The reference as written, for error messages
+ * @param pointer - The fragment of the reference, e.g. "#/colors/blue/$value"
+ * @returns The path segments and the values along the path, root first
+ */
+function locatePointer(
+    root: DesignTokenObject,
+    reference: string,
+    pointer: string,
+    file: string | undefined
+): { segments: string[]; values: unknown[] } {
+    try {
+        const segments = parseJsonPointer(pointer)
+
+        // A $ref token has no $value member, but "#/a/$value" still refers to
+        // it; the caller follows the $ref
+        if (segments[segments.length - 1] === "$value") {
+            const values = walkPointer(root, segments.slice(0, -1), reference)
+            const parent = values[values.length - 1]
+            if (isToken(parent) && isJsonPointerReference(parent)) {
+                return { segments, values: [...values, undefined] }
+            }
+        }
+
+        return { segments, values: walkPointer(root, segments, reference) }
+    } catch (error) {
+        if (error instanceof JsonPointerError) {
+            throw new DiagnosticError(error.code, error.message, {
+                reference,
+                file,
+            })
+        }
+        throw error
+    }
+}
+
+/**
+ * Describe what a pointer that does not lead into a token points to
+ */
+function describeNonTokenTarget(segments: string[], value: unknown): string {
+    if (segments.length === 0) {
+        return "points to the whole document"
+    }
+    if (isGroup(value)) {
+        return `points to the group "${segments.join(".")}"`
+    }
+    const parent =
+        segments.length === 1
+            ? "the document root"
+            : `the group "${segments.slice(0, -1).join(".")}"`
+    return `points to "${segments[segments.length - 1]}" of ${parent}`
+}
+
+/**
+ * Resolve a JSON Pointer reference to its value
+ * JSON Pointer references can point to any location in the document, or into
+ * another document when a DocumentCache is provided
+ */
+export function resolveJsonPointerReference(
+    root: DesignTokenObject,
+    pointer: string,
+    visitedRefs: Set<string> = new Set(),
+    context: ReferenceContext = {}
+): ResolveResult | null {
+    const file = context.documents?.locationOf(root)
+
+    // A $ref points to a value, so it always needs a fragment; without one
+    // "/colors/blue/$value" would be taken for a file path
+    if (!pointer.includes("#")) {
+        throw new DiagnosticError(
+            "invalid-pointer",
+            `Invalid JSON Pointer "${pointer}": a URI fragment must start with "#"`,
+            { reference: pointer, file }
+        )
+    }
+
+    const target = resolveReferenceDocument(root, pointer, context)
+    const targetRoot = target.root
+
+    return followReference(
+        visitKey(
+            targetRoot === root ? pointer : target.pointer,
+            targetRoot,
+            context
+        ),
+        pointer,
+        file,
+        visitedRefs,
+        context,
+        () => {
+            const { segments, values } = locatePointer(
+                targetRoot,
+                pointer,
+                target.pointer,
+                file
+            )
+            const value = values[values.length - 1]
+
+            // Pointers must lead into a token; values[depth] is the token and
+            // segments[depth] the token property the pointer continues with
+            const depth = values.findIndex(isToken)
+            if (depth === -1) {
+                throw new DiagnosticError(
+                    "invalid-reference",
+                    `JSON Pointer reference "${pointer}" ${describeNonTokenTarget(
+                        segments,
+                        value
+                    )}. Use a pointer to a token's $value.`,
+                    { reference: pointer, file }
+                )
+            }
+            const token = values[depth] as Token
+            const property = segments[depth]
+
+            if (property !== undefined && property !== "$value") {
+                throw new DiagnosticError(
+                    "invalid-reference",
+                    `JSON Pointer reference "${pointer}" points to "${property}" of token "${segments
+                        .slice(0, depth)
+                        .join(".")}". Only its $value can be referenced.`,
+                    { reference: pointer, file }
+                )
+            }
+
+            // A pointer to a token, or to the $value of an alias token, follows
+            // the alias; this keeps "#/a/$value" equivalent to "{a}" for chained
+            // references
+            if (depth >= segments.length - 1) {
+                if (isJsonPointerReference(token)) {
+                    return resolveJsonPointerReference(
+                        targetRoot,
+                        token.$ref as string,
+                        visitedRefs,
+                        context
+                    )
+                }
+
+                if (isCurlyBraceReference(token.$value)) {
+                    return resolveCurlyBraceReference(
+                        targetRoot,
+                        token.$value,
+                        visitedRefs,
+                        context
+                    )
+                }
+            }
+
+            if (depth === segments.length) {
+                // JSON Pointer should explicitly point to /$value, not the token object
+                // This is different from curly brace syntax which automatically accesses $value
+                throw new DiagnosticError(
+                    "pointer-to-token",
+                    `JSON Pointer reference "${pointer}" points to a token object. ` +
+                        `Use "${pointer}/$value" to reference the token's value, or use curly brace syntax.`,
+                    { reference: pointer, file }
+                )
+            }
+
+            // For property-level references into a token's value, return the value directly
+            // However, if the pointer ends with /$value, we can get the type from the token
+            // This makes "$ref": "#/colors/blue/$value" equivalent to "{colors.blue}" per the spec
+            let inferredType: string | undefined = undefined
+
+            if (depth === segments.length - 1) {
+                // Get explicit type or walk up to find inherited type
+                inferredType =
+                    token.$type ??
+                    findInheritedType(
+                        targetRoot,
+                        segments.slice(0, depth),
+                        context
+                    )
+            }
+
+            return {
+                value,
+                type: inferredType,
+            }
+        }
+    )
+}
+
+/**
+ * Deep merge two objects for $extends resolution
+ * Local properties override inherited properties at the same path
+ * @param overrides - When provided, records each local token that replaces an
+ * inherited token, mapped to the token it replaces
+ */
+function deepMerge(
+    inherited: DesignTokenObject,
+    local: DesignTokenObject,
+    overrides?: WeakMap<Token, Token>
+): DesignTokenObject {
+    const result: Record<string, unknown> = {}
+
+    // Start with all inherited properties
+    for (const [key, value] of Object.entries(inherited)) {
+        result[key] = value
+    }
+
+    // Override with local properties
+    for (const [key, value] of Object.entries(local)) {
+        if (key === "$extends") {
+            // Don't copy $extends to the result
+            continue
+        }
+
+        if (key.startsWith("$")) {
+            // $ properties completely override
+            result[key] = value
+        } else if (
+            isGroup(value) &&
+            isGroup(result[key] as DesignTokenObject)
+        ) {
+            // Both are groups - merge recursively
+            result[key] = deepMerge(
+                result[key] as DesignTokenObject,
+                value as DesignTokenObject,
+                overrides
+            )
+        } else {
+            // Complete replacement for tokens and other values
+            if (overrides && isToken(value) && isToken(result[key])) {
+                overrides.set(value, result[key] as Token)
+            }
+            result[key] = value
+        }
+    }
+
+    return result
+}
+
+/**
+ * Options for resolveValue
+ */
+export interface ResolveValueOptions extends ReferenceContext {
+    /**
+     * When provided, a reference that fails to resolve is reported here and
+     * left in place, so the remaining sub-values are still resolved
+     */
+    onError?: (error: unknown) => void
+}
+
+/**
+ * Resolve a value that might contain references
+ * Handles nested objects and arrays with references
+ */
+export function resolveValue(
+    root: DesignTokenObject,
+    value: unknown,
+    visitedRefs: Set<string> = new Set(),
+    options: ResolveValueOptions = {}
+): unknown {
+    const { onError } = options
+
+    // Handle curly brace references
+    if (isCurlyBraceReference(value)) {
+        try {
+            const result = resolveCurlyBraceReference(
+                root,
+                value,
+                visitedRefs,
+                options
+            )
+            return result?.value
+        } catch (error) {
+            if (!onError) throw error
+            onError(error)
+            return value
+        }
+    }
+
+    // Handle arrays (for composite types)
+    if (Array.isArray(value)) {
+        return value.map((item) =>
+            resolveValue(root, item, visitedRefs, options)
+        )
+    }
+
+    // Handle objects with $ref property
+    if (hasRefProperty(value)) {
+        try {
+            const result = resolveJsonPointerReference(
+                root,
+                value.$ref,
+                visitedRefs,
+                options
+            )
+            return result?.value
+        } catch (error) {
+            if (!onError) throw error
+            onError(error)
+            return value
+        }
+    }
+
+    // Handle nested objects (for composite types)
+    if (isPlainObject(value)) {
+        const resolved: Record<string, unknown> = {}
+        for (const [key, val] of Object.entries(value)) {
+            resolved[key] = resolveValue(root, val, visitedRefs, options)
+        }
+        return resolved
+    }
+
+    // Return primitive values as-is
+    return value
+}
+
+/**
+ * Options for resolveReferences
+ */
+export interface ResolveReferencesOptions {
+    /**
+     * When provided, every problem is appended to this array as a Diagnostic
+     * instead of being thrown. Tokens that fail to resolve are left as they
+     * were, and groups whose $extends fails are left unmerged.
+     */
+    diagnostics?: Diagnostic[]
+    /**
+     * Location of the document being resolved
+     * Relative file references are resolved against it.
+     */
+    location?: string
+    /**
+     * Loader for documents referenced by file
+     * Defaults to reading JSON files from the filesystem.
+     */
+    loader?: DocumentLoader
+    /**
+     * Cache of loaded documents, to share loaded files across several calls
+     * Takes precedence over loader.
+     */
+    documents?: DocumentCache
+    /**
+     * Keep aliases in the output: "$value": "{colors.blue}" and $ref are left
+     * as written instead of being replaced by the referenced value. Groups
+     * are still merged with the groups they $extends.
+     * Use resolvedTokens to get the resolved values alongside.
+     */
+    preserveAliases?: boolean
+    /**
+     * When provided, filled with the resolved $value and $type of every token,
+     * keyed by dot-separated token path. The type is the token's own $type,
+     * the type of the token it references, or the type of its closest group.
+     */
+    resolvedTokens?: Map<string, ResolveResult>
+    /**
+     * When provided, filled with the provenance of every token, keyed by
+     * dot-separated token path: where its definition is written, the tokens it
+     * was inherited through via $extends and whether it overrides an
+     * inherited token.
+     */
+    provenance?: Map<string, TokenProvenance>
+}
+
+/**
+ * Provenance collected during one resolveReferences call
+ */
+interface ProvenanceState {
+    /** Provenance of the entry document's tokens, returned to the caller */
+    byPath: Map<string, TokenProvenance>
+    /** Provenance of every resolved token object, including other documents' */
+    byToken: WeakMap<Token, TokenProvenance>
+    /** Local tokens that replaced an inherited token while merging $extends */
+    overrides: WeakMap<Token, Token>
+}
+
+/**
+ * State shared across one resolveReferences call
+ */
+interface ResolverState {
+    /** Root of the document passed to resolveReferences */
+    entry: DesignTokenObject
+    documents: DocumentCache
+    collector?: DiagnosticCollector
+    preserveAliases: boolean
+    resolvedTokens?: Map<string, ResolveResult>
+    provenance?: ProvenanceState
+    cache: ResolutionCache
+    /**
+     * Tokens returned by resolveToken, with what they resolved to (undefined
+     * if they failed to resolve)
+     * Tokens inherited through $extends are resolved in the document they
+     * come from; the extending group takes them as they are.
+     */
+    resolved: WeakMap<Token, ResolveResult | undefined>
+    /** Number of $extends that failed to resolve in collect mode */
+    extendsFailures: number
+}
+
+/**
+ * Resolve all references in a design token object
+ *
+ * This function walks through a design token object and resolves all references,
+ * replacing them with their actual values. This makes the tokens ready for
+ * type inheritance and validation.
+ *
+ * @param obj - The design token object to process (the document root)
+ * @param options - Resolution options, see ResolveReferencesOptions
+ * @returns A new object with all references resolved
+ *
+ * @example
+ * ```typescript
+ * const input = {
+ *   colors: {
+ *     blue: {
+ *       $type: 'color',
+ *       $value: { colorSpace: 'srgb', components: [0, 0.4, 0.8] }
+ *     }
+ *   },
+ *   semantic: {
+ *     primary: {
+ *       $value: '{colors.blue}'
+ *     }
+ *   }
+ * };
+ *
+ * const output = resolveReferences(input);
+ * // output.semantic.primary.$value now contains the actual color object
+ * // output.semantic.primary.$type is 'color' (copied from referenced token)
+ *
+ * const diagnostics: Diagnostic[] = [];
+ * const partial = resolveReferences(input, { diagnostics });
+ * // diagnostics lists every broken reference; partial is still usable
+ *
+ * const resolvedTokens = new Map<string, ResolveResult>();
+ * const aliased = resolveReferences(input, { preserveAliases: true, resolvedTokens });
+ * // aliased.semantic.primary.$value is still '{colors.blue}'
+ * // resolvedTokens.get('semantic.primary') is { value: { colorSpace: ... }, type: 'color' }
+ * ```
+ */
+export function resolveReferences(
+    obj: DesignTokenObject,
+    options: ResolveReferencesOptions = {}
+): DesignTokenObject {
+    const documents = options.documents ?? new DocumentCache(options.loader)
+
+    if (options.location !== undefined && obj && typeof obj === "object") {
+        documents.register(options.location, obj)
+    }
+
+    const state: ResolverState = {
+        entry: obj,
+        documents,
+        collector: options.diagnostics
+            ? new DiagnosticCollector(options.diagnostics, options.location)
+            : undefined,
+        preserveAliases: options.preserveAliases ?? false,
+        resolvedTokens: options.resolvedTokens,
+        provenance: options.provenance && {
+            byPath: options.provenance,
+            byToken: new WeakMap(),
+            overrides: new WeakMap(),
+        },
+        cache: new ResolutionCache(),
+        resolved: new WeakMap(),
+        extendsFailures: 0,
+    }
+
+    return resolveGroup(obj, obj, state, new Set(), "")
+}
+
+/**
+ * Resolve the target of a group's $extends, including its own $extends chain
+ * The target may live in another document, e.g. "./base.json#/button".
+ */
+function resolveExtendsTarget(
+    extendsRef: unknown,
+    root: DesignTokenObject,
+    state: ResolverState,
+    visitedExtends: Set<string>,
+    currentPath: string
+): DesignTokenObject {
+    const { documents } = state
+    const file = documents.locationOf(root)
+
+    // Detect circular reference
+    const key = visitKey(currentPath, root, state)
+    if (visitedExtends.has(key)) {
+        throw new DiagnosticError(
+            "circular-extends",
+            `Circular $extends reference detected at path: ${currentPath}`,
+            { reference: String(extendsRef), file }
+        )
+    }
+
+    // Mark current path as visited
+    const newVisited = new Set(visitedExtends)
+    newVisited.add(key)
+
+    // Parse the reference
+    let reference: string
+    if (typeof extendsRef === "string") {
+        reference = extendsRef
+    } else if (hasRefProperty(extendsRef)) {
+        reference = extendsRef.$ref
+    } else {
+        throw new DiagnosticError(
+            "invalid-extends",
+            `Invalid $extends reference: ${extendsRef}`,
+            { file }
+        )
+    }
+
+    let targetRoot = root
+    let targetPath: string[]
+    if (reference.startsWith("{") && reference.endsWith("}")) {
+        targetPath = parseCurlyBraceReference(reference)
+    } else {
+        // JSON Pointer, optionally into another document
+        const target = resolveReferenceDocument(root, reference, state)
+        targetRoot = target.root
+        targetPath = parseJsonPointer(target.pointer)
+    }
+
+    // A target that was resolved completely before is reused, which keeps
+    // long $extends chains linear
+    const targetKey = visitKey(targetPath.join("."), targetRoot, state)
+    const cached = state.cache.groups.get(targetKey)
+    if (cached) {
+        return cached
+    }
+
+    // Find the target group
+    const targetGroup = navigateToPath(targetRoot, targetPath)
+
+    if (!targetGroup) {
+        throw new DiagnosticError(
+            "unresolved-extends",
+            `$extends reference "${reference}" could not be resolved at path: ${currentPath}`,
+            { reference, file }
+        )
+    }
+
+    if (!isGroup(targetGroup)) {
+        throw new DiagnosticError(
+            "extends-not-group",
+            `$extends reference "${reference}" points to a token, not a group at path: ${currentPath}`,
+            { reference, file }
+        )
+    }
+
+    // Resolve $extends in the target group first (for chained extends)
+    const failures = state.extendsFailures
+    const resolved = resolveGroup(
+        targetGroup,
+        targetRoot,
+        state,
+        newVisited,
+        targetPath.join("."),
+        findInheritedType(targetRoot, targetPath, state)
+    )
+
+    // Results with failed $extends depend on the chain they were reached
+    // through (circular references), so only complete results are cached
+    if (state.extendsFailures === failures) {
+        state.cache.groups.set(targetKey, resolved)
+    }
+
+    return resolved
+}
+
+/**
+ * Resolve the references of a single token
+ * Returns a new token; the input is not modified
+ */
+function resolveToken(
+    value: Token,
+    key: string,
+    tokenPath: string,
+    root: DesignTokenObject,
+    state: ResolverState,
+    groupType: string | undefined
+): Token {
+    const token: Token = { ...value }
+    const { collector } = state
+
+    try {
+        // Validate that token doesn't have both $ref and $value
+        if (isJsonPointerReference(token) && token.$value !== undefined) {
+            throw new DiagnosticError(
+                "conflicting-ref-and-value",
+                `Token "${key}" has both $ref and $value properties. These are mutually exclusive.`,
+                {
+                    reference: token.$ref,
+                    file: state.documents.locationOf(root),
+                }
+            )
+        }
+
+        // Handle $ref property (JSON Pointer reference)
+        if (isJsonPointerReference(token)) {
+            const result = resolveJsonPointerReference(
+                root,
+                token.$ref as string,
+                new Set(),
+                state
+            )
+
+            if (result) {
+                token.$value = result.value
+                // Copy type from referenced token if not already set
+                if (!token.$type && result.type) {
+                    token.$type = result.type
+                }
+            }
+
+            // Remove $ref after resolving
+            delete token.$ref
+        }
+        // Handle curly brace reference in $value
+        else if (isCurlyBraceReference(token.$value)) {
+            const result = resolveCurlyBraceReference(
+                root,
+                token.$value as string,
+                new Set(),
+                state
+            )
+
+            if (result) {
+                token.$value = result.value
+                // Copy type from referenced token if not already set
+                if (!token.$type && result.type) {
+                    token.$type = result.type
+                }
+            }
+        }
+        // Handle nested references in composite values
+        else if (token.$value !== null && typeof token.$value === "object") {
+            token.$value = resolveValue(root, token.$value, new Set(), {
+                documents: state.documents,
+                cache: state.cache,
+                onError:
+                    collector &&
+                    ((error) => collector.addError(tokenPath, error)),
+            })
+        }
+    } catch (error) {
+        if (collector) {
+            collector.addError(tokenPath, error)
+            const unresolved = { ...value }
+            state.resolved.set(unresolved, undefined)
+            return unresolved
+        }
+        if (error instanceof DiagnosticError) {
+            throw new DiagnosticError(
+                error.code,
+                `Error resolving references in token "${key}": ${error.message}`,
+                { reference: error.reference, file: error.file }
+            )
+        }
+        if (error instanceof Error) {
+            throw new DiagnosticError(
+                "invalid-reference",
+                `Error resolving references in token "${key}": ${error.message}`
+            )
+        }
+        throw error
+    }
+
+    warnDeprecatedReferences(value, tokenPath, root, state)
+
+    const result: ResolveResult = {
+        value: token.$value,
+        type: token.$type ?? groupType,
+    }
+    // Tokens resolved as part of another document's $extends target are not
+    // part of this document's paths
+    if (state.resolvedTokens && root === state.entry) {
+        state.resolvedTokens.set(tokenPath, result)
+    }
+
+    const resolved = state.preserveAliases ? { ...value } : token
+    state.resolved.set(resolved, result)
+    return resolved
+}
+
+/**
+ * Find the token or group a reference points to if it is deprecated
+ * Only the direct target counts: a reference to an alias of a deprecated
+ * token is not a reference to a deprecated token.
+ * @returns The target's path and $deprecated value, or undefined if the
+ * target is not deprecated or cannot be found
+ */
+function findDeprecatedTarget(
+    root: DesignTokenObject,
+    reference: string,
+    context: ReferenceContext
+): { path: string; deprecated: true | string } | undefined {
+    let targetRoot = root
+    let segments: string[]
+    try {
+        if (isCurlyBraceReference(reference)) {
+            segments = parseCurlyBraceReference(reference)
+        } else {
+            const target = resolveReferenceDocument(root, reference, context)
+            targetRoot = target.root
+            segments = parseJsonPointer(target.pointer)
+            // A pointer into a value targets the token the value belongs to
+            const valueIndex = segments.indexOf("$value")
+            if (valueIndex !== -1) {
+                segments = segments.slice(0, valueIndex)
+            }
+        }
+    } catch {
+        // Broken references are reported when they are resolved
+        return undefined
+    }
+
+    const deprecated = findDeprecation(targetRoot, segments, context)
+    if (deprecated === undefined || deprecated === false) {
+        return undefined
+    }
+    return { path: segments.join("."), deprecated }
+}
+
+/**
+ * Warn if a reference points to a deprecated token or group
+ * @param path - Path of the token or group the reference is written in
+ * @param description - What the reference does, e.g. "references deprecated token"
+ * @param location - Where in the token's value the reference is, if nested
+ */
+function warnIfDeprecated(
+    reference: string,
+    root: DesignTokenObject,
+    state: ResolverState,
+    path: string,
+    description: string,
+    location: readonly string[] = []
+): void {
+    const { collector } = state
+    const target = collector && findDeprecatedTarget(root, reference, state)
+    if (!target) {
+        return
+    }
+
+    const at = location.length > 0 ? ` at $value.${location.join(".")}` : ""
+    const reason =
+        typeof target.deprecated === "string" ? `: ${target.deprecated}` : ""
+    const file = state.documents.locationOf(root)
+    collector.add({
+        path,
+        code: "deprecated-reference",
+        severity: "warning",
+        message: `${description} "${target.path}"${at}${reason}`,
+        reference,
+        target: target.path,
+        ...(file !== undefined && { file }),
+    })
+}
+
+/**
+ * Warn about every reference in a token that points to a deprecated token:
+ * its $ref, its alias or the references inside its composite value
+ */
+function warnDeprecatedReferences(
+    token: Token,
+    tokenPath: string,
+    root: DesignTokenObject,
+    state: ResolverState
+): void {
+    const visit = (value: unknown, location: string[]): void => {
+        if (isCurlyBraceReference(value) || hasRefProperty(value)) {
+            warnIfDeprecated(
+                typeof value === "string" ? value : value.$ref,
+                root,
+                state,
+                tokenPath,
+                "references deprecated token",
+                location
+            )
+        } else if (Array.isArray(value)) {
+            value.forEach((item, i) => visit(item, [...location, String(i)]))
+        } else if (isPlainObject(value)) {
+            for (const [key, item] of Object.entries(value)) {
+                visit(item, [...location, key])
+            }
+        }
+    }
+
+    if (state.collector) {
+        visit(
+            isJsonPointerReference(token)
+                ? { $ref: token.$ref }
+                : token.$value,
+            []
+        )
+    }
+}
+
+/**
+ * Record where a resolved token's definition came from
+ * Tokens inherited through $extends are the resolved tokens of the extended
+ * group, so their provenance is found by object and extended by one hop.
+ * @param source - The token as found in the (merged) group
+ * @param resolved - The token returned by resolveToken
+ */
+function recordProvenance(
+    source: Token,
+    resolved: Token,
+    tokenPath: string,
+    root: DesignTokenObject,
+    state: ResolverState
+): void {
+    const { provenance } = state
+    if (!provenance) {
+        return
+    }
+
+    const inherited = provenance.byToken.get(source)
+    let result: TokenProvenance
+    if (inherited) {
+        result = { ...inherited, chain: [tokenPath, ...inherited.chain] }
+    } else {
+        const replaced = provenance.overrides.get(source)
+        const replacedOrigin = replaced && provenance.byToken.get(replaced)
+        const file =
+            root === state.entry ? undefined : state.documents.locationOf(root)
+        result = {
+            origin: tokenPath,
+            ...(file !== undefined && { file }),
+            chain: [tokenPath],
+            overridden: replaced !== undefined,
+            ...(replacedOrigin && { overrides: replacedOrigin.origin }),
+        }
+    }
+
+    provenance.byToken.set(resolved, result)
+    if (root === state.entry) {
+        provenance.byPath.set(tokenPath, result)
+    }
+}
+
+/**
+ * Resolve all references in a group, recursing into nested groups
+ * @param obj - The group to resolve
+ * @param root - Root of the document the group belongs to
+ * @param inheritedType - The $type inherited from parent groups
+ */
+function resolveGroup(
+    obj: DesignTokenObject,
+    root: DesignTokenObject,
+    state: ResolverState,
+    visitedExtends: Set<string>,
+    currentPath: string,
+    inheritedType?: string
+): DesignTokenObject {
+    if (!obj || typeof obj !== "object") {
+        return obj
+    }
+
+    // Check if this group has $extends
+    const extendsRef = (obj as Group).$extends
+    let workingObj = obj
+
+    if (extendsRef) {
+        try {
+            const resolvedTarget = resolveExtendsTarget(
+                extendsRef,
+                root,
+                state,
+                visitedExtends,
+                currentPath
+            )
+
+            // Deep merge: inherited properties + local overrides
+            workingObj = deepMerge(
+                resolvedTarget,
+                obj,
+                state.provenance?.overrides
+            )
+
+            warnIfDeprecated(
+                hasRefProperty(extendsRef) ? extendsRef.$ref : extendsRef,
+                root,
+                state,
+                currentPath,
+                "extends deprecated group"
+            )
+        } catch (error) {
+            if (!state.collector) throw error
+            // Leave the group unmerged and keep going
+            state.extendsFailures++
+            state.collector.addError(currentPath, error)
+        }
+    }
+
+    // Create a new object to avoid mutations
+    const processed: Record<string, unknown> = {}
+    const groupType = (workingObj as Group).$type ?? inheritedType
+
+    // Process each property
+    for (const [key, value] of Object.entries(workingObj)) {
+        const nestedPath = currentPath ? `${currentPath}.${key}` : key
+
+        if (
+            key.startsWith("$") &&
+            key !== "$value" &&
+            key !== "$ref" &&
+            key !== "$extends"
+        ) {
+            // Copy all $ properties as-is (except $value, $ref, and $extends which we handle specially)
+            processed[key] = value
+        } else if (isToken(value) && state.resolved.has(value)) {
+            // Inherited through $extends, already resolved where it is written
+            const result = state.resolved.get(value)
+            if (result && state.resolvedTokens && root === state.entry) {
+                state.resolvedTokens.set(nestedPath, result)
+            }
+            const token = { ...value }
+            state.resolved.set(token, result)
+            recordProvenance(value, token, nestedPath, root, state)
+            processed[key] = token
+        } else if (isToken(value)) {
+            // This is a token - resolve its references
+            const token = resolveToken(
+                value,
+                key,
+                nestedPath,
+                root,
+                state,
+                groupType
+            )
+            recordProvenance(value, token, nestedPath, root, state)
+            processed[key] = token
+        } else if (isGroup(value)) {
+            // This is a group - process recursively
+            processed[key] = resolveGroup(
+                value,
+                root,
+                state,
+                new Set(), // Reset visited extends for nested groups
+                nestedPath,
+                groupType
+            )
+        } else {
+            // Other values (primitives, etc.) - copy as-is
+            processed[key] = value
+        }
+    }
+
+    return processed
+}
+
+/**
+ * Default export
+ */
+export default {
+    resolveReferences,
+    resolveCurlyBraceReference,
+    resolveJsonPointerReference,
+    resolveValue,
+    isCurlyBraceReference,
+    isJsonPointerReference,
+    isToken,
+    isGroup,
+    parseCurlyBraceReference,
+    parseJsonPointer,
+    navigateToPath,
+}
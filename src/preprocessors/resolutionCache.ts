@@ -0,0 +1,147 @@
+/**
+ * Design Token Resolution Cache
+ *
+ * Reference resolution looks up the same tokens and group types many times:
+ * every alias hop, every composite sub-value and every $extends target. This
+ * module provides:
+ * - TokenIndex: the tokens and effective group types and deprecations of
+ *   one document,
+ *   collected in a single walk so lookups do not navigate from the root
+ * - ResolutionCache: per-resolution memo of resolved references and groups,
+ *   plus one TokenIndex per document, built on first use
+ *
+ * Together they keep resolveReferences roughly linear in document size.
+ */
+
+import type { DesignTokenObject, ResolveResult, Token } from "./types.js"
+import { isDeprecationValue, isGroup, isToken } from "./utils.js"
+
+/**
+ * Key for a list of path segments
+ * Uses a separator that cannot appear in token names or JSON Pointer segments
+ * produced from JSON keys in practice.
+ */
+function pathKey(segments: readonly string[]): string {
+    return segments.join("\u0000")
+}
+
+/**
+ * Index of the tokens, group types and group deprecations of a single
+ * document
+ */
+export class TokenIndex {
+    private readonly tokens = new Map<string, Token>()
+    private readonly groupTypes = new Map<string, string | undefined>()
+    private readonly groupDeprecations = new Map<
+        string,
+        boolean | string | undefined
+    >()
+
+    constructor(root: DesignTokenObject) {
+        this.indexGroup(root, [], undefined, undefined)
+    }
+
+    private indexGroup(
+        group: DesignTokenObject,
+        segments: string[],
+        inheritedType: string | undefined,
+        inheritedDeprecation: boolean | string | undefined
+    ): void {
+        const { $type: ownType, $deprecated: ownDeprecation } =
+            group as Record<string, unknown>
+        const groupType = typeof ownType === "string" ? ownType : inheritedType
+        const groupDeprecation = isDeprecationValue(ownDeprecation)
+            ? ownDeprecation
+            : inheritedDeprecation
+        this.groupTypes.set(pathKey(segments), groupType)
+        this.groupDeprecations.set(pathKey(segments), groupDeprecation)
+
+        for (const [key, value] of Object.entries(group)) {
+            if (key.startsWith("$")) {
+                continue
+            }
+
+            const childSegments = [...segments, key]
+            if (isToken(value)) {
+                this.tokens.set(pathKey(childSegments), value)
+            } else if (isGroup(value)) {
+                this.indexGroup(
+                    value,
+                    childSegments,
+                    groupType,
+                    groupDeprecation
+                )
+            }
+        }
+    }
+
+    /**
+     * Get the token at a path, or undefined if the path is not an indexed token
+     */
+    getToken(segments: readonly string[]): Token | undefined {
+        return this.tokens.get(pathKey(segments))
+    }
+
+    /**
+     * Get the type a node at the given path inherits from its ancestor groups
+     * @returns The inherited type (possibly undefined), or null if the parent
+     * path is not an indexed group
+     */
+    getInheritedType(segments: readonly string[]): string | undefined | null {
+        const parentKey = pathKey(segments.slice(0, -1))
+        if (segments.length === 0 || !this.groupTypes.has(parentKey)) {
+            return null
+        }
+        return this.groupTypes.get(parentKey)
+    }
+
+    /**
+     * Get the $deprecated that applies to the token or group at a path: its
+     * own, or the closest one of its ancestor groups
+     * @returns The $deprecated value (possibly undefined), or null if the path
+     * is not an indexed token or group
+     */
+    getDeprecation(
+        segments: readonly string[]
+    ): boolean | string | undefined | null {
+        const key = pathKey(segments)
+        if (this.groupDeprecations.has(key)) {
+            return this.groupDeprecations.get(key)
+        }
+
+        const token = this.tokens.get(key)
+        if (!token) {
+            return null
+        }
+        return isDeprecationValue(token.$deprecated)
+            ? token.$deprecated
+            : this.groupDeprecations.get(pathKey(segments.slice(0, -1)))
+    }
+}
+
+/**
+ * Memo shared by one resolveReferences call
+ *
+ * Entries are only stored once they resolved successfully, so circular
+ * reference detection is unaffected: a reference that is still being
+ * resolved is never found in the cache.
+ */
+export class ResolutionCache {
+    /** Resolved references, keyed by document-qualified reference */
+    readonly references = new Map<string, ResolveResult | null>()
+    /** Resolved groups, keyed by document-qualified path */
+    readonly groups = new Map<string, DesignTokenObject>()
+    private readonly indexes = new WeakMap<object, TokenIndex>()
+
+    /**
+     * Get the index of a document, building it on first use
+     */
+    indexOf(root: DesignTokenObject): TokenIndex {
+        let index = this.indexes.get(root)
+        if (!index) {
+            index = new TokenIndex(root)
+            this.indexes.set(root, index)
+        }
+        return index
+    }
+}
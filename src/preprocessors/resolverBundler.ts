@@ -0,0 +1,252 @@
+/**
+ * Resolver Bundler
+ *
+ * Converts between the two ways a resolver document can hold its tokens:
+ * - bundleResolver inlines every token file the sources reference, giving a
+ *   self-contained document for distribution
+ * - unbundleResolver moves every inline source into a token file of its own
+ *   and references it, e.g. sets/base.json or modifiers/theme/dark.json
+ *
+ * Only the source lists change: the order of sources, references to sets and
+ * to $defs, and everything else in the document stay as they are, so both
+ * forms resolve to the same tokens for every input. References in the moved
+ * tokens are rebased to where the tokens are written:
+ * - file references of inline tokens are relative to the resolver document,
+ *   those of a token file to the file
+ * - a JSON Pointer reference without a file points into the merged tokens
+ *   in an inline source, but into the file itself in a token file: inlined
+ *   tokens reference their file by name, and inline sources with such
+ *   references are not moved
+ */
+
+import { dirname, posix, relative, sep } from "node:path"
+import { splitReference } from "./documentLoader.js"
+import {
+    createFileSources,
+    loadFileSource,
+    mapReferences,
+    type SourceOptions,
+} from "./resolverEngine.js"
+import { formatFragmentPointer } from "./jsonPointer.js"
+import type {
+    DesignTokenObject,
+    ResolverDocument,
+    TokenSource,
+} from "./types.js"
+import { hasRefProperty } from "./types.js"
+
+/**
+ * A resolver document split into token files
+ */
+export interface UnbundledResolver {
+    /** The resolver document, referencing the token files */
+    resolver: ResolverDocument
+    /**
+     * The token files, keyed by their location relative to the resolver
+     * document
+     */
+    files: Record<string, DesignTokenObject>
+}
+
+/**
+ * Replace a list of token sources
+ * @param names - Names of the set or modifier and context owning the list,
+ * e.g. ["modifiers", "theme", "dark"]
+ * @param path - Path segments of the list in the resolver document
+ */
+type SourceListMapper = (
+    list: TokenSource[],
+    names: string[],
+    path: string[]
+) => TokenSource[]
+
+/**
+ * Copy a resolver document, replacing each of its source lists
+ * Lists are visited in document order: sets, modifiers, then inline
+ * resolutionOrder items.
+ */
+function mapSourceLists(
+    resolver: ResolverDocument,
+    map: SourceListMapper
+): ResolverDocument {
+    const result = structuredClone(resolver)
+
+    for (const [name, set] of Object.entries(result.sets ?? {})) {
+        set.sources = map(
+            set.sources,
+            ["sets", name],
+            ["sets", name, "sources"]
+        )
+    }
+
+    for (const [name, modifier] of Object.entries(result.modifiers ?? {})) {
+        for (const [context, list] of Object.entries(modifier.contexts)) {
+            modifier.contexts[context] = map(
+                list,
+                ["modifiers", name, context],
+                ["modifiers", name, "contexts", context]
+            )
+        }
+    }
+
+    result.resolutionOrder.forEach((item, i) => {
+        if (hasRefProperty(item)) {
+            return
+        }
+        const path = ["resolutionOrder", String(i)]
+        if (item.type === "set") {
+            item.sources = map(
+                item.sources,
+                ["resolutionOrder", item.name],
+                [...path, "sources"]
+            )
+        } else if (item.type === "modifier") {
+            for (const [context, list] of Object.entries(item.contexts)) {
+                item.contexts[context] = map(
+                    list,
+                    ["resolutionOrder", item.name, context],
+                    [...path, "contexts", context]
+                )
+            }
+        }
+    })
+
+    return result
+}
+
+/**
+ * Inline every token file referenced by the sources of a resolver document
+ *
+ * @param resolver - The resolver document
+ * @param options - Loading of the token files, see SourceOptions; pass the
+ * resolver document's location so relative references can be followed
+ * @returns A copy of the resolver document without file references
+ * @throws DiagnosticError if a token file cannot be used, see loadFileSource
+ *
+ * @example
+ * ```typescript
+ * // sets.base.sources: [{ $ref: 'tokens/base.json#/colors' }]
+ * const bundled = bundleResolver(resolver, { location: 'design/resolver.json' });
+ * // bundled.sets.base.sources: [{ ...the colors group of design/tokens/base.json }]
+ * ```
+ */
+export function bundleResolver(
+    resolver: ResolverDocument,
+    options: SourceOptions = {}
+): ResolverDocument {
+    const files = createFileSources(options)
+    const directory =
+        options.location === undefined ? "." : dirname(options.location)
+
+    return mapSourceLists(resolver, (list, _names, path) =>
+        list.map((source, i) => {
+            if (!hasRefProperty(source) || source.$ref.startsWith("#")) {
+                return source
+            }
+            const { tokens, file } = loadFileSource(
+                files,
+                source.$ref,
+                formatFragmentPointer([...path, String(i)])
+            )
+            return mapReferences(tokens, (reference) => {
+                const { document, pointer } = splitReference(reference)
+                const location =
+                    document === ""
+                        ? file
+                        : files.documents.loader.resolveLocation(
+                              document,
+                              file
+                          )
+                return `${relative(directory, location).split(sep).join("/")}${pointer}`
+            }) as DesignTokenObject
+        })
+    )
+}
+
+/**
+ * Make a name usable as a file name, and a single path segment
+ * Characters other than letters, digits, "_", "." and "-" are replaced, and
+ * names made only of dots, like "..", or empty get a leading "_".
+ */
+function toFileName(name: string): string {
+    const fileName = name.replace(/[^\w.-]/g, "_")
+    return /^\.*$/.test(fileName) ? `_${fileName}` : fileName
+}
+
+/**
+ * Check whether tokens hold JSON Pointer references without a file
+ */
+function hasPointerReferences(tokens: DesignTokenObject): boolean {
+    let found = false
+    mapReferences(tokens, (reference) => {
+        if (reference.startsWith("#")) {
+            found = true
+        }
+        return reference
+    })
+    return found
+}
+
+/**
+ * Move every inline source of a resolver document into a token file
+ *
+ * Each inline source becomes one file, named after the set or modifier
+ * context it belongs to. Lists with several inline sources get one file per
+ * source, suffixed with the source's index. Sources with JSON Pointer
+ * references into the merged tokens stay inline, as a token file cannot
+ * reference them.
+ *
+ * @param resolver - The resolver document
+ * @returns The resolver document referencing the files, and the files
+ *
+ * @example
+ * ```typescript
+ * const { resolver: split, files } = unbundleResolver(resolver);
+ * // split.modifiers.theme.contexts.dark: [{ $ref: 'modifiers/theme/dark.json' }]
+ * // files['modifiers/theme/dark.json']: the tokens of the dark context
+ * ```
+ */
+export function unbundleResolver(
+    resolver: ResolverDocument
+): UnbundledResolver {
+    const files: Record<string, DesignTokenObject> = {}
+
+    const addFile = (base: string, tokens: DesignTokenObject): string => {
+        let location = `${base}.json`
+        for (let n = 1; location in files; n++) {
+            location = `${base}-${n}.json`
+        }
+        files[location] = mapReferences(tokens, (reference) => {
+            const { document, pointer } = splitReference(reference)
+            return posix.isAbsolute(document)
+                ? reference
+                : `${posix.relative(posix.dirname(location), posix.normalize(document))}${pointer}`
+        }) as DesignTokenObject
+        return location
+    }
+
+    const unbundled = mapSourceLists(resolver, (list, names) => {
+        const inlineCount = list.filter(
+            (source) => !hasRefProperty(source)
+        ).length
+        const base = names.map(toFileName).join("/")
+
+        return list.map((source, i) => {
+            if (hasRefProperty(source) || hasPointerReferences(source)) {
+                return source
+            }
+            const location = addFile(
+                inlineCount > 1 ? `${base}-${i}` : base,
+                source
+            )
+            return { $ref: location }
+        })
+    })
+
+    return { resolver: unbundled, files }
+}
+
+export default {
+    bundleResolver,
+    unbundleResolver,
+}
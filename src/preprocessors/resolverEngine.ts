@@ -0,0 +1,603 @@
+/**
+ * Resolver Engine
+ *
+ * Executes a resolver document: produces the resolved token tree for one set
+ * of modifier inputs, e.g. resolve(resolver, { theme: "dark" }).
+ *
+ * Following the resolver specification:
+ * 1. resolutionOrder is walked in order; each item is a reference to a set or
+ *    modifier, or an inline set or modifier
+ * 2. A set contributes its sources; a modifier contributes the sources of the
+ *    context given as input for its name, or of its default context
+ * 3. Sources are inline tokens, references to sets (expanded recursively),
+ *    references to other token objects in the resolver document (e.g. in
+ *    $defs) or references to token files, optionally with a fragment
+ *    ("tokens/base.json#/colors")
+ * 4. Sources are merged in order: groups are merged, and a token declared
+ *    more than once takes its last declaration
+ * 5. References and type inheritance are resolved on the merged tree, so
+ *    tokens can alias tokens from any other source; references to other
+ *    files are followed from the file they are written in
+ *
+ * Token files are loaded relative to the resolver document's location through
+ * a DocumentLoader, each file once. Files can be confined to a root directory
+ * and validated as they are loaded.
+ */
+
+import { DiagnosticError } from "./diagnostics.js"
+import {
+    DocumentCache,
+    isInsideDirectory,
+    splitReference,
+    type DocumentLoader,
+} from "./documentLoader.js"
+import {
+    evaluatePointer,
+    formatFragmentPointer,
+    parseFragmentPointer,
+} from "./jsonPointer.js"
+import {
+    isCurlyBraceReference,
+    resolveReferences,
+} from "./referenceResolver.js"
+import { validateResolverInputs } from "./resolverValidator.js"
+import { processTypeInheritance } from "./typeInheritance.js"
+import type {
+    DesignTokenObject,
+    Diagnostic,
+    ResolverDocument,
+    ResolverInputs,
+    ResolverModifier,
+    SourceOrigin,
+    SourceProvenance,
+    TokenSource,
+} from "./types.js"
+import { hasRefProperty } from "./types.js"
+import { isPlainObject, isToken, walkTokens } from "./utils.js"
+
+/**
+ * A token source selected for a set of inputs
+ */
+export interface ResolvedSource extends SourceOrigin {
+    tokens: DesignTokenObject
+}
+
+/**
+ * Options for loading the token files sources reference
+ */
+export interface SourceOptions {
+    /**
+     * Location of the resolver document
+     * Relative file references are resolved against it.
+     */
+    location?: string
+    /**
+     * Loader for token files
+     * Defaults to reading JSON files from the filesystem.
+     */
+    loader?: DocumentLoader
+    /**
+     * Cache of loaded documents; takes precedence over loader
+     * Its own rootDir confines the files token files reference.
+     */
+    documents?: DocumentCache
+    /**
+     * Directory token files, and the files they reference, must be inside;
+     * references to files outside it are refused
+     */
+    rootDir?: string
+    /**
+     * Check a token file when it is loaded
+     * @returns The problems found, empty if the file is valid
+     */
+    validateFile?: (tokens: DesignTokenObject, location: string) => string[]
+}
+
+/**
+ * Options for resolve
+ */
+export interface ResolveOptions extends SourceOptions {
+    /**
+     * When provided, problems in the merged tokens are reported here instead
+     * of being thrown, see resolveReferences and processTypeInheritance
+     */
+    diagnostics?: Diagnostic[]
+    /**
+     * When provided, filled with the sources of every merged token, keyed by
+     * dot path, see traceSources
+     * Tokens that $extends copies into a group have no entry.
+     */
+    provenance?: Map<string, SourceProvenance>
+}
+
+/**
+ * The resolutionOrder item a source is included through
+ */
+type Inclusion = Pick<ResolvedSource, "name" | "context">
+
+/**
+ * The token files loaded for a resolver document
+ */
+export interface FileSources {
+    documents: DocumentCache
+    options: SourceOptions
+    /** Locations of the token files validated so far */
+    validated: Set<string>
+}
+
+/**
+ * State shared while collecting the sources for one set of inputs
+ */
+interface ExpansionState {
+    resolver: ResolverDocument
+    inputs: ResolverInputs
+    files: FileSources
+    sources: ResolvedSource[]
+}
+
+/**
+ * Prepare loading the token files of a resolver document
+ */
+export function createFileSources(options: SourceOptions = {}): FileSources {
+    return {
+        documents:
+            options.documents ??
+            new DocumentCache(options.loader, options.rootDir),
+        options,
+        validated: new Set(),
+    }
+}
+
+/**
+ * Load the tokens a file reference points to
+ * @param pointer - JSON Pointer to the source in the resolver document, for
+ * messages
+ * @returns The tokens with the location of the file and the fragment
+ * @throws DiagnosticError if the file is outside the root directory, cannot
+ * be loaded or is not a valid token file
+ */
+export function loadFileSource(
+    files: FileSources,
+    reference: string,
+    pointer: string
+): { tokens: DesignTokenObject; file: string; pointer: string } {
+    const { documents, options } = files
+    const split = splitReference(reference)
+    const location = documents.loader.resolveLocation(
+        split.document,
+        options.location
+    )
+
+    if (
+        options.rootDir !== undefined &&
+        !isInsideDirectory(location, options.rootDir)
+    ) {
+        throw new DiagnosticError(
+            "outside-root",
+            `Source ${pointer} references "${reference}", which is outside the root directory "${options.rootDir}"`,
+            { reference, file: options.location }
+        )
+    }
+
+    const { root } = documents.load(split.document, options.location)
+
+    if (options.validateFile && !files.validated.has(location)) {
+        files.validated.add(location)
+        const problems = options.validateFile(root, location)
+        if (problems.length > 0) {
+            throw new DiagnosticError(
+                "invalid-document",
+                `Source ${pointer} references "${reference}", which is not a valid token file:\n${problems
+                    .map((problem) => `  ${problem}`)
+                    .join("\n")}`,
+                { reference, file: location }
+            )
+        }
+    }
+
+    const fragment = split.pointer || "#"
+    const tokens = evaluatePointer(
+        root,
+        parseFragmentPointer(fragment),
+        reference
+    )
+    if (!isPlainObject(tokens)) {
+        throw new Error(
+            `Source ${pointer} references "${reference}", which is not a token object`
+        )
+    }
+    return { tokens, file: location, pointer: fragment }
+}
+
+/**
+ * Add the sources of a set, expanding the sets it references
+ * @param visited - Names of the sets being expanded, to detect cycles
+ */
+function expandSet(
+    state: ExpansionState,
+    name: string,
+    inclusion: Inclusion,
+    visited: string[]
+): void {
+    const set = state.resolver.sets?.[name]
+    if (!set) {
+        throw new Error(`Set "${name}" is not defined in sets`)
+    }
+
+    if (visited.includes(name)) {
+        throw new Error(
+            `Circular reference detected in sets: ${[...visited, name].join(
+                " -> "
+            )}`
+        )
+    }
+
+    expandSources(state, set.sources, ["sets", name, "sources"], inclusion, [
+        ...visited,
+        name,
+    ])
+}
+
+/**
+ * Add a list of token sources, expanding references to sets and loading
+ * referenced token files
+ * @param path - Path segments of the list in the resolver document
+ */
+function expandSources(
+    state: ExpansionState,
+    list: TokenSource[],
+    path: string[],
+    inclusion: Inclusion,
+    visited: string[]
+): void {
+    const { resolver, sources } = state
+
+    list.forEach((source, i) => {
+        const pointer = formatFragmentPointer([...path, String(i)])
+
+        if (!hasRefProperty(source)) {
+            if (!isPlainObject(source)) {
+                throw new Error(`Source ${pointer} is not a token object`)
+            }
+            sources.push({
+                tokens: source,
+                pointer,
+                index: sources.length,
+                ...inclusion,
+            })
+            return
+        }
+
+        const reference = source.$ref
+        if (!reference.startsWith("#")) {
+            sources.push({
+                ...loadFileSource(state.files, reference, pointer),
+                index: sources.length,
+                ...inclusion,
+            })
+            return
+        }
+
+        const segments = parseFragmentPointer(reference)
+
+        if (segments[0] === "sets" && segments.length === 2) {
+            expandSet(state, segments[1], inclusion, visited)
+            return
+        }
+
+        if (segments[0] === "modifiers" || segments[0] === "resolutionOrder") {
+            throw new Error(
+                `Source ${pointer} references "${reference}"; sources cannot reference modifiers or resolutionOrder items`
+            )
+        }
+
+        const tokens = evaluatePointer(resolver, segments, reference)
+        if (!isPlainObject(tokens)) {
+            throw new Error(
+                `Source ${pointer} references "${reference}", which is not a token object`
+            )
+        }
+        sources.push({
+            tokens,
+            pointer: reference,
+            index: sources.length,
+            ...inclusion,
+        })
+    })
+}
+
+/**
+ * Add the sources of the context selected for a modifier
+ * @param path - Path segments of the modifier in the resolver document
+ */
+function expandModifier(
+    state: ExpansionState,
+    modifier: ResolverModifier,
+    name: string,
+    path: string[]
+): void {
+    // Inputs are validated up front, so a context is always selected
+    const context = (state.inputs[name] ?? modifier.default) as string
+
+    expandSources(
+        state,
+        modifier.contexts[context],
+        [...path, "contexts", context],
+        { name, context },
+        []
+    )
+}
+
+/**
+ * Select the token sources of a resolver document for a set of inputs
+ *
+ * @param resolver - The resolver document
+ * @param inputs - The selected context of each modifier, keyed by name
+ * @param options - Loading of token files, see SourceOptions
+ * @returns The sources in resolution order, with set references expanded
+ * and token files loaded
+ * @throws DiagnosticError if the inputs are invalid (see
+ * validateResolverInputs) or a token file cannot be used
+ * @throws Error if a reference cannot be followed
+ */
+export function collectSources(
+    resolver: ResolverDocument,
+    inputs: ResolverInputs = {},
+    options: SourceOptions = {}
+): ResolvedSource[] {
+    validateResolverInputs(resolver, inputs)
+
+    const state: ExpansionState = {
+        resolver,
+        inputs,
+        files: createFileSources(options),
+        sources: [],
+    }
+
+    resolver.resolutionOrder.forEach((item, i) => {
+        if (hasRefProperty(item)) {
+            const segments = parseFragmentPointer(item.$ref)
+            const [kind, name] = segments
+
+            if (segments.length === 2 && kind === "sets") {
+                expandSet(state, name, { name }, [])
+            } else if (segments.length === 2 && kind === "modifiers") {
+                const modifier = resolver.modifiers?.[name]
+                if (!modifier) {
+                    throw new Error(
+                        `Modifier "${name}" is not defined in modifiers`
+                    )
+                }
+                expandModifier(state, modifier, name, segments)
+            } else {
+                throw new Error(
+                    `resolutionOrder item ${i} references "${item.$ref}"; it must reference a set or a modifier`
+                )
+            }
+        } else if (item.type === "set") {
+            expandSources(
+                state,
+                item.sources,
+                ["resolutionOrder", String(i), "sources"],
+                { name: item.name },
+                []
+            )
+        } else if (item.type === "modifier") {
+            expandModifier(state, item, item.name, [
+                "resolutionOrder",
+                String(i),
+            ])
+        } else {
+            throw new Error(
+                `resolutionOrder item ${i} is neither a reference nor an inline set or modifier`
+            )
+        }
+    })
+
+    return state.sources
+}
+
+/**
+ * Merge two token trees
+ * Groups are merged recursively; tokens and group properties of the override
+ * replace those of the base.
+ */
+export function mergeTokenTrees(
+    base: DesignTokenObject,
+    override: DesignTokenObject
+): DesignTokenObject {
+    const merged: Record<string, unknown> = { ...base }
+
+    for (const [key, value] of Object.entries(override)) {
+        const existing = merged[key]
+
+        if (
+            !key.startsWith("$") &&
+            isPlainObject(value) &&
+            isPlainObject(existing) &&
+            !isToken(value) &&
+            !isToken(existing)
+        ) {
+            merged[key] = mergeTokenTrees(existing, value)
+        } else {
+            merged[key] = value
+        }
+    }
+
+    return merged
+}
+
+/**
+ * Merge selected sources in order into a single, unresolved token tree
+ */
+export function mergeSources(
+    sources: readonly ResolvedSource[]
+): DesignTokenObject {
+    return sources.reduce<DesignTokenObject>(
+        (tokens, source) => mergeTokenTrees(tokens, source.tokens),
+        {}
+    )
+}
+
+/**
+ * Record which sources declare each token
+ * A later declaration of a token replaces the earlier ones when the sources
+ * are merged, see mergeTokenTrees.
+ *
+ * @param sources - The selected sources, in merge order
+ * @returns The sources of every declared token, keyed by dot path
+ *
+ * @example
+ * ```typescript
+ * traceSources(collectSources(resolver, { theme: 'dark' })).get('color.text');
+ * // { source: { pointer: '#/modifiers/theme/contexts/dark/0', index: 1,
+ * //             name: 'theme', context: 'dark' },
+ * //   overridden: [{ pointer: '#/sets/base/sources/0', index: 0, name: 'base' }] }
+ * ```
+ */
+export function traceSources(
+    sources: readonly ResolvedSource[]
+): Map<string, SourceProvenance> {
+    const provenance = new Map<string, SourceProvenance>()
+
+    for (const { tokens, ...origin } of sources) {
+        walkTokens(tokens, (_token, segments) => {
+            const path = segments.join(".")
+            const previous = provenance.get(path)
+            provenance.set(path, {
+                source: origin,
+                overridden: previous
+                    ? [...previous.overridden, previous.source]
+                    : [],
+            })
+        })
+    }
+
+    return provenance
+}
+
+/**
+ * Replace the references in tokens
+ * Every $ref and $extends is visited except curly brace references, which
+ * are token paths rather than documents.
+ *
+ * @param value - The tokens, or a value inside them
+ * @param map - Gives the new reference for a reference as written
+ * @returns A copy of the tokens with the references replaced
+ */
+export function mapReferences(
+    value: unknown,
+    map: (reference: string) => string
+): unknown {
+    if (Array.isArray(value)) {
+        return value.map((item) => mapReferences(item, map))
+    }
+    if (!isPlainObject(value)) {
+        return value
+    }
+
+    const mapped: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+        mapped[key] =
+            (key === "$ref" || key === "$extends") &&
+            typeof item === "string" &&
+            !isCurlyBraceReference(item)
+                ? map(item)
+                : mapReferences(item, map)
+    }
+    return mapped
+}
+
+/**
+ * Make a reference of a source independent of where it is written
+ * Once sources are merged, a reference is no longer in its file, so file
+ * references are replaced by the canonical location of the file they point
+ * to: relative to the token file for its references, including those to the
+ * same file, and relative to the resolver document for inline sources.
+ *
+ * @param file - Location of the token file, undefined for inline sources
+ */
+function rebaseReference(
+    reference: string,
+    file: string | undefined,
+    files: FileSources
+): string {
+    const { document, pointer } = splitReference(reference)
+    if (document !== "") {
+        return `${files.documents.loader.resolveLocation(
+            document,
+            file ?? files.options.location
+        )}${pointer}`
+    }
+    return file === undefined ? reference : `${file}${pointer}`
+}
+
+/**
+ * Resolve a resolver document for a set of modifier inputs
+ *
+ * @param resolver - The resolver document
+ * @param inputs - The selected context of each modifier, keyed by modifier
+ * name; modifiers without input use their default context
+ * @param options - See ResolveOptions
+ * @returns The merged token tree with references resolved and explicit $type
+ * on every token
+ *
+ * @example
+ * ```typescript
+ * const tokens = resolve(resolver, { theme: 'dark', size: 'large' });
+ * // tokens holds every set in resolutionOrder, plus the "dark" context of
+ * // the theme modifier and the "large" context of the size modifier
+ * ```
+ */
+export function resolve(
+    resolver: ResolverDocument,
+    inputs: ResolverInputs = {},
+    options: ResolveOptions = {}
+): DesignTokenObject {
+    const files = createFileSources(options)
+    const sources = collectSources(resolver, inputs, {
+        ...options,
+        documents: files.documents,
+    })
+    // References are resolved with the files the sources come from, so
+    // tokens can still alias tokens of any other source
+    const merged = mergeSources(
+        sources.map((source) => ({
+            ...source,
+            tokens: mapReferences(source.tokens, (reference) =>
+                rebaseReference(reference, source.file, files)
+            ) as DesignTokenObject,
+        }))
+    )
+
+    if (options.provenance) {
+        // Only tokens of the merged tree: a token replaced by a group, or
+        // inside a group replaced by a token, is gone
+        const traced = traceSources(sources)
+        const provenance = options.provenance
+        walkTokens(merged, (_token, segments) => {
+            const path = segments.join(".")
+            const entry = traced.get(path)
+            if (entry) {
+                provenance.set(path, entry)
+            }
+        })
+    }
+
+    const resolved = resolveReferences(merged, {
+        documents: files.documents,
+        diagnostics: options.diagnostics,
+    })
+    return processTypeInheritance(resolved, {
+        diagnostics: options.diagnostics,
+    })
+}
+
+export default {
+    resolve,
+    collectSources,
+    mapReferences,
+    mergeSources,
+    mergeTokenTrees,
+    traceSources,
+}
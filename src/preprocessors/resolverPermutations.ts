@@ -0,0 +1,196 @@
+/**
+ * Resolver Permutations
+ *
+ * A resolver document describes one token tree per combination of modifier
+ * contexts. A combination can be broken while all others are fine, e.g. a
+ * token of the "dark" theme aliasing a token only the "compact" density
+ * defines. This module enumerates those combinations (permutations) so each
+ * one can be resolved and validated.
+ *
+ * Only modifiers used in resolutionOrder are enumerated: a modifier that is
+ * never included does not change the resolved tokens.
+ *
+ * The number of permutations is the product of the context counts, so it
+ * grows quickly. Enumeration is capped, optionally taking a seeded
+ * random sample instead of the first permutations in order.
+ */
+
+import { findUsedModifiers } from "./resolverValidator.js"
+import type { ResolverDocument, ResolverInputs } from "./types.js"
+
+/**
+ * Default maximum number of permutations to enumerate
+ */
+export const DEFAULT_PERMUTATION_LIMIT = 256
+
+/**
+ * A modifier and the names of its contexts
+ */
+export interface ModifierContexts {
+    name: string
+    contexts: string[]
+}
+
+/**
+ * Options for enumeratePermutations
+ */
+export interface PermutationOptions {
+    /**
+     * Maximum number of permutations, a positive integer;
+     * DEFAULT_PERMUTATION_LIMIT by default
+     */
+    limit?: number
+    /**
+     * When there are more permutations than the limit, pick a random sample
+     * instead of the first ones in order
+     */
+    sample?: boolean
+    /** Seed of the random sample, so runs can be reproduced; 1 by default */
+    seed?: number
+}
+
+/**
+ * The permutations selected for a resolver document
+ */
+export interface PermutationSet {
+    /** Inputs of each selected permutation */
+    permutations: ResolverInputs[]
+    /** Number of permutations the resolver document has */
+    total: number
+    /** Whether only part of the permutations was selected */
+    capped: boolean
+    /** Whether the selection is a random sample */
+    sampled: boolean
+}
+
+/**
+ * List the modifiers used in resolutionOrder with their contexts, in order
+ * References to modifiers that do not exist are skipped.
+ */
+export function getModifierContexts(
+    resolver: ResolverDocument
+): ModifierContexts[] {
+    return findUsedModifiers(resolver).map(({ name, modifier }) => ({
+        name,
+        contexts: Object.keys(modifier.contexts),
+    }))
+}
+
+/**
+ * Get the inputs of the permutation at an index
+ * Permutations are ordered like nested loops, the last modifier varying
+ * fastest.
+ */
+function permutationAt(
+    modifiers: readonly ModifierContexts[],
+    index: number
+): ResolverInputs {
+    const inputs: ResolverInputs = {}
+    let rest = index
+
+    for (let i = modifiers.length - 1; i >= 0; i--) {
+        const { name, contexts } = modifiers[i]
+        inputs[name] = contexts[rest % contexts.length]
+        rest = Math.floor(rest / contexts.length)
+    }
+
+    // Keep the inputs in resolution order
+    return Object.fromEntries(
+        modifiers.map(({ name }) => [name, inputs[name]])
+    )
+}
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ * @returns A function returning numbers in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+/**
+ * Pick distinct indices below total, in ascending order
+ */
+function sampleIndices(total: number, count: number, seed: number): number[] {
+    const random = createRandom(seed)
+    const picked = new Set<number>()
+
+    while (picked.size < count) {
+        picked.add(Math.floor(random() * total))
+    }
+
+    return Array.from(picked).sort((a, b) => a - b)
+}
+
+/**
+ * Enumerate the modifier-context permutations of a resolver document
+ *
+ * @param resolver - The resolver document
+ * @param options - Cap and sampling, see PermutationOptions
+ * @returns The selected permutations, as inputs for resolve
+ * @throws Error if the limit is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * // theme: light | dark, density: compact | comfortable
+ * enumeratePermutations(resolver).permutations;
+ * // [{ theme: 'light', density: 'compact' }, { theme: 'light', density: 'comfortable' },
+ * //  { theme: 'dark', density: 'compact' }, { theme: 'dark', density: 'comfortable' }]
+ * ```
+ */
+export function enumeratePermutations(
+    resolver: ResolverDocument,
+    options: PermutationOptions = {}
+): PermutationSet {
+    const limit = options.limit ?? DEFAULT_PERMUTATION_LIMIT
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error(
+            `The permutation limit must be a positive integer, got ${limit}`
+        )
+    }
+    const modifiers = getModifierContexts(resolver)
+    const total = modifiers.reduce(
+        (count, { contexts }) => count * contexts.length,
+        1
+    )
+
+    const capped = total > limit
+    const sampled = capped && options.sample === true
+    let indices: number[]
+    if (sampled) {
+        indices = sampleIndices(total, limit, options.seed ?? 1)
+    } else {
+        indices = Array.from({ length: Math.min(total, limit) }, (_, i) => i)
+    }
+
+    return {
+        permutations: indices.map((index) => permutationAt(modifiers, index)),
+        total,
+        capped,
+        sampled,
+    }
+}
+
+/**
+ * Format permutation inputs for messages, e.g. "theme=dark, density=compact"
+ */
+export function formatPermutation(inputs: ResolverInputs): string {
+    const entries = Object.entries(inputs)
+    if (entries.length === 0) {
+        return "(no modifiers)"
+    }
+    return entries.map(([name, context]) => `${name}=${context}`).join(", ")
+}
+
+export default {
+    enumeratePermutations,
+    getModifierContexts,
+    formatPermutation,
+}
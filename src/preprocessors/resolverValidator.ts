@@ -0,0 +1,577 @@
+/**
+ * Resolver Semantic Validator
+ *
+ * This module provides semantic validation for resolver files that cannot be
+ * enforced by JSON Schema alone.
+ *
+ * Checks:
+ * 1. Duplicate names in resolutionOrder
+ * 2. Every $ref in sets, modifier contexts and resolutionOrder: that it is a
+ *    valid pointer, that its target exists and that it points to something
+ *    it may reference (resolutionOrder items reference sets and modifiers;
+ *    sources reference sets, files or token objects, never modifiers)
+ * 3. Circular references between sets and modifiers
+ * 4. Modifier defaults that are not one of the modifier's contexts
+ *
+ * validateResolverInputs checks the inputs a resolver document is resolved
+ * with: unknown modifier names, unknown contexts and missing inputs for
+ * modifiers without a default.
+ *
+ * Problems are reported against the JSON Pointer of the part of the resolver
+ * document they concern, e.g. "/modifiers/theme/default". By default the
+ * first problem throws; passing a diagnostics array collects them all.
+ */
+
+import { DiagnosticCollector, DiagnosticError } from "./diagnostics.js"
+import {
+    evaluatePointer,
+    formatFragmentPointer,
+    formatPointer,
+    JsonPointerError,
+    parseFragmentPointer,
+} from "./jsonPointer.js"
+import type {
+    DesignTokenObject,
+    Diagnostic,
+    DiagnosticCode,
+    ResolverDocument,
+    ResolverInputs,
+    ResolverModifier,
+} from "./types.js"
+import { hasRefProperty } from "./types.js"
+
+/**
+ * Options for validateResolverSemantics and validateResolverInputs
+ */
+export interface ResolverValidationOptions {
+    /**
+     * When provided, every problem is appended to this array as a Diagnostic
+     * whose path is a JSON Pointer, instead of being thrown
+     */
+    diagnostics?: Diagnostic[]
+}
+
+/**
+ * A modifier of a resolver document and where it is defined
+ */
+export interface ModifierEntry {
+    name: string
+    modifier: ResolverModifier
+    /** Path segments of the modifier in the resolver document */
+    path: string[]
+}
+
+/**
+ * A $ref in a resolver document
+ */
+export interface ResolverReference {
+    reference: string
+    /** Path segments of the reference object in the resolver document */
+    path: string[]
+    /** Whether the reference is a resolutionOrder item or a token source */
+    site: "resolutionOrder" | "source"
+    /**
+     * Pointer to the set or modifier the reference is in, e.g. "#/sets/base";
+     * undefined for resolutionOrder items and their inline sources
+     */
+    owner?: string
+}
+
+/**
+ * What a reference in a resolver document points to: a set, a modifier, a
+ * resolutionOrder item, another file, or any other part of the document
+ * (e.g. tokens in $defs)
+ */
+export type ResolverReferenceKind =
+    "set" | "modifier" | "resolutionOrder" | "file" | "document"
+
+/**
+ * Reports problems by throwing the first one or collecting all of them
+ */
+class ProblemReporter {
+    private readonly collector?: DiagnosticCollector
+
+    constructor(options: ResolverValidationOptions) {
+        this.collector =
+            options.diagnostics && new DiagnosticCollector(options.diagnostics)
+    }
+
+    report(path: string[], code: DiagnosticCode, message: string): void {
+        const diagnostic: Diagnostic = {
+            path: formatPointer(path),
+            code,
+            severity: "error",
+            message,
+        }
+
+        if (!this.collector) {
+            throw new DiagnosticError(
+                code,
+                `${diagnostic.path}: ${diagnostic.message}`
+            )
+        }
+        this.collector.add(diagnostic)
+    }
+}
+
+/**
+ * List the modifiers used in resolutionOrder, in order and without
+ * duplicates: referenced modifiers and inline modifiers
+ * References to modifiers that do not exist are skipped.
+ */
+export function findUsedModifiers(
+    resolver: ResolverDocument
+): ModifierEntry[] {
+    const modifiers = new Map<string, ModifierEntry>()
+
+    if (!Array.isArray(resolver.resolutionOrder)) {
+        return []
+    }
+
+    resolver.resolutionOrder.forEach((item, i) => {
+        if (hasRefProperty(item)) {
+            let segments: string[]
+            try {
+                segments = parseFragmentPointer(item.$ref)
+            } catch {
+                return
+            }
+
+            const [kind, name] = segments
+            const modifier = resolver.modifiers?.[name]
+            if (segments.length === 2 && kind === "modifiers" && modifier) {
+                modifiers.set(name, { name, modifier, path: segments })
+            }
+        } else if (item && item.type === "modifier") {
+            modifiers.set(item.name, {
+                name: item.name,
+                modifier: item,
+                path: ["resolutionOrder", String(i)],
+            })
+        }
+    })
+
+    return Array.from(modifiers.values())
+}
+
+/**
+ * List every modifier of a resolver document: those in modifiers and the
+ * inline modifiers in resolutionOrder
+ */
+function findAllModifiers(resolver: ResolverDocument): ModifierEntry[] {
+    const modifiers: ModifierEntry[] = Object.entries(
+        resolver.modifiers ?? {}
+    ).map(([name, modifier]) => ({
+        name,
+        modifier,
+        path: ["modifiers", name],
+    }))
+
+    if (Array.isArray(resolver.resolutionOrder)) {
+        resolver.resolutionOrder.forEach((item, i) => {
+            if (item && !hasRefProperty(item) && item.type === "modifier") {
+                modifiers.push({
+                    name: item.name,
+                    modifier: item,
+                    path: ["resolutionOrder", String(i)],
+                })
+            }
+        })
+    }
+
+    return modifiers
+}
+
+/**
+ * List every $ref of a resolver document: in the sources of sets, in the
+ * contexts of modifiers and in resolutionOrder, including the sources of
+ * inline sets and modifiers
+ */
+export function findResolverReferences(
+    resolver: ResolverDocument
+): ResolverReference[] {
+    const references: ResolverReference[] = []
+
+    const addSources = (list: unknown, path: string[], owner?: string) => {
+        if (!Array.isArray(list)) {
+            return
+        }
+        list.forEach((source, i) => {
+            if (hasRefProperty(source)) {
+                references.push({
+                    reference: source.$ref,
+                    path: [...path, String(i)],
+                    site: "source",
+                    owner,
+                })
+            }
+        })
+    }
+
+    const addContexts = (
+        modifier: ResolverModifier | undefined,
+        path: string[],
+        owner?: string
+    ) => {
+        for (const [context, list] of Object.entries(
+            modifier?.contexts ?? {}
+        )) {
+            addSources(list, [...path, "contexts", context], owner)
+        }
+    }
+
+    for (const [name, set] of Object.entries(resolver.sets ?? {})) {
+        const path = ["sets", name]
+        addSources(
+            set?.sources,
+            [...path, "sources"],
+            formatFragmentPointer(path)
+        )
+    }
+
+    for (const [name, modifier] of Object.entries(resolver.modifiers ?? {})) {
+        const path = ["modifiers", name]
+        addContexts(modifier, path, formatFragmentPointer(path))
+    }
+
+    if (Array.isArray(resolver.resolutionOrder)) {
+        resolver.resolutionOrder.forEach((item, i) => {
+            const path = ["resolutionOrder", String(i)]
+            if (hasRefProperty(item)) {
+                references.push({
+                    reference: item.$ref,
+                    path,
+                    site: "resolutionOrder",
+                })
+            } else if (item?.type === "set") {
+                addSources(item.sources, [...path, "sources"])
+            } else if (item?.type === "modifier") {
+                addContexts(item, path)
+            }
+        })
+    }
+
+    return references
+}
+
+/**
+ * Classify a reference by what it points to
+ * @param segments - The parsed pointer, for references within the document
+ */
+export function classifyReference(
+    reference: string,
+    segments: readonly string[]
+): ResolverReferenceKind {
+    if (!reference.startsWith("#")) {
+        return "file"
+    }
+    if (segments[0] === "resolutionOrder") {
+        return "resolutionOrder"
+    }
+    if (segments.length === 2 && segments[0] === "sets") {
+        return "set"
+    }
+    if (segments.length === 2 && segments[0] === "modifiers") {
+        return "modifier"
+    }
+    return "document"
+}
+
+/**
+ * Describe the target of a reference for messages
+ */
+function describeTarget(
+    kind: ResolverReferenceKind,
+    segments: readonly string[]
+): string {
+    switch (kind) {
+        case "file":
+            return "another file"
+        case "resolutionOrder":
+            return "a resolutionOrder item"
+        case "set":
+            return "a set"
+        case "modifier":
+            return "a modifier"
+        default:
+            return segments[0] === "modifiers"
+                ? "part of a modifier"
+                : "another part of the document"
+    }
+}
+
+/**
+ * Check that a reference may point to what it points to
+ * @returns Why the reference is not allowed, or undefined if it is
+ */
+function checkReferenceKind(
+    reference: ResolverReference,
+    kind: ResolverReferenceKind,
+    segments: readonly string[]
+): string | undefined {
+    const target = describeTarget(kind, segments)
+
+    if (reference.site === "resolutionOrder") {
+        return kind === "set" || kind === "modifier"
+            ? undefined
+            : `resolutionOrder items must reference a set or a modifier, not ${target}`
+    }
+
+    if (kind === "resolutionOrder" || segments[0] === "modifiers") {
+        return `Sources cannot reference ${target}`
+    }
+    return undefined
+}
+
+/**
+ * Check every reference of a resolver document and report cycles
+ *
+ * Sets and modifiers form a graph: a set or modifier depends on every set
+ * its sources reference, including references into part of a set. Files
+ * are not followed.
+ */
+function validateReferences(
+    resolver: ResolverDocument,
+    reporter: ProblemReporter
+): void {
+    /** Outgoing references of each set and modifier, by pointer */
+    const dependencies = new Map<
+        string,
+        Array<{ target: string; path: string[] }>
+    >()
+
+    for (const reference of findResolverReferences(resolver)) {
+        const refPath = [...reference.path, "$ref"]
+        const ref = reference.reference
+
+        let segments: string[] = []
+        if (ref.startsWith("#")) {
+            try {
+                segments = parseFragmentPointer(ref)
+            } catch (error) {
+                if (!(error instanceof JsonPointerError)) throw error
+                reporter.report(refPath, "invalid-pointer", error.message)
+                continue
+            }
+        }
+
+        const kind = classifyReference(ref, segments)
+        const problem = checkReferenceKind(reference, kind, segments)
+        if (problem) {
+            reporter.report(refPath, "invalid-reference", problem)
+            continue
+        }
+
+        if (kind === "file") {
+            continue
+        }
+
+        try {
+            evaluatePointer(resolver, segments, ref)
+        } catch (error) {
+            if (!(error instanceof JsonPointerError)) throw error
+            const message =
+                kind === "set" || kind === "modifier"
+                    ? `Reference "${ref}" points to ${describeTarget(
+                          kind,
+                          segments
+                      )} that does not exist`
+                    : error.message
+            reporter.report(refPath, "unresolved-reference", message)
+            continue
+        }
+
+        if (
+            reference.owner &&
+            segments.length >= 2 &&
+            (segments[0] === "sets" || segments[0] === "modifiers")
+        ) {
+            const edges = dependencies.get(reference.owner) ?? []
+            edges.push({
+                target: formatFragmentPointer(segments.slice(0, 2)),
+                path: refPath,
+            })
+            dependencies.set(reference.owner, edges)
+        }
+    }
+
+    // Depth-first search; a reference to a set or modifier that is still
+    // being visited closes a cycle
+    const state = new Map<string, "visiting" | "done">()
+    const stack: string[] = []
+
+    const visit = (node: string): void => {
+        state.set(node, "visiting")
+        stack.push(node)
+
+        for (const { target, path } of dependencies.get(node) ?? []) {
+            const targetState = state.get(target)
+            if (targetState === "visiting") {
+                const cycle = [...stack.slice(stack.indexOf(target)), target]
+                reporter.report(
+                    path,
+                    "circular-reference",
+                    `Circular reference detected: ${cycle.join(" -> ")}`
+                )
+            } else if (targetState === undefined) {
+                visit(target)
+            }
+        }
+
+        stack.pop()
+        state.set(node, "done")
+    }
+
+    for (const node of dependencies.keys()) {
+        if (!state.has(node)) {
+            visit(node)
+        }
+    }
+}
+
+/**
+ * List the context names of a modifier for messages
+ */
+function listContexts(modifier: ResolverModifier): string {
+    return Object.keys(modifier.contexts ?? {}).join(", ")
+}
+
+/**
+ * Check whether a modifier has a context
+ */
+function hasContext(modifier: ResolverModifier, context: string): boolean {
+    return (
+        !!modifier.contexts &&
+        Object.prototype.hasOwnProperty.call(modifier.contexts, context)
+    )
+}
+
+/**
+ * Validate resolver semantics
+ * Throws an error if validation fails, unless a diagnostics array is given
+ */
+export function validateResolverSemantics(
+    data: DesignTokenObject,
+    options: ResolverValidationOptions = {}
+): DesignTokenObject {
+    const resolver = data as unknown as ResolverDocument
+    const reporter = new ProblemReporter(options)
+
+    // 1. Check for duplicate names in resolutionOrder
+    if (Array.isArray(resolver.resolutionOrder)) {
+        const names = new Set<string>()
+
+        resolver.resolutionOrder.forEach((item, i) => {
+            // Only check inline items which have a name property
+            if (
+                item &&
+                typeof item === "object" &&
+                "name" in item &&
+                typeof item.name === "string"
+            ) {
+                if (names.has(item.name)) {
+                    reporter.report(
+                        ["resolutionOrder", String(i), "name"],
+                        "duplicate-name",
+                        `Duplicate name in resolutionOrder: "${item.name}"`
+                    )
+                }
+                names.add(item.name)
+            }
+        })
+    }
+
+    // 2. and 3. Check every reference and look for cycles
+    validateReferences(resolver, reporter)
+
+    // 4. Check that modifier defaults are one of their contexts
+    for (const { modifier, path } of findAllModifiers(resolver)) {
+        if (
+            typeof modifier.default === "string" &&
+            !hasContext(modifier, modifier.default)
+        ) {
+            reporter.report(
+                [...path, "default"],
+                "invalid-default",
+                `Default context "${modifier.default}" is not one of the contexts: ${listContexts(
+                    modifier
+                )}`
+            )
+        }
+    }
+
+    return data
+}
+
+/**
+ * Validate the inputs a resolver document is resolved with
+ *
+ * Every input must name a modifier of the document and one of its contexts,
+ * and every modifier used in resolutionOrder without a default context must
+ * have an input.
+ *
+ * @param resolver - The resolver document
+ * @param inputs - The selected context of each modifier, keyed by name
+ * @param options - See ResolverValidationOptions
+ * @returns The diagnostics array, empty if the inputs are valid
+ * @throws DiagnosticError on the first problem, unless a diagnostics array
+ * is given
+ *
+ * @example
+ * // With a theme modifier of contexts light and dark, { theme: "sepia" }
+ * // reports: /modifiers/theme/contexts: Input "sepia" for modifier "theme"
+ * // is not one of its contexts: light, dark
+ */
+export function validateResolverInputs(
+    resolver: ResolverDocument,
+    inputs: ResolverInputs,
+    options: ResolverValidationOptions = {}
+): Diagnostic[] {
+    const diagnostics = options.diagnostics ?? []
+    const reporter = new ProblemReporter(options)
+    const modifiers = new Map(
+        findAllModifiers(resolver).map((entry) => [entry.name, entry])
+    )
+
+    for (const [name, context] of Object.entries(inputs)) {
+        const entry = modifiers.get(name)
+
+        if (!entry) {
+            reporter.report(
+                ["modifiers"],
+                "unknown-modifier",
+                `Input "${name}" does not match any modifier; expected one of: ${Array.from(
+                    modifiers.keys()
+                ).join(", ")}`
+            )
+        } else if (!hasContext(entry.modifier, context)) {
+            reporter.report(
+                [...entry.path, "contexts"],
+                "unknown-context",
+                `Input "${context}" for modifier "${name}" is not one of its contexts: ${listContexts(
+                    entry.modifier
+                )}`
+            )
+        }
+    }
+
+    for (const { name, modifier, path } of findUsedModifiers(resolver)) {
+        if (inputs[name] === undefined && modifier.default === undefined) {
+            reporter.report(
+                path,
+                "missing-input",
+                `No input for modifier "${name}", which has no default context`
+            )
+        }
+    }
+
+    return diagnostics
+}
+
+export default {
+    validateResolverSemantics,
+    validateResolverInputs,
+    findUsedModifiers,
+    findResolverReferences,
+    classifyReference,
+}
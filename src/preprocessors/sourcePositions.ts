@@ -0,0 +1,341 @@
+/**
+ * Source Positions
+ *
+ * Problems are located by JSON Pointer, e.g. "/semantic/primary/$value",
+ * which is hard to find in a large file. parseJson parses JSON like
+ * JSON.parse and remembers where every member and array element starts in
+ * the text, so a pointer can be turned into a line and column:
+ * - members are located at their name, array elements at their value
+ * - pointers to values that are not in the text (e.g. an inherited $type)
+ *   are located at the closest value that is
+ *
+ * The positions are kept for the parsed document, so documents loaded by
+ * file can be located once validation is done.
+ */
+
+import { formatPointer, parsePointer } from "./jsonPointer.js"
+
+/**
+ * A position in a text, both starting at 1
+ */
+export interface SourcePosition {
+    line: number
+    column: number
+}
+
+/**
+ * Where a value of a parsed document starts, by JSON Pointer
+ */
+export type SourcePositions = Map<string, SourcePosition>
+
+/**
+ * Error thrown for text that is not valid JSON, with where the problem is
+ */
+export class JsonSyntaxError extends SyntaxError {
+    /** What is wrong, without where */
+    readonly reason: string
+    readonly line: number
+    readonly column: number
+
+    constructor(reason: string, position: SourcePosition) {
+        super(`${reason} at line ${position.line} column ${position.column}`)
+        this.name = "JsonSyntaxError"
+        this.reason = reason
+        this.line = position.line
+        this.column = position.column
+    }
+}
+
+/**
+ * The positions of the documents parsed with parseJson
+ */
+const positionsByDocument = new WeakMap<object, SourcePositions>()
+
+/**
+ * JSON string, with the escapes JSON allows and no control characters
+ */
+const STRING = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y
+
+const NUMBER = /-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?/y
+
+const LITERALS: Record<string, unknown> = {
+    true: true,
+    false: false,
+    null: null,
+}
+
+/**
+ * State of parsing a text
+ */
+interface ParserState {
+    text: string
+    index: number
+    line: number
+    /** Index of the first character of the current line */
+    lineStart: number
+    positions: SourcePositions
+}
+
+/**
+ * Get the position of the next character
+ */
+function currentPosition(state: ParserState): SourcePosition {
+    return { line: state.line, column: state.index - state.lineStart + 1 }
+}
+
+/**
+ * Throw a JsonSyntaxError at the next character
+ */
+function fail(state: ParserState, expected?: string): never {
+    const character = state.text[state.index]
+    const found =
+        character === undefined
+            ? "end of JSON input"
+            : `character ${JSON.stringify(character)}`
+    throw new JsonSyntaxError(
+        expected
+            ? `Expected ${expected} but found ${found}`
+            : `Unexpected ${found}`,
+        currentPosition(state)
+    )
+}
+
+/**
+ * Skip whitespace, counting lines
+ */
+function skipWhitespace(state: ParserState): void {
+    const { text } = state
+    while (state.index < text.length) {
+        const character = text[state.index]
+        if (character === "\n") {
+            state.index++
+            state.line++
+            state.lineStart = state.index
+        } else if (
+            character === " " ||
+            character === "\t" ||
+            character === "\r"
+        ) {
+            state.index++
+        } else {
+            return
+        }
+    }
+}
+
+/**
+ * Match a token at the next character
+ */
+function matchToken(state: ParserState, pattern: RegExp): string | undefined {
+    pattern.lastIndex = state.index
+    const match = pattern.exec(state.text)
+    if (!match) {
+        return undefined
+    }
+    state.index += match[0].length
+    return match[0]
+}
+
+/**
+ * Parse a JSON string at the next character
+ */
+function parseString(state: ParserState): string {
+    const token = matchToken(state, STRING)
+    if (token === undefined) {
+        throw new JsonSyntaxError("Invalid string", currentPosition(state))
+    }
+    return JSON.parse(token)
+}
+
+/**
+ * Parse the object at the next character, which is "{"
+ */
+function parseObject(
+    state: ParserState,
+    pointer: string
+): Record<string, unknown> {
+    const object: Record<string, unknown> = {}
+    state.index++
+    skipWhitespace(state)
+    if (state.text[state.index] === "}") {
+        state.index++
+        return object
+    }
+
+    for (;;) {
+        skipWhitespace(state)
+        if (state.text[state.index] !== '"') {
+            fail(state, "a property name")
+        }
+        const position = currentPosition(state)
+        const name = parseString(state)
+        skipWhitespace(state)
+        if (state.text[state.index] !== ":") {
+            fail(state, '":"')
+        }
+        state.index++
+
+        const memberPointer = `${pointer}${formatPointer([name])}`
+        const value = parseValue(state, memberPointer)
+        state.positions.set(memberPointer, position)
+        // Like JSON.parse, "__proto__" is a member rather than the prototype
+        Object.defineProperty(object, name, {
+            value,
+            writable: true,
+            enumerable: true,
+            configurable: true,
+        })
+
+        skipWhitespace(state)
+        const next = state.text[state.index++]
+        if (next === "}") {
+            return object
+        }
+        if (next !== ",") {
+            state.index--
+            fail(state, '"," or "}"')
+        }
+    }
+}
+
+/**
+ * Parse the array at the next character, which is "["
+ */
+function parseArray(state: ParserState, pointer: string): unknown[] {
+    const array: unknown[] = []
+    state.index++
+    skipWhitespace(state)
+    if (state.text[state.index] === "]") {
+        state.index++
+        return array
+    }
+
+    for (;;) {
+        array.push(parseValue(state, `${pointer}/${array.length}`))
+        skipWhitespace(state)
+        const next = state.text[state.index++]
+        if (next === "]") {
+            return array
+        }
+        if (next !== ",") {
+            state.index--
+            fail(state, '"," or "]"')
+        }
+    }
+}
+
+/**
+ * Parse the value at the next non-whitespace character, recording where it
+ * starts
+ */
+function parseValue(state: ParserState, pointer: string): unknown {
+    skipWhitespace(state)
+    state.positions.set(pointer, currentPosition(state))
+
+    const character = state.text[state.index]
+    if (character === "{") {
+        return parseObject(state, pointer)
+    }
+    if (character === "[") {
+        return parseArray(state, pointer)
+    }
+    if (character === '"') {
+        return parseString(state)
+    }
+
+    const number = matchToken(state, NUMBER)
+    if (number !== undefined) {
+        return Number(number)
+    }
+    for (const [literal, value] of Object.entries(LITERALS)) {
+        if (state.text.startsWith(literal, state.index)) {
+            state.index += literal.length
+            return value
+        }
+    }
+    return fail(state)
+}
+
+/**
+ * Parse JSON text, remembering the position of every value
+ *
+ * @param text - The JSON text
+ * @returns The parsed value, as JSON.parse would return it; the positions of
+ * objects and arrays are available through sourcePositionsOf
+ * @throws JsonSyntaxError if the text is not valid JSON
+ *
+ * @example
+ * ```typescript
+ * const tokens = parseJson(readFileSync("tokens.json", "utf-8"));
+ * findSourcePosition(sourcePositionsOf(tokens)!, "/color/brand/$value");
+ * // { line: 4, column: 13 }
+ * ```
+ */
+export function parseJson(text: string): unknown {
+    const state: ParserState = {
+        text,
+        index: 0,
+        line: 1,
+        lineStart: 0,
+        positions: new Map(),
+    }
+
+    const value = parseValue(state, "")
+    skipWhitespace(state)
+    if (state.index < text.length) {
+        fail(state)
+    }
+
+    if (value !== null && typeof value === "object") {
+        positionsByDocument.set(value, state.positions)
+    }
+    return value
+}
+
+/**
+ * Get the positions of a document parsed with parseJson
+ * @returns The positions, or undefined if the document was parsed otherwise
+ */
+export function sourcePositionsOf(
+    document: unknown
+): SourcePositions | undefined {
+    return document !== null && typeof document === "object"
+        ? positionsByDocument.get(document)
+        : undefined
+}
+
+/**
+ * Find where the value at a JSON Pointer is, or the closest value containing
+ * it when it is not in the text
+ *
+ * @param positions - The positions of the document, see sourcePositionsOf
+ * @param pointer - JSON Pointer to the value, e.g. "/color/brand/$value"
+ * @returns The position, or undefined if the pointer is malformed
+ */
+export function findSourcePosition(
+    positions: SourcePositions,
+    pointer: string
+): SourcePosition | undefined {
+    let segments: string[]
+    try {
+        segments = parsePointer(pointer)
+    } catch {
+        return undefined
+    }
+
+    for (let length = segments.length; length >= 0; length--) {
+        const position = positions.get(
+            formatPointer(segments.slice(0, length))
+        )
+        if (position) {
+            return position
+        }
+    }
+    return undefined
+}
+
+export default {
+    parseJson,
+    sourcePositionsOf,
+    findSourcePosition,
+}
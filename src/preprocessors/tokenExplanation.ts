@@ -0,0 +1,293 @@
+/**
+ * Token Explanation
+ *
+ * Answers "where does this token's value come from?" for one token of a
+ * design token document or of a resolved resolver document:
+ * - the resolved $value and $type, and the value as written
+ * - the tokens it references and the tokens that reference it
+ * - where its definition is written, including $extends inheritance
+ * - for resolver documents, the source whose declaration won and the
+ *   sources it replaced
+ * - the problems reported for the token
+ *
+ * The result is plain JSON; formatTokenExplanation renders it as text.
+ */
+
+import { DocumentCache, type DocumentLoader } from "./documentLoader.js"
+import { buildReferenceGraph } from "./referenceGraph.js"
+import {
+    isJsonPointerReference,
+    resolveReferences,
+} from "./referenceResolver.js"
+import {
+    collectSources,
+    mergeSources,
+    traceSources,
+    type SourceOptions,
+} from "./resolverEngine.js"
+import { formatPermutation } from "./resolverPermutations.js"
+import type {
+    DesignTokenObject,
+    Diagnostic,
+    ResolveResult,
+    ResolverDocument,
+    ResolverInputs,
+    SourceOrigin,
+    SourceProvenance,
+    TokenProvenance,
+} from "./types.js"
+import { formatDiagnostic } from "./diagnostics.js"
+import { isToken, navigateToPath } from "./utils.js"
+
+/**
+ * How a token is defined and resolved
+ */
+export interface TokenExplanation {
+    /** Dot path of the token, e.g. "color.text" */
+    path: string
+    $type?: string
+    /** The resolved value */
+    $value: unknown
+    /**
+     * The $value, or the $ref, as written; undefined when the token is only
+     * inherited through $extends
+     */
+    declared?: unknown
+    /** Tokens the token references directly */
+    references: string[]
+    /** Tokens that reference the token directly */
+    referencedBy: string[]
+    /** Where the definition is written */
+    definition?: TokenProvenance
+    /** Inputs the resolver document was resolved with */
+    inputs?: ResolverInputs
+    /** Which resolver sources declared the token */
+    sources?: SourceProvenance
+    /** Problems reported for the token while resolving */
+    diagnostics: Diagnostic[]
+}
+
+/**
+ * Options for explainToken
+ */
+export interface TokenExplanationOptions {
+    /**
+     * Location of the document
+     * Relative file references are resolved against it.
+     */
+    location?: string
+    /**
+     * Loader for documents referenced by file
+     * Defaults to reading JSON files from the filesystem.
+     */
+    loader?: DocumentLoader
+    /** Cache of loaded documents; takes precedence over loader */
+    documents?: DocumentCache
+}
+
+/**
+ * Options for explainResolvedToken
+ */
+export interface ResolvedTokenExplanationOptions extends SourceOptions {
+    /**
+     * The selected context of each modifier; modifiers without input use
+     * their default context
+     */
+    inputs?: ResolverInputs
+}
+
+/**
+ * Explain a token of an unresolved token tree
+ * @throws Error if the tree has no token at the path
+ */
+function explainTreeToken(
+    tree: DesignTokenObject,
+    path: string,
+    options: TokenExplanationOptions
+): TokenExplanation {
+    const resolvedTokens = new Map<string, ResolveResult>()
+    const provenance = new Map<string, TokenProvenance>()
+    const diagnostics: Diagnostic[] = []
+    // Problems elsewhere in the tree must not hide the token
+    resolveReferences(tree, {
+        ...options,
+        diagnostics,
+        resolvedTokens,
+        provenance,
+    })
+
+    // A token whose references cannot be resolved is explained as written
+    const written = navigateToPath(tree, path.split("."))
+    const resolved =
+        resolvedTokens.get(path) ??
+        (isToken(written)
+            ? { value: written.$value, type: written.$type }
+            : undefined)
+    if (!resolved) {
+        throw new Error(`Token "${path}" is not defined`)
+    }
+
+    let declared: unknown
+    if (isToken(written)) {
+        declared = isJsonPointerReference(written)
+            ? { $ref: written.$ref }
+            : written.$value
+    }
+
+    const node = buildReferenceGraph(tree).nodes.get(path)
+
+    return {
+        path,
+        $type: resolved.type,
+        $value: resolved.value,
+        declared,
+        references: node?.dependencies ?? [],
+        referencedBy: node?.dependents ?? [],
+        definition: provenance.get(path),
+        diagnostics: diagnostics.filter(
+            (diagnostic) => diagnostic.path === path
+        ),
+    }
+}
+
+/**
+ * Explain a token of a design token document
+ *
+ * @param document - The design token document
+ * @param path - Dot path of the token, e.g. "color.text"
+ * @param options - Loading of referenced files, see TokenExplanationOptions
+ * @returns How the token is defined and resolved
+ * @throws Error if the document has no token at the path
+ *
+ * @example
+ * ```typescript
+ * explainToken(tokens, 'color.text');
+ * // { path: 'color.text', $type: 'color', $value: { colorSpace: 'srgb', ... },
+ * //   declared: '{color.black}', references: ['color.black'], ... }
+ * ```
+ */
+export function explainToken(
+    document: DesignTokenObject,
+    path: string,
+    options: TokenExplanationOptions = {}
+): TokenExplanation {
+    return explainTreeToken(document, path, options)
+}
+
+/**
+ * Explain a token of a resolver document, resolved for a set of inputs
+ *
+ * @param resolver - The resolver document
+ * @param path - Dot path of the token, e.g. "color.text"
+ * @param options - Inputs and loading of token files, see
+ * ResolvedTokenExplanationOptions
+ * @returns How the token is defined and resolved, with the sources that
+ * declared it
+ * @throws Error if the resolved tokens have no token at the path, or the
+ * resolver document cannot be resolved for the inputs
+ */
+export function explainResolvedToken(
+    resolver: ResolverDocument,
+    path: string,
+    options: ResolvedTokenExplanationOptions = {}
+): TokenExplanation {
+    const { inputs = {}, ...sourceOptions } = options
+    const sources = collectSources(resolver, inputs, sourceOptions)
+
+    const explanation = explainTreeToken(mergeSources(sources), path, {
+        documents: options.documents,
+    })
+    return {
+        ...explanation,
+        inputs,
+        sources: traceSources(sources).get(path),
+    }
+}
+
+/**
+ * Format a resolver source, e.g. "#/sets/base/sources/0 (base)"
+ */
+function formatSource(source: SourceOrigin): string {
+    const pointer =
+        source.file === undefined
+            ? source.pointer
+            : `${source.file}${source.pointer}`
+    const item =
+        source.context === undefined
+            ? source.name
+            : `${source.name}: ${source.context}`
+    return `${pointer} (${item})`
+}
+
+/**
+ * Format a token explanation as text, one fact per line
+ *
+ * @example
+ * ```
+ * color.text (theme=dark)
+ *   $type: color
+ *   $value: {"colorSpace":"srgb","components":[1,1,1]}
+ *   written as: "{color.white}"
+ *   references: color.white
+ *   source: #/modifiers/theme/contexts/dark/0 (theme: dark)
+ *   overrides: #/sets/base/sources/0 (base)
+ * ```
+ */
+export function formatTokenExplanation(explanation: TokenExplanation): string {
+    const inputs =
+        explanation.inputs && Object.keys(explanation.inputs).length > 0
+            ? ` (${formatPermutation(explanation.inputs)})`
+            : ""
+    const lines = [`${explanation.path}${inputs}`]
+    const add = (label: string, value: string) =>
+        lines.push(`  ${label}: ${value}`)
+
+    if (explanation.$type !== undefined) {
+        add("$type", explanation.$type)
+    }
+    add("$value", JSON.stringify(explanation.$value))
+    if (
+        explanation.declared !== undefined &&
+        JSON.stringify(explanation.declared) !==
+            JSON.stringify(explanation.$value)
+    ) {
+        add("written as", JSON.stringify(explanation.declared))
+    }
+    if (explanation.references.length > 0) {
+        add("references", explanation.references.join(", "))
+    }
+    if (explanation.referencedBy.length > 0) {
+        add("referenced by", explanation.referencedBy.join(", "))
+    }
+
+    const definition = explanation.definition
+    if (definition && definition.chain.length > 1) {
+        add("inherited through", definition.chain.join(" -> "))
+    }
+    if (
+        definition &&
+        (definition.origin !== explanation.path || definition.file)
+    ) {
+        const file = definition.file ? ` in ${definition.file}` : ""
+        add("defined at", `${definition.origin}${file}`)
+    }
+
+    if (explanation.sources) {
+        add("source", formatSource(explanation.sources.source))
+        for (const source of explanation.sources.overridden) {
+            add("overrides", formatSource(source))
+        }
+    }
+
+    for (const diagnostic of explanation.diagnostics) {
+        add(diagnostic.severity, formatDiagnostic(diagnostic))
+    }
+
+    return lines.join("\n")
+}
+
+export default {
+    explainToken,
+    explainResolvedToken,
+    formatTokenExplanation,
+}
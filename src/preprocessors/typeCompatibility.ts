@@ -0,0 +1,326 @@
+/**
+ * Design Token Type Compatibility Checker
+ *
+ * Checks that every alias points at a token of the type expected where the
+ * alias is used:
+ * - A token aliasing another token must have the same $type,
+ *   e.g. a "dimension" token cannot alias a "duration"
+ * - A reference inside a composite value must match the type of the property
+ *   it is used for, e.g. a shadow's color must reference a color
+ *
+ * Without this check such mismatches only surface when the resolved document
+ * is validated against the schema, as hard to read oneOf errors. The checker
+ * runs on the unresolved document, next to resolveReferences, and reports
+ * both the token path and the path of the referenced token.
+ *
+ * References that cannot be followed are ignored here; resolveReferences
+ * reports them.
+ */
+
+import { DiagnosticCollector } from "./diagnostics.js"
+import {
+    DocumentCache,
+    splitReference,
+    type DocumentLoader,
+} from "./documentLoader.js"
+import {
+    isCurlyBraceReference,
+    parseCurlyBraceReference,
+    parseJsonPointer,
+    resolveCurlyBraceReference,
+    resolveJsonPointerReference,
+    type ReferenceContext,
+} from "./referenceResolver.js"
+import { ResolutionCache } from "./resolutionCache.js"
+import type { DesignTokenObject, Diagnostic } from "./types.js"
+import { hasRefProperty } from "./types.js"
+import { isPlainObject, walkTokens } from "./utils.js"
+
+/**
+ * Expected types inside a composite value
+ */
+interface CompositeShape {
+    /** Expected type of each object property */
+    properties?: Record<string, string>
+    /** Expected type of each array item */
+    items?: string
+}
+
+/**
+ * Shapes of the composite types, keyed by type
+ *
+ * "gradient stop" and "dash array" are not token types: they describe parts
+ * of gradient and strokeStyle values, which can only be referenced through
+ * a JSON Pointer into another token of the same type.
+ */
+const COMPOSITE_SHAPES: Record<string, CompositeShape> = {
+    border: {
+        properties: {
+            color: "color",
+            width: "dimension",
+            style: "strokeStyle",
+        },
+    },
+    gradient: { items: "gradient stop" },
+    "gradient stop": { properties: { color: "color", position: "number" } },
+    shadow: {
+        // A shadow value is a shadow object or an array of them
+        properties: {
+            color: "color",
+            offsetX: "dimension",
+            offsetY: "dimension",
+            blur: "dimension",
+            spread: "dimension",
+        },
+        items: "shadow",
+    },
+    strokeStyle: { properties: { dashArray: "dash array" } },
+    "dash array": { items: "dimension" },
+    transition: {
+        properties: {
+            duration: "duration",
+            delay: "duration",
+            timingFunction: "cubicBezier",
+        },
+    },
+    typography: {
+        properties: {
+            fontFamily: "fontFamily",
+            fontSize: "dimension",
+            fontWeight: "fontWeight",
+            letterSpacing: "dimension",
+            lineHeight: "number",
+        },
+    },
+}
+
+/**
+ * Get the expected type of a part of a value
+ * @param type - The type of the value
+ * @param segments - Property names and array indices leading to the part
+ * @returns The expected type, or undefined if the part has no known type
+ */
+export function getSubValueType(
+    type: string | undefined,
+    segments: readonly string[]
+): string | undefined {
+    let current = type
+
+    for (const segment of segments) {
+        const shape =
+            current === undefined ? undefined : COMPOSITE_SHAPES[current]
+        if (!shape) {
+            return undefined
+        }
+        current = /^\d+$/.test(segment)
+            ? shape.items
+            : shape.properties?.[segment]
+    }
+
+    return current
+}
+
+/**
+ * Options for checkTypeCompatibility
+ */
+export interface TypeCompatibilityOptions {
+    /** Append problems to this array; a new array is used otherwise */
+    diagnostics?: Diagnostic[]
+    /** Location of the document, for references into other files */
+    location?: string
+    /** Loader for documents referenced by file */
+    loader?: DocumentLoader
+    /** Cache of loaded documents; takes precedence over loader */
+    documents?: DocumentCache
+}
+
+/**
+ * What a reference points to
+ */
+interface ReferencedToken {
+    /** Dot-separated path of the referenced token */
+    path: string
+    type: string | undefined
+}
+
+/**
+ * Find the path and type of the token a curly brace reference points to
+ * @returns The referenced token, or undefined if the reference cannot be followed
+ */
+function findAliasedToken(
+    root: DesignTokenObject,
+    reference: string,
+    context: ReferenceContext
+): ReferencedToken | undefined {
+    try {
+        return {
+            path: parseCurlyBraceReference(reference).join("."),
+            type: resolveCurlyBraceReference(
+                root,
+                reference,
+                new Set(),
+                context
+            )?.type,
+        }
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Find the path and type of the token a JSON Pointer reference points to
+ * Pointers into a composite value get the type of that part of the value,
+ * e.g. "#/border/$value/color" is a color.
+ * @returns The referenced token, or undefined if the reference cannot be followed
+ */
+function findPointedToken(
+    root: DesignTokenObject,
+    reference: string,
+    context: ReferenceContext
+): ReferencedToken | undefined {
+    let segments: string[]
+    try {
+        segments = parseJsonPointer(splitReference(reference).pointer)
+    } catch {
+        return undefined
+    }
+
+    const valueIndex = segments.indexOf("$value")
+    if (valueIndex === -1) {
+        return undefined
+    }
+
+    const path = segments.slice(0, valueIndex).join(".")
+    const subSegments = segments.slice(valueIndex + 1)
+    // Resolve the token the pointer goes through, then descend into its value
+    const valuePointer =
+        subSegments.length === 0
+            ? reference
+            : reference.slice(
+                  0,
+                  reference.indexOf("/$value/") + "/$value".length
+              )
+
+    try {
+        const token = resolveJsonPointerReference(
+            root,
+            valuePointer,
+            new Set(),
+            context
+        )
+        return { path, type: getSubValueType(token?.type, subSegments) }
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Check that references in a design token document point at tokens of the
+ * expected type
+ *
+ * @param obj - The design token object to check (the document root), with
+ * its references not yet resolved
+ * @param options - See TypeCompatibilityOptions
+ * @returns The diagnostics array, with a "type-mismatch" error per mismatch
+ *
+ * @example
+ * // { "gap": { "$type": "color", "$value": "{spacing.sm}" } } reports
+ * // gap: expected color, got dimension from {spacing.sm}
+ */
+export function checkTypeCompatibility(
+    obj: DesignTokenObject,
+    options: TypeCompatibilityOptions = {}
+): Diagnostic[] {
+    const documents = options.documents ?? new DocumentCache(options.loader)
+    if (options.location !== undefined) {
+        documents.register(options.location, obj)
+    }
+
+    const cache = new ResolutionCache()
+    const context: ReferenceContext = { documents, cache }
+    const collector = new DiagnosticCollector(
+        options.diagnostics,
+        options.location
+    )
+    const index = cache.indexOf(obj)
+
+    /**
+     * Check a value or part of a value against its expected type
+     */
+    function checkValue(
+        value: unknown,
+        expected: string | undefined,
+        tokenPath: string,
+        valuePath: string[]
+    ): void {
+        if (expected === undefined) {
+            return
+        }
+
+        let reference: string | undefined
+        let target: ReferencedToken | undefined
+        if (isCurlyBraceReference(value)) {
+            reference = value
+            target = findAliasedToken(obj, reference, context)
+        } else if (hasRefProperty(value)) {
+            reference = value.$ref
+            target = findPointedToken(obj, reference, context)
+        }
+
+        if (reference !== undefined) {
+            if (target?.type === undefined || target.type === expected) {
+                return
+            }
+
+            const location =
+                valuePath.length > 0 ? ` at $value.${valuePath.join(".")}` : ""
+            collector.add({
+                path: tokenPath,
+                code: "type-mismatch",
+                severity: "error",
+                message: `expected ${expected}, got ${target.type} from ${reference}${location}`,
+                reference,
+                target: target.path,
+                ...(collector.file !== undefined && { file: collector.file }),
+            })
+            return
+        }
+
+        if (Array.isArray(value)) {
+            value.forEach((item, i) =>
+                checkValue(
+                    item,
+                    getSubValueType(expected, [String(i)]),
+                    tokenPath,
+                    [...valuePath, String(i)]
+                )
+            )
+        } else if (isPlainObject(value)) {
+            for (const [key, item] of Object.entries(value)) {
+                checkValue(item, getSubValueType(expected, [key]), tokenPath, [
+                    ...valuePath,
+                    key,
+                ])
+            }
+        }
+    }
+
+    walkTokens(obj, (token, segments) => {
+        const type =
+            token.$type ?? index.getInheritedType(segments) ?? undefined
+        const tokenPath = segments.join(".")
+
+        if (hasRefProperty(token)) {
+            checkValue({ $ref: token.$ref }, type, tokenPath, [])
+        } else {
+            checkValue(token.$value, type, tokenPath, [])
+        }
+    })
+
+    return collector.diagnostics
+}
+
+export default {
+    checkTypeCompatibility,
+    getSubValueType,
+}
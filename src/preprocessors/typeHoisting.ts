@@ -0,0 +1,315 @@
+/**
+ * Design Token $type Hoisting Normalizer
+ *
+ * The inverse of processTypeInheritance: moves $type declarations up to the
+ * groups whose tokens share a type and removes redundant per-token $type
+ * properties, using as few declarations as possible. Every token keeps its
+ * effective type, so processTypeInheritance gives the same token types for
+ * the normalized document as for the original.
+ *
+ * Tokens without any effective type stay without one: no group above them
+ * gets a $type.
+ *
+ * Groups that $extends another group, and groups that are extended, are left
+ * unchanged (including everything inside them): the $type of an extended
+ * group is merged into the extending group, so moving it would change the
+ * types of merged tokens.
+ */
+
+import {
+    parseCurlyBraceReference,
+    parseJsonPointer,
+} from "./referenceResolver.js"
+import type { DesignTokenObject, Group, Token } from "./types.js"
+import { hasRefProperty } from "./types.js"
+import { isGroup, isToken, navigateToPath } from "./utils.js"
+
+/**
+ * The best $type placement for a group in a given context
+ */
+interface Placement {
+    /** Number of $type declarations in the group and its descendants */
+    cost: number
+    /** The $type the group declares, if any */
+    declaration: string | undefined
+}
+
+/**
+ * Copy an object with its $type set, or removed when type is undefined
+ * An existing $type keeps its position; a new one is added first.
+ */
+function withType<T extends object>(obj: T, type: string | undefined): T {
+    const { $type, ...rest } = obj as T & { $type?: unknown }
+    if (type === undefined) {
+        return rest as T
+    }
+    if ($type === undefined) {
+        return { $type: type, ...rest } as T
+    }
+    return Object.fromEntries(
+        Object.entries(obj).map(([key, value]) => [
+            key,
+            key === "$type" ? type : value,
+        ])
+    ) as T
+}
+
+/**
+ * Find the groups that $extends another group or are extended by one
+ * Only same-document extensions are considered.
+ */
+function collectExtendsGroups(
+    root: DesignTokenObject,
+    group: DesignTokenObject = root,
+    groups: Set<object> = new Set()
+): Set<object> {
+    const extendsRef = (group as Group).$extends
+    if (extendsRef !== undefined) {
+        groups.add(group)
+
+        let segments: string[] | undefined
+        try {
+            if (typeof extendsRef === "string" && extendsRef.startsWith("{")) {
+                segments = parseCurlyBraceReference(extendsRef)
+            } else if (
+                hasRefProperty(extendsRef) &&
+                extendsRef.$ref.startsWith("#")
+            ) {
+                segments = parseJsonPointer(extendsRef.$ref)
+            }
+        } catch {
+            // Malformed references are reported by resolveReferences
+        }
+
+        const target = segments && navigateToPath(root, segments)
+        if (isGroup(target)) {
+            groups.add(target)
+        }
+    }
+
+    for (const [key, value] of Object.entries(group)) {
+        if (!key.startsWith("$") && isGroup(value)) {
+            collectExtendsGroups(root, value, groups)
+        }
+    }
+
+    return groups
+}
+
+/**
+ * Plans and applies the minimal $type placement for one document
+ */
+class TypeHoister {
+    /** Effective type of every token, as processTypeInheritance computes it */
+    private readonly tokenTypes = new Map<Token, string | undefined>()
+    /** Type each group inherits from its ancestors in the original document */
+    private readonly inheritedTypes = new Map<object, string | undefined>()
+    /** Effective types of the tokens in each group, including descendants */
+    private readonly subtreeTypes = new Map<object, Set<string>>()
+    /** Whether a group's tokens take their type from the group's ancestors */
+    private readonly dependsOnContext = new Map<object, boolean>()
+    private readonly placements = new Map<
+        object,
+        Map<string | undefined, Placement>
+    >()
+    private readonly frozen: Set<object>
+
+    constructor(root: DesignTokenObject) {
+        this.frozen = collectExtendsGroups(root)
+        this.analyze(root, undefined)
+    }
+
+    /**
+     * Record effective types and context dependencies of a group
+     */
+    private analyze(group: DesignTokenObject, inherited: string | undefined) {
+        const ownType = (group as Group).$type
+        const current = typeof ownType === "string" ? ownType : inherited
+        const types = new Set<string>()
+        let depends = false
+
+        this.inheritedTypes.set(group, inherited)
+
+        for (const [key, value] of Object.entries(group)) {
+            if (key.startsWith("$")) {
+                continue
+            }
+
+            if (isToken(value)) {
+                const type = value.$type ?? current
+                this.tokenTypes.set(value, type)
+                if (type !== undefined) {
+                    types.add(type)
+                }
+                depends ||= value.$type === undefined
+            } else if (isGroup(value)) {
+                this.analyze(value, current)
+                for (const type of this.subtreeTypes.get(value)!) {
+                    types.add(type)
+                }
+                depends ||= this.dependsOnContext.get(value)!
+            }
+        }
+
+        this.subtreeTypes.set(group, types)
+        this.dependsOnContext.set(group, depends && ownType === undefined)
+    }
+
+    /**
+     * Minimal number of declarations for a token in a context
+     */
+    private tokenCost(token: Token, context: string | undefined): number {
+        const type = this.tokenTypes.get(token)
+        if (type === context) {
+            return 0
+        }
+        // An untyped token cannot be given back "no type" by its own $type
+        return type === undefined ? Infinity : 1
+    }
+
+    /**
+     * Find the best placement for a group whose parent provides context
+     */
+    private plan(
+        group: DesignTokenObject,
+        context: string | undefined
+    ): Placement {
+        let byContext = this.placements.get(group)
+        if (!byContext) {
+            byContext = new Map()
+            this.placements.set(group, byContext)
+        }
+
+        const cached = byContext.get(context)
+        if (cached) {
+            return cached
+        }
+
+        let best: Placement
+        if (this.frozen.has(group)) {
+            // Left as is: only valid where its tokens keep their types
+            const valid =
+                !this.dependsOnContext.get(group) ||
+                this.inheritedTypes.get(group) === context
+            best = { cost: valid ? 0 : Infinity, declaration: undefined }
+        } else {
+            // On equal cost, keep the declaration the group already has
+            const ownType = (group as Group).$type
+            const original = typeof ownType === "string" ? ownType : undefined
+            const candidates: Placement[] = [
+                {
+                    cost: this.childrenCost(group, context),
+                    declaration: undefined,
+                },
+            ]
+            for (const type of this.subtreeTypes.get(group)!) {
+                if (type !== context) {
+                    candidates.push({
+                        cost: 1 + this.childrenCost(group, type),
+                        declaration: type,
+                    })
+                }
+            }
+
+            best = candidates[0]
+            for (const candidate of candidates) {
+                if (
+                    candidate.cost < best.cost ||
+                    (candidate.cost === best.cost &&
+                        candidate.declaration === original)
+                ) {
+                    best = candidate
+                }
+            }
+        }
+
+        byContext.set(context, best)
+        return best
+    }
+
+    private childrenCost(
+        group: DesignTokenObject,
+        context: string | undefined
+    ): number {
+        let cost = 0
+        for (const [key, value] of Object.entries(group)) {
+            if (key.startsWith("$")) {
+                continue
+            }
+            if (isToken(value)) {
+                cost += this.tokenCost(value, context)
+            } else if (isGroup(value)) {
+                cost += this.plan(value, context).cost
+            }
+        }
+        return cost
+    }
+
+    /**
+     * Build a copy of a group with the planned $type placement
+     */
+    build(
+        group: DesignTokenObject,
+        context: string | undefined
+    ): DesignTokenObject {
+        if (this.frozen.has(group)) {
+            return structuredClone(group)
+        }
+
+        const { declaration } = this.plan(group, context)
+        const current = declaration ?? context
+        const result: Record<string, unknown> = {}
+
+        for (const [key, value] of Object.entries(
+            withType(group, declaration)
+        )) {
+            if (key.startsWith("$")) {
+                result[key] = value
+            } else if (isToken(value)) {
+                const type = this.tokenTypes.get(value)
+                result[key] = withType(
+                    value,
+                    type === current ? undefined : type
+                )
+            } else if (isGroup(value)) {
+                result[key] = this.build(value, current)
+            } else {
+                result[key] = value
+            }
+        }
+
+        return result
+    }
+}
+
+/**
+ * Move $type declarations up to groups and remove redundant ones
+ *
+ * @param obj - The design token object to normalize (the document root)
+ * @returns A new object where each group whose tokens share a type declares
+ * it once, with the fewest $type declarations that keep every token's
+ * effective type
+ *
+ * @example
+ * ```typescript
+ * const input = {
+ *   colors: {
+ *     primary: { $type: 'color', $value: { colorSpace: 'srgb', components: [0, 0.4, 0.8] } },
+ *     secondary: { $type: 'color', $value: { colorSpace: 'srgb', components: [1, 0, 0] } }
+ *   }
+ * };
+ *
+ * const output = hoistTypes(input);
+ * // output.colors.$type is 'color'; the tokens no longer declare $type
+ * ```
+ */
+export function hoistTypes(obj: DesignTokenObject): DesignTokenObject {
+    if (!obj || typeof obj !== "object") {
+        return obj
+    }
+    return new TypeHoister(obj).build(obj, undefined)
+}
+
+export default {
+    hoistTypes,
+}
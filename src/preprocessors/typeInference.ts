@@ -0,0 +1,200 @@
+/**
+ * Design Token Type Inference
+ *
+ * Infers the $type of a token from the shape of its $value, for documents
+ * exported by tools that omit $type altogether:
+ * - { colorSpace, components } -> color
+ * - { value, unit: "px" | "rem" } -> dimension
+ * - { value, unit: "ms" | "s" } -> duration
+ * - [x1, y1, x2, y2] -> cubicBezier
+ * - Objects with the properties of a composite type -> that type, e.g.
+ *   { color, width, style } -> border
+ * - Arrays of shadows or gradient stops -> shadow or gradient
+ * - Numbers -> number (and fontWeight for 100, 200, ... 900), strings and
+ *   arrays of strings -> fontFamily
+ *
+ * Some values fit several types: "bold" is a fontWeight keyword but also a
+ * valid font name, and 400 a number but also a numeric fontWeight. All
+ * candidates are returned; typeInheritance.ts reports such values as
+ * ambiguous rather than guessing, except numbers, which it infers as number
+ * with a warning.
+ */
+
+import { isCurlyBraceReference } from "./referenceResolver.js"
+import { hasRefProperty } from "./types.js"
+import { isPlainObject } from "./utils.js"
+
+/**
+ * Pre-defined fontWeight keywords
+ */
+const FONT_WEIGHT_KEYWORDS = new Set([
+    "thin",
+    "hairline",
+    "extra-light",
+    "ultra-light",
+    "light",
+    "normal",
+    "regular",
+    "book",
+    "medium",
+    "semi-bold",
+    "demi-bold",
+    "bold",
+    "extra-bold",
+    "ultra-bold",
+    "black",
+    "heavy",
+    "extra-black",
+    "ultra-black",
+])
+
+/**
+ * Numeric fontWeight values worth suggesting: the multiples of 100 that
+ * fontWeight keywords stand for, from thin (100) to black (900)
+ */
+const FONT_WEIGHT_STEP = 100
+const FONT_WEIGHT_MIN = 100
+const FONT_WEIGHT_MAX = 900
+
+/**
+ * Pre-defined strokeStyle keywords
+ */
+const STROKE_STYLE_KEYWORDS = new Set([
+    "solid",
+    "dashed",
+    "dotted",
+    "double",
+    "groove",
+    "ridge",
+    "outset",
+    "inset",
+])
+
+/**
+ * Required properties of the composite types whose value is an object
+ */
+const COMPOSITE_PROPERTIES: Record<string, string[]> = {
+    border: ["color", "width", "style"],
+    shadow: ["color", "offsetX", "offsetY", "blur", "spread"],
+    strokeStyle: ["dashArray", "lineCap"],
+    transition: ["duration", "delay", "timingFunction"],
+    typography: [
+        "fontFamily",
+        "fontSize",
+        "fontWeight",
+        "letterSpacing",
+        "lineHeight",
+    ],
+}
+
+/**
+ * Infer the types an object value could have
+ */
+function inferObjectTypes(value: Record<string, unknown>): string[] {
+    if ("colorSpace" in value && "components" in value) {
+        return ["color"]
+    }
+
+    if (typeof value.value === "number" && typeof value.unit === "string") {
+        if (value.unit === "px" || value.unit === "rem") {
+            return ["dimension"]
+        }
+        if (value.unit === "ms" || value.unit === "s") {
+            return ["duration"]
+        }
+        return []
+    }
+
+    return Object.entries(COMPOSITE_PROPERTIES)
+        .filter(([, properties]) =>
+            properties.every((property) => property in value)
+        )
+        .map(([type]) => type)
+}
+
+/**
+ * Infer the types an array value could have
+ */
+function inferArrayTypes(value: unknown[]): string[] {
+    if (value.length === 0) {
+        return []
+    }
+
+    if (
+        value.length === 4 &&
+        value.every((item) => typeof item === "number")
+    ) {
+        return ["cubicBezier"]
+    }
+
+    if (value.every((item) => typeof item === "string")) {
+        return ["fontFamily"]
+    }
+
+    if (
+        value.every(
+            (item) =>
+                isPlainObject(item) &&
+                inferObjectTypes(item).includes("shadow")
+        )
+    ) {
+        return ["shadow"]
+    }
+
+    if (
+        value.every(
+            (item) =>
+                isPlainObject(item) && "color" in item && "position" in item
+        )
+    ) {
+        return ["gradient"]
+    }
+
+    return []
+}
+
+/**
+ * Infer the types a token value could have from its shape
+ * @param value - The token's $value, with references already resolved
+ * @returns The candidate types: none if the shape is not recognised, one if
+ * the type can be inferred, several if the value is ambiguous, the most
+ * likely first
+ */
+export function inferValueTypes(value: unknown): string[] {
+    // The type of an alias comes from the token it references
+    if (isCurlyBraceReference(value) || hasRefProperty(value)) {
+        return []
+    }
+
+    if (typeof value === "number") {
+        return value % FONT_WEIGHT_STEP === 0 &&
+            value >= FONT_WEIGHT_MIN &&
+            value <= FONT_WEIGHT_MAX
+            ? ["number", "fontWeight"]
+            : ["number"]
+    }
+
+    if (typeof value === "string") {
+        if (FONT_WEIGHT_KEYWORDS.has(value)) {
+            return ["fontWeight", "fontFamily"]
+        }
+        if (STROKE_STYLE_KEYWORDS.has(value)) {
+            return ["strokeStyle", "fontFamily"]
+        }
+        return ["fontFamily"]
+    }
+
+    if (Array.isArray(value)) {
+        return inferArrayTypes(value)
+    }
+
+    if (isPlainObject(value)) {
+        return inferObjectTypes(value)
+    }
+
+    return []
+}
+
+export default {
+    inferValueTypes,
+}
@@ -0,0 +1,233 @@
+/**
+ * Design Token $type Inheritance Preprocessor
+ *
+ * This module provides functionality to process design token objects and add
+ * explicit $type properties to tokens that inherit their type from parent groups.
+ *
+ * According to the DTCG specification, tokens inherit $type from their closest
+ * parent group if they don't have an explicit $type property.
+ *
+ * Tokens with neither can optionally get a type inferred from the shape of
+ * their value (see typeInference.ts). A number that could also be a numeric
+ * fontWeight, like 400, is inferred as number with a warning; other values
+ * that fit several types are errors.
+ *
+ * $deprecated is inherited the same way: a token without its own $deprecated
+ * gets the one of its closest parent group that declares it, so a group can
+ * deprecate all its tokens and a nested group can opt back out with false.
+ */
+
+import { DiagnosticCollector, DiagnosticError } from "./diagnostics.js"
+import { inferValueTypes } from "./typeInference.js"
+import type { DesignTokenObject, Diagnostic, Group, Token } from "./types.js"
+import { isDeprecationValue, isGroup, isToken } from "./utils.js"
+
+/**
+ * Options for processTypeInheritance
+ */
+export interface TypeInheritanceOptions {
+    /**
+     * Infer the type of tokens that have no $type and no inherited type from
+     * the shape of their $value, e.g. { value: 4, unit: "px" } is a dimension
+     */
+    inferTypes?: boolean
+    /**
+     * When provided, filled with the type inferred for each token, keyed by
+     * dot-separated token path
+     */
+    inferredTypes?: Map<string, string>
+    /**
+     * When provided, tokens left without a type are reported here instead of
+     * throwing, and left without $type
+     */
+    diagnostics?: Diagnostic[]
+}
+
+/**
+ * Process design tokens recursively, adding inherited $type properties
+ *
+ * This function walks through a design token object and adds explicit $type
+ * properties to tokens that would otherwise inherit their type from parent groups,
+ * and explicit $deprecated properties to tokens in deprecated groups.
+ * This makes the tokens ready for JSON Schema validation which cannot validate
+ * based on types set on parent objects.
+ *
+ * @param obj - The design token object to process (can be a root object, group, or token)
+ * @param options - Type inference and diagnostics, see TypeInheritanceOptions
+ * @returns A new object with explicit $type on all tokens, and explicit
+ * $deprecated on all tokens a group's $deprecated applies to
+ *
+ * @example
+ * ```typescript
+ * const input = {
+ *   colors: {
+ *     $type: 'color',
+ *     primary: {
+ *       $value: { colorSpace: 'srgb', components: [0, 0.4, 0.8] }
+ *     }
+ *   }
+ * };
+ *
+ * const output = processTypeInheritance(input);
+ * // output.colors.primary now has explicit $type: 'color'
+ * ```
+ */
+export function processTypeInheritance(
+    obj: DesignTokenObject,
+    options: TypeInheritanceOptions = {}
+): DesignTokenObject {
+    const collector = options.diagnostics
+        ? new DiagnosticCollector(options.diagnostics)
+        : undefined
+    return inheritTypes(obj, null, undefined, [], options, collector)
+}
+
+/**
+ * Find the type of a token that has no $type and no inherited type
+ * @param warn - Called with the warning when a number could also be a
+ * fontWeight
+ * @throws DiagnosticError if no single type can be inferred
+ */
+function inferTokenType(
+    token: Token,
+    key: string,
+    options: TypeInheritanceOptions,
+    warn: (warning: DiagnosticError) => void
+): string {
+    if (!options.inferTypes) {
+        throw new DiagnosticError(
+            "missing-type",
+            `Token "${key}" has no $type and no inherited type from parent groups`
+        )
+    }
+
+    const candidates = inferValueTypes(token.$value)
+
+    if (candidates.length === 0) {
+        throw new DiagnosticError(
+            "missing-type",
+            `Token "${key}" has no $type, no inherited type from parent groups and a value whose type cannot be inferred`
+        )
+    }
+
+    // Numbers are far more often plain numbers than font weights
+    if (candidates.length > 1 && candidates[0] === "number") {
+        warn(
+            new DiagnosticError(
+                "ambiguous-type",
+                `Token "${key}" has no $type; its value was inferred as number but could also be ${candidates.slice(1).join(" or ")}`
+            )
+        )
+        return "number"
+    }
+
+    if (candidates.length > 1) {
+        throw new DiagnosticError(
+            "ambiguous-type",
+            `Token "${key}" has no $type and its value could be any of: ${candidates.join(
+                ", "
+            )}`
+        )
+    }
+
+    return candidates[0]
+}
+
+/**
+ * Add inherited or inferred $type properties, and inherited $deprecated
+ * properties, to the tokens of a group
+ * @param inheritedType - The $type inherited from parent groups
+ * @param inheritedDeprecation - The $deprecated inherited from parent groups
+ * @param segments - Path segments of the group
+ */
+function inheritTypes(
+    obj: DesignTokenObject,
+    inheritedType: string | null,
+    inheritedDeprecation: boolean | string | undefined,
+    segments: string[],
+    options: TypeInheritanceOptions,
+    collector: DiagnosticCollector | undefined
+): DesignTokenObject {
+    if (!obj || typeof obj !== "object") {
+        return obj
+    }
+
+    // Create a new object to avoid mutations
+    const processed: Record<string, unknown> = {}
+
+    // Check if this object defines a $type at this level
+    const currentType = (obj as Group).$type || inheritedType
+    const ownDeprecation = (obj as Group).$deprecated
+    const currentDeprecation = isDeprecationValue(ownDeprecation)
+        ? ownDeprecation
+        : inheritedDeprecation
+
+    // Process each property
+    for (const [key, value] of Object.entries(obj)) {
+        if (key.startsWith("$")) {
+            // Copy all $ properties as-is
+            processed[key] = value
+        } else if (isToken(value)) {
+            // This is a token - add inherited $type if not already present
+            const token = { ...value }
+
+            if (!token.$type && currentType) {
+                // Add the inherited type
+                token.$type = currentType
+            } else if (!token.$type) {
+                // Token has no type and no inherited type - infer it if enabled
+                const path = [...segments, key].join(".")
+                try {
+                    token.$type = inferTokenType(
+                        token,
+                        key,
+                        options,
+                        (warning) =>
+                            collector?.addError(path, warning, "warning")
+                    )
+                    options.inferredTypes?.set(path, token.$type)
+                } catch (error) {
+                    if (!collector) throw error
+                    collector.addError(path, error)
+                }
+            }
+
+            if (
+                token.$deprecated === undefined &&
+                currentDeprecation !== undefined
+            ) {
+                token.$deprecated = currentDeprecation
+            }
+
+            processed[key] = token
+        } else if (isGroup(value)) {
+            // This is a group - process recursively with current type context
+            processed[key] = inheritTypes(
+                value,
+                currentType,
+                currentDeprecation,
+                [...segments, key],
+                options,
+                collector
+            )
+        } else {
+            // Other values (primitives, etc.) - copy as-is
+            processed[key] = value
+        }
+    }
+
+    return processed
+}
+
+/**
+ * Alias for processTypeInheritance for convenience
+ */
+export const addTypeInheritance = processTypeInheritance
+
+/**
+ * Default export
+ */
+export default {
+    processTypeInheritance,
+    addTypeInheritance,
+}
@@ -0,0 +1,271 @@
+/**
+ * Resolver Type Stability Checker
+ *
+ * Sets and modifier contexts of a resolver document each declare tokens, and
+ * the declarations are merged. A token path should mean the same thing
+ * whichever inputs are chosen:
+ * - Every declaration of a token path has the same effective $type, e.g.
+ *   color.background is not a color in the light context and a dimension in
+ *   the dark one
+ * - A token path is declared either as a token or as a group, never both,
+ *   e.g. a later set does not replace a token with a group
+ *
+ * Effective types are computed as processTypeInheritance does: a token's own
+ * $type, else the $type of the nearest group in its source, else the type it
+ * gets in the resolved tokens (from groups in other sources, aliases or
+ * inference).
+ *
+ * Every context of every modifier used in resolutionOrder is resolved once,
+ * with the other modifiers on their default (or first) context, so each set
+ * and context is checked without resolving every permutation.
+ */
+
+import { DiagnosticCollector } from "./diagnostics.js"
+import { DocumentCache } from "./documentLoader.js"
+import {
+    formatFragmentPointer,
+    formatPointer,
+    parseFragmentPointer,
+} from "./jsonPointer.js"
+import {
+    collectSources,
+    resolve,
+    type ResolvedSource,
+    type SourceOptions,
+} from "./resolverEngine.js"
+import { findUsedModifiers } from "./resolverValidator.js"
+import type {
+    DesignTokenObject,
+    Diagnostic,
+    Group,
+    ResolverDocument,
+    ResolverInputs,
+} from "./types.js"
+import { isGroup, isToken, navigateToPath } from "./utils.js"
+
+/**
+ * Options for checkTypeStability
+ */
+export interface TypeStabilityOptions extends SourceOptions {
+    /** Append problems to this array; a new array is used otherwise */
+    diagnostics?: Diagnostic[]
+}
+
+/**
+ * A token or group declared by a source
+ */
+interface Declaration {
+    kind: "token" | "group"
+    /** Effective $type, for tokens that have one */
+    type?: string
+    /** Location of the token file, undefined for inline sources */
+    file?: string
+    /**
+     * Path of the declaration in its file, or in the resolver document for
+     * inline sources, e.g. ["sets", "base", "sources", "0", "color"]
+     */
+    segments: string[]
+}
+
+/**
+ * List the inputs that select every context of every used modifier at least
+ * once, the other modifiers keeping their default or first context
+ */
+function listCoveringInputs(resolver: ResolverDocument): ResolverInputs[] {
+    const modifiers = findUsedModifiers(resolver)
+    const defaults: ResolverInputs = Object.fromEntries(
+        modifiers.map(({ name, modifier }) => [
+            name,
+            modifier.default ?? Object.keys(modifier.contexts)[0],
+        ])
+    )
+
+    const inputs = new Map<string, ResolverInputs>([
+        [JSON.stringify(defaults), defaults],
+    ])
+    for (const { name, modifier } of modifiers) {
+        for (const context of Object.keys(modifier.contexts)) {
+            const selected = { ...defaults, [name]: context }
+            inputs.set(JSON.stringify(selected), selected)
+        }
+    }
+    return Array.from(inputs.values())
+}
+
+/**
+ * Format where a declaration is written, e.g.
+ * "tokens/base.json#/color" or "#/sets/base/sources/0/color"
+ */
+function formatLocation({ file, segments }: Declaration): string {
+    return `${file ?? ""}${formatFragmentPointer(segments)}`
+}
+
+/**
+ * Record the tokens and groups a source declares
+ * @param resolved - The resolved tokens of the inputs the source is selected
+ * for, to find types the source does not declare
+ */
+function collectDeclarations(
+    source: ResolvedSource,
+    resolved: DesignTokenObject,
+    declarations: Map<string, Map<string, Declaration>>
+): void {
+    const sourceSegments = parseFragmentPointer(source.pointer)
+    const record = (segments: string[], declaration: Declaration) => {
+        const path = segments.join(".")
+        let byKey = declarations.get(path)
+        if (!byKey) {
+            byKey = new Map()
+            declarations.set(path, byKey)
+        }
+        const { kind, type } = declaration
+        byKey.set(
+            `${kind} ${type} ${formatLocation(declaration)}`,
+            declaration
+        )
+    }
+
+    const walk = (
+        group: DesignTokenObject,
+        inherited: string | undefined,
+        segments: string[]
+    ) => {
+        for (const [key, value] of Object.entries(group)) {
+            if (key.startsWith("$")) {
+                continue
+            }
+
+            const path = [...segments, key]
+            const location = {
+                file: source.file,
+                segments: [...sourceSegments, ...path],
+            }
+            if (isToken(value)) {
+                const target = navigateToPath(resolved, path)
+                const resolvedType = isToken(target) ? target.$type : undefined
+                record(path, {
+                    kind: "token",
+                    type: value.$type ?? inherited ?? resolvedType,
+                    ...location,
+                })
+            } else if (isGroup(value)) {
+                record(path, { kind: "group", ...location })
+                const ownType = (value as Group).$type
+                walk(
+                    value,
+                    typeof ownType === "string" ? ownType : inherited,
+                    path
+                )
+            }
+        }
+    }
+
+    const rootType = (source.tokens as Group).$type
+    walk(
+        source.tokens,
+        typeof rootType === "string" ? rootType : undefined,
+        []
+    )
+}
+
+/**
+ * Check that every token path of a resolver document keeps the same
+ * effective $type, and stays a token, across all sets and modifier contexts
+ *
+ * @param resolver - The resolver document
+ * @param options - See TypeStabilityOptions
+ * @returns The diagnostics array, with an "unstable-type" error per token
+ * path with several types and a "token-group-conflict" error per path that
+ * is both a token and a group, listing every conflicting location; each is
+ * located at the first declaration with another type, or the first token
+ * @throws DiagnosticError or Error if the resolver document cannot be
+ * resolved, see collectSources
+ *
+ * @example
+ * // color.background: color in the light context, dimension in the dark one
+ * // color.background: has different types: color at
+ * // #/modifiers/theme/contexts/light/0/color/background; dimension at
+ * // #/modifiers/theme/contexts/dark/0/color/background
+ */
+export function checkTypeStability(
+    resolver: ResolverDocument,
+    options: TypeStabilityOptions = {}
+): Diagnostic[] {
+    const collector = new DiagnosticCollector(
+        options.diagnostics,
+        options.location
+    )
+    // Load each token file once across inputs
+    const documents =
+        options.documents ?? new DocumentCache(options.loader, options.rootDir)
+    const declarations = new Map<string, Map<string, Declaration>>()
+
+    for (const inputs of listCoveringInputs(resolver)) {
+        const sourceOptions = { ...options, documents }
+        // Problems in the tokens themselves are for other checks to report
+        const resolved = resolve(resolver, inputs, {
+            ...sourceOptions,
+            diagnostics: [],
+        })
+        for (const source of collectSources(resolver, inputs, sourceOptions)) {
+            collectDeclarations(source, resolved, declarations)
+        }
+    }
+
+    // Problems are located at a declaration: in its token file, or in the
+    // resolver document for inline sources
+    const locate = ({ file = collector.file, segments }: Declaration) => ({
+        pointer: formatPointer(segments),
+        ...(file !== undefined && { file }),
+    })
+
+    for (const [path, byKey] of declarations) {
+        const all = Array.from(byKey.values())
+        const tokens = all.filter(({ kind }) => kind === "token")
+        const groups = all.filter(({ kind }) => kind === "group")
+
+        if (tokens.length > 0 && groups.length > 0) {
+            const locations = (list: Declaration[]) =>
+                Array.from(new Set(list.map(formatLocation))).join(", ")
+            collector.add({
+                path,
+                code: "token-group-conflict",
+                severity: "error",
+                message: `is a token at ${locations(tokens)} and a group at ${locations(groups)}`,
+                ...locate(tokens[0]),
+            })
+        }
+
+        const byType = new Map<string, Declaration[]>()
+        for (const token of tokens) {
+            if (token.type !== undefined) {
+                byType.set(token.type, [
+                    ...(byType.get(token.type) ?? []),
+                    token,
+                ])
+            }
+        }
+        if (byType.size > 1) {
+            const types = Array.from(
+                byType,
+                ([type, list]) =>
+                    `${type} at ${list.map(formatLocation).join(", ")}`
+            )
+            // The first declaration that changes the type
+            const [, [changed]] = Array.from(byType.values())
+            collector.add({
+                path,
+                code: "unstable-type",
+                severity: "error",
+                message: `has different types: ${types.join("; ")}`,
+                ...locate(changed),
+            })
+        }
+    }
+
+    return collector.diagnostics
+}
+
+export default {
+    checkTypeStability,
+}
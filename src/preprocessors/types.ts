@@ -0,0 +1,222 @@
+/**
+ * Shared type definitions for design token preprocessors
+ */
+
+/**
+ * A design token object with either $value or $ref
+ */
+export interface Token {
+    $value?: unknown
+    $ref?: string
+    $type?: string
+    $deprecated?: boolean | string
+    [key: string]: unknown
+}
+
+/**
+ * A design token group object
+ */
+export interface Group {
+    $type?: string
+    $description?: string
+    $extensions?: Record<string, unknown>
+    $deprecated?: boolean | string
+    $extends?: string
+    [key: string]: unknown
+}
+
+/**
+ * Generic design token object (can be a token or group)
+ */
+export type DesignTokenObject = Token | Group | Record<string, unknown>
+
+/**
+ * Result of a reference resolution
+ */
+export interface ResolveResult {
+    value: unknown
+    type?: string
+}
+
+/**
+ * Where the definition of a resolved token came from
+ */
+export interface TokenProvenance {
+    /** Dot-separated path where the winning definition is written */
+    origin: string
+    /** Location of the document the origin is in, when it is another file */
+    file?: string
+    /**
+     * Token paths the definition was inherited through via $extends, from the
+     * token itself to the origin. Only the token's own path when it is
+     * defined locally.
+     */
+    chain: string[]
+    /** Whether the definition replaced a token inherited through $extends */
+    overridden: boolean
+    /** Origin of the inherited token that was replaced, when overridden */
+    overrides?: string
+}
+
+/**
+ * A token source of a resolver document, as selected for a set of inputs
+ */
+export interface SourceOrigin {
+    /**
+     * JSON Pointer to the tokens in the resolver document, e.g.
+     * "#/sets/base/sources/0", or in the token file they were loaded from
+     */
+    pointer: string
+    /** Location of the token file, for sources loaded from a file */
+    file?: string
+    /** Position of the source among the selected sources, in merge order */
+    index: number
+    /** Name of the resolutionOrder set or modifier the source belongs to */
+    name: string
+    /** Context selected for the modifier, for sources of a modifier */
+    context?: string
+}
+
+/**
+ * Which resolver sources declared a token
+ */
+export interface SourceProvenance {
+    /** The source whose declaration was merged into the result */
+    source: SourceOrigin
+    /** Earlier sources whose declarations it replaced, in merge order */
+    overridden: SourceOrigin[]
+}
+
+/**
+ * An object with a $ref property for JSON Pointer references
+ */
+export interface RefObject {
+    $ref: string
+    [key: string]: unknown
+}
+
+/**
+ * Type guard to check if an object has a $ref property
+ */
+export function hasRefProperty(obj: unknown): obj is RefObject {
+    return (
+        obj !== null &&
+        typeof obj === "object" &&
+        "$ref" in obj &&
+        typeof (obj as Record<string, unknown>).$ref === "string"
+    )
+}
+
+/**
+ * A token source in a set or modifier context: inline tokens, or a reference
+ * to a set or a token file
+ */
+export type TokenSource = RefObject | DesignTokenObject
+
+/**
+ * A set in a resolver document
+ */
+export interface ResolverSet {
+    description?: string
+    sources: TokenSource[]
+    $extensions?: Record<string, unknown>
+}
+
+/**
+ * A modifier in a resolver document
+ */
+export interface ResolverModifier {
+    description?: string
+    /** Token sources of each context, keyed by context name */
+    contexts: Record<string, TokenSource[]>
+    /** Context used when no input is given for the modifier */
+    default?: string
+    $extensions?: Record<string, unknown>
+}
+
+/**
+ * An item of a resolver document's resolutionOrder: a reference to a set or
+ * modifier, or an inline set or modifier
+ */
+export type ResolutionOrderItem =
+    | RefObject
+    | (ResolverSet & { type: "set"; name: string })
+    | (ResolverModifier & { type: "modifier"; name: string })
+
+/**
+ * A resolver document
+ */
+export interface ResolverDocument {
+    name?: string
+    version: string
+    description?: string
+    sets?: Record<string, ResolverSet>
+    modifiers?: Record<string, ResolverModifier>
+    resolutionOrder: ResolutionOrderItem[]
+    $defs?: Record<string, unknown>
+}
+
+/**
+ * Inputs of a resolver: the selected context of each modifier, keyed by
+ * modifier name, e.g. { theme: "dark" }
+ */
+export type ResolverInputs = Record<string, string>
+
+/**
+ * Severity of a preprocessing diagnostic
+ */
+export type DiagnosticSeverity = "error" | "warning"
+
+/**
+ * Machine-readable identifier for the kind of problem a diagnostic describes
+ */
+export type DiagnosticCode =
+    | "circular-reference"
+    | "unresolved-reference"
+    | "invalid-reference"
+    | "pointer-to-token"
+    | "conflicting-ref-and-value"
+    | "circular-extends"
+    | "unresolved-extends"
+    | "invalid-extends"
+    | "extends-not-group"
+    | "unresolved-document"
+    | "invalid-pointer"
+    | "missing-type"
+    | "ambiguous-type"
+    | "type-mismatch"
+    | "deprecated-reference"
+    | "duplicate-name"
+    | "invalid-default"
+    | "unknown-modifier"
+    | "unknown-context"
+    | "missing-input"
+    | "outside-root"
+    | "invalid-document"
+    | "unstable-type"
+    | "token-group-conflict"
+
+/**
+ * A structured problem found while preprocessing a design token document
+ */
+export interface Diagnostic {
+    /**
+     * Dot-separated path of the token or group the problem belongs to, or a
+     * JSON Pointer for problems in resolver documents
+     */
+    path: string
+    code: DiagnosticCode
+    severity: DiagnosticSeverity
+    message: string
+    /** The reference that could not be followed, when applicable */
+    reference?: string
+    /** Dot-separated path of the token the reference points to */
+    target?: string
+    /** Location of the document the failing reference was written in */
+    file?: string
+    /**
+     * JSON Pointer to where the problem is written, in file or else in the
+     * checked document, when path does not lead there
+     */
+    pointer?: string
+}
@@ -70,8 +70,8 @@ export function resolveInheritedType(
     root: DesignTokenObject,
     segments: readonly string[]
 ): string | undefined {
-    // Walk up the path to find inherited type
-    for (let i = segments.length - 1; i > 0; i--) {
+    // Walk up the path to find inherited type, including the document root
+    for (let i = segments.length - 1; i >= 0; i--) {
         const parentSegments = segments.slice(0, i)
         const parent = navigateToPath(root, parentSegments)
 
@@ -86,6 +86,36 @@ export function resolveInheritedType(
     return undefined
 }
 
+/**
+ * Check if a value is a valid $deprecated value (a boolean or a message)
+ */
+export function isDeprecationValue(value: unknown): value is boolean | string {
+    return typeof value === "boolean" || typeof value === "string"
+}
+
+/**
+ * Resolve the $deprecated that applies to a token or group: its own, or the
+ * closest one declared by its parent groups
+ * @param root - The root object to search in
+ * @param segments - Path segments to the token or group
+ * @returns The $deprecated value (true or a message if deprecated, false if
+ * explicitly not deprecated), or undefined if none applies
+ */
+export function resolveDeprecation(
+    root: DesignTokenObject,
+    segments: readonly string[]
+): boolean | string | undefined {
+    for (let i = segments.length; i >= 0; i--) {
+        const node = navigateToPath(root, segments.slice(0, i))
+
+        if (isPlainObject(node) && isDeprecationValue(node.$deprecated)) {
+            return node.$deprecated
+        }
+    }
+
+    return undefined
+}
+
 /**
  * Check if a value is a plain object (not null, not array)
  */
@@ -96,3 +126,28 @@ export function isPlainObject(
         value !== null && typeof value === "object" && !Array.isArray(value)
     )
 }
+
+/**
+ * Visit every token in a design token object, depth first in document order
+ * Groups are descended into; $-prefixed properties are not
+ * @param obj - The design token object to walk (usually the document root)
+ * @param visit - Called with each token and the path segments leading to it
+ * @param segments - Path segments of obj itself (internal use)
+ */
+export function walkTokens(
+    obj: DesignTokenObject,
+    visit: (token: Token, segments: string[]) => void,
+    segments: string[] = []
+): void {
+    for (const [key, value] of Object.entries(obj)) {
+        if (key.startsWith("$")) {
+            continue
+        }
+
+        if (isToken(value)) {
+            visit(value, [...segments, key])
+        } else if (isGroup(value)) {
+            walkTokens(value, visit, [...segments, key])
+        }
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * Validation Reporters
+ *
+ * Render the validation results of a set of files for people and tools:
+ * - text: a line per file with its errors, for terminals
+ * - json: a stable JSON document, for scripts
+ * - sarif: a SARIF 2.1.0 log, for code scanning
+ * - junit: JUnit XML with a test case per file or per token, for test
+ *   dashboards
+ *
+ * A reporter is a function from FileReport[] to a string, so other formats
+ * can be added without changing the validation.
+ */
+
+import { jsonReporter } from "./json.js"
+import { junitReporter } from "./junit.js"
+import { sarifReporter } from "./sarif.js"
+import { textReporter } from "./text.js"
+import type { Reporter } from "./types.js"
+
+export * from "./json.js"
+export * from "./junit.js"
+export * from "./sarif.js"
+export * from "./text.js"
+export * from "./types.js"
+
+/**
+ * Name of a built-in reporter
+ */
+export type ReporterFormat = "text" | "json" | "sarif" | "junit"
+
+/**
+ * The built-in reporters, keyed by name
+ */
+export const REPORTERS: Record<ReporterFormat, Reporter> = {
+    text: textReporter,
+    json: jsonReporter,
+    sarif: sarifReporter,
+    junit: junitReporter,
+}
+
+/**
+ * Check if a name is the name of a built-in reporter
+ */
+export function isReporterFormat(name: string): name is ReporterFormat {
+    return Object.keys(REPORTERS).includes(name)
+}
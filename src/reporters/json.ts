@@ -0,0 +1,84 @@
+/**
+ * JSON Reporter
+ *
+ * Reports validation results as JSON for other tools. The output is stable:
+ * its format is versioned, properties always come in the same order and
+ * properties without a value are left out.
+ *
+ * @example
+ * ```json
+ * {
+ *     "version": 1,
+ *     "valid": false,
+ *     "summary": { "files": 1, "invalid": 1, "errors": 1, "warnings": 0 },
+ *     "files": [
+ *         {
+ *             "file": "tokens/theme.json",
+ *             "valid": false,
+ *             "issues": [
+ *                 {
+ *                     "severity": "error",
+ *                     "code": "unresolved-reference",
+ *                     "message": "Curly brace reference \"{color.none}\" does not point to a valid token",
+ *                     "pointer": "/color/text",
+ *                     "path": "color.text"
+ *                 }
+ *             ]
+ *         }
+ *     ]
+ * }
+ * ```
+ */
+
+import type { ValidationIssue } from "../schemas.js"
+import type { Reporter } from "./types.js"
+
+/**
+ * Version of the report format, increased on incompatible changes
+ */
+export const JSON_REPORT_VERSION = 1
+
+/**
+ * Copy an issue with its properties in report order
+ */
+function toReportIssue(issue: ValidationIssue): ValidationIssue {
+    return {
+        severity: issue.severity,
+        code: issue.code,
+        keyword: issue.keyword,
+        message: issue.message,
+        pointer: issue.pointer,
+        path: issue.path,
+        file: issue.file,
+        line: issue.line,
+        column: issue.column,
+    }
+}
+
+/**
+ * Report validation results as JSON
+ */
+export const jsonReporter: Reporter = (reports) => {
+    const issues = reports.flatMap((report) => report.result.issues)
+    const errors = issues.filter((issue) => issue.severity === "error")
+
+    const report = {
+        version: JSON_REPORT_VERSION,
+        valid: reports.every((report) => report.result.valid),
+        summary: {
+            files: reports.length,
+            invalid: reports.filter((report) => !report.result.valid).length,
+            errors: errors.length,
+            warnings: issues.length - errors.length,
+        },
+        files: reports.map(({ file, result }) => ({
+            file,
+            valid: result.valid,
+            issues: result.issues.map(toReportIssue),
+        })),
+    }
+
+    return JSON.stringify(report, null, 4)
+}
+
+export default jsonReporter
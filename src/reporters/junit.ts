@@ -0,0 +1,180 @@
+/**
+ * JUnit Reporter
+ *
+ * Reports validation results as JUnit XML, the format test dashboards read.
+ * By default every file is a test case, failing with its errors. With
+ * testCases "token", every file is a test suite with a test case per token
+ * and a "(document)" test case for the problems that belong to no token.
+ * Warnings do not fail test cases; they are written to system-out.
+ *
+ * @example
+ * ```xml
+ * <?xml version="1.0" encoding="UTF-8"?>
+ * <testsuites name="dtcg" tests="1" failures="1">
+ *   <testsuite name="dtcg" tests="1" failures="1">
+ *     <testcase name="tokens/theme.json" classname="dtcg">
+ *       <failure message="..." type="unresolved-reference">...</failure>
+ *     </testcase>
+ *   </testsuite>
+ * </testsuites>
+ * ```
+ */
+
+import { formatIssueAt, type ValidationIssue } from "../schemas.js"
+import type { FileReport, Reporter } from "./types.js"
+
+const SUITE_NAME = "dtcg"
+
+/**
+ * Name of the test case for problems that belong to no token
+ */
+const DOCUMENT_CASE = "(document)"
+
+/**
+ * A test case: a name and the issues found for it
+ */
+interface TestCase {
+    name: string
+    classname: string
+    /** The file the issues were found in */
+    file: string
+    issues: ValidationIssue[]
+}
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;")
+}
+
+/**
+ * Check if a test case fails
+ */
+function fails(testCase: TestCase): boolean {
+    return testCase.issues.some((issue) => issue.severity === "error")
+}
+
+/**
+ * Split the issues of a file into a test case per token and one for the rest
+ */
+function tokenTestCases(report: FileReport): TestCase[] {
+    const byToken = new Map<string, ValidationIssue[]>()
+    for (const token of report.tokens ?? []) {
+        byToken.set(token, [])
+    }
+
+    const documentIssues: ValidationIssue[] = []
+    for (const issue of report.result.issues) {
+        const tokenIssues = issue.path && byToken.get(issue.path)
+        if (tokenIssues) {
+            tokenIssues.push(issue)
+        } else {
+            documentIssues.push(issue)
+        }
+    }
+
+    return [
+        {
+            name: DOCUMENT_CASE,
+            classname: report.file,
+            file: report.file,
+            issues: documentIssues,
+        },
+        ...Array.from(byToken, ([name, issues]) => ({
+            name,
+            classname: report.file,
+            file: report.file,
+            issues,
+        })),
+    ]
+}
+
+/**
+ * Format a test case as XML lines
+ */
+function formatTestCase(testCase: TestCase, indent: string): string[] {
+    const errors = testCase.issues.filter(
+        (issue) => issue.severity === "error"
+    )
+    const warnings = testCase.issues.filter(
+        (issue) => issue.severity === "warning"
+    )
+    const open = `${indent}<testcase name="${escapeXml(testCase.name)}" classname="${escapeXml(testCase.classname)}"`
+    if (errors.length === 0 && warnings.length === 0) {
+        return [`${open}/>`]
+    }
+
+    const format = (issue: ValidationIssue) =>
+        formatIssueAt(issue, testCase.file)
+    const lines = [`${open}>`]
+    if (errors.length > 0) {
+        const type = errors[0].code ? ` type="${errors[0].code}"` : ""
+        const message = escapeXml(format(errors[0]))
+        const details = escapeXml(errors.map(format).join("\n"))
+        lines.push(
+            `${indent}  <failure message="${message}"${type}>${details}</failure>`
+        )
+    }
+    if (warnings.length > 0) {
+        const output = escapeXml(
+            warnings.map((issue) => `warning: ${format(issue)}`).join("\n")
+        )
+        lines.push(`${indent}  <system-out>${output}</system-out>`)
+    }
+    lines.push(`${indent}</testcase>`)
+    return lines
+}
+
+/**
+ * Format a test suite as XML lines
+ */
+function formatTestSuite(name: string, testCases: TestCase[]): string[] {
+    const failures = testCases.filter(fails).length
+    return [
+        `  <testsuite name="${escapeXml(name)}" tests="${testCases.length}" failures="${failures}">`,
+        ...testCases.flatMap((testCase) => formatTestCase(testCase, "    ")),
+        "  </testsuite>",
+    ]
+}
+
+/**
+ * Report validation results as JUnit XML
+ */
+export const junitReporter: Reporter = (reports, options = {}) => {
+    const suites: Array<{ name: string; testCases: TestCase[] }> =
+        options.testCases === "token"
+            ? reports.map((report) => ({
+                  name: report.file,
+                  testCases: tokenTestCases(report),
+              }))
+            : [
+                  {
+                      name: SUITE_NAME,
+                      testCases: reports.map((report) => ({
+                          name: report.file,
+                          classname: SUITE_NAME,
+                          file: report.file,
+                          issues: report.result.issues,
+                      })),
+                  },
+              ]
+
+    const testCases = suites.flatMap((suite) => suite.testCases)
+    const failures = testCases.filter(fails).length
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${SUITE_NAME}" tests="${testCases.length}" failures="${failures}">`,
+        ...suites.flatMap((suite) =>
+            formatTestSuite(suite.name, suite.testCases)
+        ),
+        "</testsuites>",
+    ].join("\n")
+}
+
+export default junitReporter
@@ -0,0 +1,150 @@
+/**
+ * SARIF Reporter
+ *
+ * Reports validation results as a SARIF 2.1.0 log, the format code scanning
+ * tools read. Every issue is a result:
+ * - ruleId is the diagnostic code, or "schema/<keyword>" for schema errors
+ * - the physical location is the file the issue is in, with the line and
+ *   column when known
+ * - the logical location is the JSON Pointer to the value and, for design
+ *   token documents, the token path
+ *
+ * See https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+
+import { isAbsolute, sep } from "node:path"
+import { pathToFileURL } from "node:url"
+import type { ValidationIssue } from "../schemas.js"
+import type { FileReport, Reporter } from "./types.js"
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json"
+
+const TOOL_NAME = "dtcg-json-schema"
+
+/**
+ * A SARIF result, the subset of properties this reporter writes
+ */
+interface SarifResult {
+    ruleId?: string
+    ruleIndex?: number
+    level: "error" | "warning"
+    message: { text: string }
+    locations: SarifLocation[]
+}
+
+/**
+ * A SARIF location, the subset of properties this reporter writes
+ */
+interface SarifLocation {
+    physicalLocation: {
+        artifactLocation: { uri: string }
+        region?: { startLine: number; startColumn?: number }
+    }
+    logicalLocations?: Array<{
+        name?: string
+        fullyQualifiedName?: string
+        kind: "member"
+    }>
+}
+
+/**
+ * Get the rule of an issue: its diagnostic code, or the schema keyword that
+ * failed
+ */
+function ruleIdOf(issue: ValidationIssue): string | undefined {
+    if (issue.code === "schema") {
+        return `schema/${issue.keyword ?? "unknown"}`
+    }
+    return issue.code
+}
+
+/**
+ * Convert a file path to a URI; relative paths stay relative
+ */
+function toUri(file: string): string {
+    if (isAbsolute(file)) {
+        return pathToFileURL(file).href
+    }
+    return encodeURI(file.split(sep).join("/"))
+}
+
+/**
+ * Locate an issue in its file
+ */
+function toLocation(
+    report: FileReport,
+    issue: ValidationIssue
+): SarifLocation {
+    const location: SarifLocation = {
+        physicalLocation: {
+            artifactLocation: { uri: toUri(issue.file ?? report.file) },
+        },
+    }
+    if (issue.line !== undefined) {
+        location.physicalLocation.region = {
+            startLine: issue.line,
+            startColumn: issue.column,
+        }
+    }
+    if (issue.pointer !== undefined || issue.path !== undefined) {
+        location.logicalLocations = [
+            {
+                name: issue.path,
+                fullyQualifiedName: issue.pointer,
+                kind: "member",
+            },
+        ]
+    }
+    return location
+}
+
+/**
+ * Report validation results as a SARIF 2.1.0 log
+ */
+export const sarifReporter: Reporter = (reports) => {
+    const rules: string[] = []
+    const results: SarifResult[] = []
+
+    for (const report of reports) {
+        for (const issue of report.result.issues) {
+            const result: SarifResult = {
+                level: issue.severity,
+                message: { text: issue.message },
+                locations: [toLocation(report, issue)],
+            }
+
+            const ruleId = ruleIdOf(issue)
+            if (ruleId !== undefined) {
+                if (!rules.includes(ruleId)) {
+                    rules.push(ruleId)
+                }
+                result.ruleId = ruleId
+                result.ruleIndex = rules.indexOf(ruleId)
+            }
+            results.push(result)
+        }
+    }
+
+    const log = {
+        $schema: SARIF_SCHEMA,
+        version: "2.1.0",
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: TOOL_NAME,
+                        rules: rules.map((id) => ({ id })),
+                    },
+                },
+                artifacts: reports.map((report) => ({
+                    location: { uri: toUri(report.file) },
+                })),
+                results,
+            },
+        ],
+    }
+
+    return JSON.stringify(log, null, 4)
+}
+
+export default sarifReporter
@@ -0,0 +1,45 @@
+/**
+ * Text Reporter
+ *
+ * Reports validation results for people reading a terminal: a line per
+ * file, followed by its errors and warnings, and a summary line. Issues
+ * whose position is known start with "file:line:column".
+ *
+ * @example
+ * ```
+ * tokens/base.json: valid
+ * tokens/theme.json: invalid
+ *   tokens/theme.json:7:9: color.text: [unresolved-reference] Curly brace reference "{color.none}" does not point to a valid token
+ * 1 of 2 files invalid
+ * ```
+ */
+
+import { formatIssueAt } from "../schemas.js"
+import type { Reporter } from "./types.js"
+
+/**
+ * Report validation results as text
+ */
+export const textReporter: Reporter = (reports) => {
+    const lines: string[] = []
+
+    for (const { file, result } of reports) {
+        lines.push(`${file}: ${result.valid ? "valid" : "invalid"}`)
+        for (const issue of result.issues) {
+            if (issue.severity === "error") {
+                lines.push(`  ${formatIssueAt(issue, file)}`)
+            }
+        }
+        for (const issue of result.issues) {
+            if (issue.severity === "warning") {
+                lines.push(`  warning: ${formatIssueAt(issue, file)}`)
+            }
+        }
+    }
+
+    const invalid = reports.filter((report) => !report.result.valid).length
+    lines.push(`${invalid} of ${reports.length} files invalid`)
+    return lines.join("\n")
+}
+
+export default textReporter
@@ -0,0 +1,39 @@
+/**
+ * Type definitions for validation reporters
+ */
+
+import type { ValidationResult } from "../schemas.js"
+
+/**
+ * The validation result of one file, as reporters receive it
+ */
+export interface FileReport {
+    /** The file as it appears in reports, e.g. relative to the working directory */
+    file: string
+    result: ValidationResult
+    /**
+     * Dot paths of the tokens of the document, in document order
+     * Needed by reporters that have an entry per token.
+     */
+    tokens?: string[]
+}
+
+/**
+ * Options for reporters
+ */
+export interface ReporterOptions {
+    /**
+     * JUnit: one test case per file, or per token of each file; "file" by
+     * default
+     */
+    testCases?: "file" | "token"
+}
+
+/**
+ * Render the validation results of a set of files as a report
+ * @returns The report, e.g. text, JSON or XML
+ */
+export type Reporter = (
+    reports: readonly FileReport[],
+    options?: ReporterOptions
+) => string
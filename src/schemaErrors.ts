@@ -0,0 +1,561 @@
+/**
+ * Schema Error Collapsing
+ *
+ * AJV reports every failed alternative of the schemas: a design token is
+ * checked as a group and as a token, a value as each of its oneOf branches
+ * and as a reference. A single bad shadow color yields a dozen errors such
+ * as "must match exactly one schema in oneOf". This module reduces the
+ * errors of a design token document to one issue per problem:
+ * 1. "if", "oneOf" and "anyOf" summaries are dropped when the errors that
+ *    caused them remain
+ * 2. Errors of the reference alternatives are dropped, unless the value
+ *    looks like a reference
+ * 3. Errors of the token alternative on a group, and of the group
+ *    alternative on a token, are dropped
+ * 4. "Property not allowed" errors for members that have errors of their
+ *    own are dropped
+ * 5. At one location, "must be a number", "must be 'none'" and the like are
+ *    the failed alternatives: they are merged into one "must be a number or
+ *    'none'", and dropped when a more specific error remains at or below the
+ *    location
+ *
+ * Tokens inheriting their $type from a group are validated with it declared,
+ * see declareInheritedTypes, so like tokens declaring it they only get the
+ * errors of their type's value schema. Errors of the declared $type itself
+ * are left to the group.
+ *
+ * Messages are phrased in DTCG terms, naming the part of the value by the
+ * token's $type: "color component 2 must be between 0 and 1".
+ */
+
+import type { ErrorObject } from "ajv"
+import { parsePointer } from "./preprocessors/jsonPointer.js"
+import type { DesignTokenObject } from "./preprocessors/types.js"
+import {
+    isPlainObject,
+    isToken,
+    navigateToPath,
+    resolveInheritedType,
+    walkTokens,
+} from "./preprocessors/utils.js"
+import type { ValidationIssue } from "./schemas.js"
+
+/**
+ * Titles of the reference schemas in format.json
+ */
+const REFERENCE_TITLES = new Set([
+    "Curly Brace Reference",
+    "JSON Pointer Reference",
+    "JSON Pointer Reference Object",
+    "Token Value Reference",
+])
+
+/**
+ * Keywords whose errors only summarize the errors of their subschemas
+ */
+const SUMMARY_KEYWORDS = new Set(["if", "oneOf", "anyOf"])
+
+/**
+ * Keywords whose errors say which alternative a value does not match
+ */
+const ALTERNATIVE_KEYWORDS = new Set(["type", "const", "enum"])
+
+/**
+ * Names of the items of array values, by token type
+ */
+const VALUE_ITEM_NAMES: Record<string, string> = {
+    shadow: "layer",
+    gradient: "stop",
+    fontFamily: "font",
+    cubicBezier: "coordinate",
+}
+
+/**
+ * Names of the items of array properties of values
+ */
+const PROPERTY_ITEM_NAMES: Record<string, string> = {
+    components: "component",
+    dashArray: "dash",
+    fontFamily: "font",
+}
+
+/**
+ * Names of the string formats the schemas use
+ */
+const FORMAT_NAMES: Record<string, string> = {
+    "json-pointer-uri-fragment": "JSON Pointer fragment, such as #/colors/red",
+}
+
+const JSON_TYPE_NAMES: Record<string, string> = {
+    number: "a number",
+    integer: "an integer",
+    string: "a string",
+    boolean: "a boolean",
+    object: "an object",
+    array: "an array",
+    null: "null",
+}
+
+/**
+ * Where an error is in a design token document
+ */
+interface ErrorLocation {
+    /** Dot path of the token or group containing the value */
+    path: string
+    /** The token or group containing the value */
+    node: unknown
+    /** The token containing the value, if any */
+    token?: Record<string, unknown>
+    /** $type of the token, its own or inherited */
+    type?: string
+    /** Segments from the token or group to the value */
+    rest: string[]
+}
+
+/**
+ * Locate an error's value in the document: the value belongs to the first
+ * token on its path, or to the group before its first $-property
+ */
+function locate(error: ErrorObject, document: unknown): ErrorLocation {
+    const segments = parsePointer(error.instancePath)
+    const root = document as DesignTokenObject
+
+    let end = 0
+    let node: unknown = root
+    while (end < segments.length && !segments[end].startsWith("$")) {
+        node = navigateToPath(root, segments.slice(0, end + 1))
+        end++
+        if (isToken(node)) {
+            break
+        }
+    }
+
+    const nodeSegments = segments.slice(0, end)
+    const location: ErrorLocation = {
+        path: nodeSegments.join("."),
+        node,
+        rest: segments.slice(end),
+    }
+    if (isToken(node)) {
+        location.token = node
+        location.type =
+            typeof node.$type === "string"
+                ? node.$type
+                : resolveInheritedType(root, nodeSegments)
+    }
+    return location
+}
+
+/**
+ * Copy a design token document, declaring on each token without a $type the
+ * $type it inherits from its groups
+ * The format schema checks the value of a token without a $type against the
+ * value schemas of all types; with its type declared, only against that
+ * type's.
+ */
+export function declareInheritedTypes(
+    document: DesignTokenObject
+): DesignTokenObject {
+    const typed = structuredClone(document)
+    walkTokens(typed, (token, segments) => {
+        const type = resolveInheritedType(typed, segments)
+        if (token.$type === undefined && type !== undefined) {
+            token.$type = type
+        }
+    })
+    return typed
+}
+
+/**
+ * Check if an error is about the $type a token inherits, which the group
+ * declaring it is reported for
+ */
+function isInheritedTypeError(location: ErrorLocation): boolean {
+    return (
+        location.token !== undefined &&
+        location.token.$type === undefined &&
+        location.rest[0] === "$type"
+    )
+}
+
+/**
+ * Check if a value is written as a reference, so errors of the reference
+ * alternatives apply to it
+ */
+function looksLikeReference(value: unknown): boolean {
+    if (typeof value === "string") {
+        return value.includes("{")
+    }
+    return isPlainObject(value) && "$ref" in value
+}
+
+/**
+ * Check if an error is about a member that has errors of its own
+ * Members of a value with errors below it are not evaluated, so they are
+ * reported as unevaluated whatever they are.
+ */
+function isMemberConsequence(
+    error: ErrorObject,
+    errors: readonly ErrorObject[]
+): boolean {
+    const member =
+        error.params.unevaluatedProperty ?? error.params.additionalProperty
+    if (typeof member !== "string") {
+        return false
+    }
+    if (error.keyword === "unevaluatedProperties") {
+        return hasErrorsBelow(error, errors, false)
+    }
+    const prefix = `${error.instancePath}/${member.replace(/~/g, "~0").replace(/\//g, "~1")}`
+    return errors.some(
+        (other) =>
+            other.instancePath === prefix ||
+            other.instancePath.startsWith(`${prefix}/`)
+    )
+}
+
+/**
+ * Check if an error is one of the failed alternatives of steps 1 to 3
+ */
+function isAlternativeNoise(
+    error: ErrorObject,
+    location: ErrorLocation
+): boolean {
+    if (error.keyword === "if") {
+        return true
+    }
+
+    const title = error.parentSchema?.title
+    if (
+        REFERENCE_TITLES.has(title) &&
+        !looksLikeReference(error.data) &&
+        location.rest[location.rest.length - 1] !== "$ref"
+    ) {
+        return true
+    }
+
+    // The group alternative of a token checks its members as tokens
+    const [member] = location.rest
+    if (member !== undefined) {
+        return location.token !== undefined && !member.startsWith("$")
+    }
+    if (location.token) {
+        return title === "Group"
+    }
+    // Something that is not an object is neither: only its type matters
+    if (!isPlainObject(error.data)) {
+        return error.keyword !== "type"
+    }
+    const missing = error.params.missingProperty
+    return (
+        title === "Token" ||
+        (error.keyword === "required" &&
+            (missing === "$value" || missing === "$ref"))
+    )
+}
+
+/**
+ * Check if an error has another error below its location or, if atLocation
+ * is given, an error with one of those keywords at its location
+ */
+function hasErrorsBelow(
+    error: ErrorObject,
+    errors: readonly ErrorObject[],
+    atLocation: false | ((keyword: string) => boolean)
+): boolean {
+    return errors.some(
+        (other) =>
+            other !== error &&
+            (other.instancePath.startsWith(`${error.instancePath}/`) ||
+                (atLocation &&
+                    other.instancePath === error.instancePath &&
+                    atLocation(other.keyword)))
+    )
+}
+
+/**
+ * Name the failing part of a value in DTCG terms, e.g. "color component 2"
+ * or "shadow layer 0 offsetX"
+ */
+function describeSubject(location: ErrorLocation): string {
+    const [first, ...within] = location.rest
+    if (first === undefined) {
+        if (location.token) {
+            return "token"
+        }
+        return isPlainObject(location.node) ? "group" : "token or group"
+    }
+    if (first !== "$value") {
+        return [first, ...within].join(" ")
+    }
+
+    const words = [location.type ?? "token"]
+    if (within.length === 0) {
+        return `${words[0]} value`
+    }
+    for (const segment of within) {
+        if (!/^\d+$/.test(segment)) {
+            words.push(segment)
+            continue
+        }
+        const previous = words.length > 1 ? words.pop()! : undefined
+        const item =
+            previous === undefined
+                ? (VALUE_ITEM_NAMES[location.type ?? ""] ?? "item")
+                : (PROPERTY_ITEM_NAMES[previous] ?? previous)
+        words.push(`${item} ${segment}`)
+    }
+    return words.join(" ")
+}
+
+/**
+ * Describe the range a number must be in, from the schema that failed
+ */
+function describeRange(schema: Record<string, any>): string {
+    const lower =
+        schema.minimum !== undefined
+            ? `at least ${schema.minimum}`
+            : schema.exclusiveMinimum !== undefined
+              ? `greater than ${schema.exclusiveMinimum}`
+              : undefined
+    const upper =
+        schema.maximum !== undefined
+            ? `at most ${schema.maximum}`
+            : schema.exclusiveMaximum !== undefined
+              ? `less than ${schema.exclusiveMaximum}`
+              : undefined
+
+    if (schema.minimum !== undefined && schema.maximum !== undefined) {
+        return `must be between ${schema.minimum} and ${schema.maximum}`
+    }
+    return `must be ${[lower, upper].filter(Boolean).join(" and ")}`
+}
+
+/**
+ * Describe the number of items an array must have
+ */
+function describeItemCount(schema: Record<string, any>): string {
+    const { minItems, maxItems } = schema
+    const items = (count: number) =>
+        count === 1 ? "1 item" : `${count} items`
+    if (minItems !== undefined && minItems === maxItems) {
+        return `must have exactly ${items(minItems)}`
+    }
+    if (minItems !== undefined && maxItems !== undefined) {
+        return `must have between ${minItems} and ${items(maxItems)}`
+    }
+    return minItems !== undefined
+        ? `must have at least ${items(minItems)}`
+        : `must have at most ${items(maxItems)}`
+}
+
+/**
+ * Describe what one alternative expects, e.g. "a number" or '"none"'
+ */
+function describeAlternative(error: ErrorObject): string[] {
+    switch (error.keyword) {
+        case "type":
+            return String(error.params.type)
+                .split(",")
+                .map((type) => JSON_TYPE_NAMES[type] ?? type)
+        case "const":
+            return [JSON.stringify(error.params.allowedValue)]
+        default:
+            return [
+                `one of ${(error.params.allowedValues as unknown[])
+                    .map((value) => JSON.stringify(value))
+                    .join(", ")}`,
+            ]
+    }
+}
+
+/**
+ * Describe what is wrong, without the subject, e.g. "must be between 0 and 1"
+ */
+function describeProblem(error: ErrorObject): string {
+    const schema = error.parentSchema ?? {}
+    switch (error.keyword) {
+        case "minimum":
+        case "maximum":
+        case "exclusiveMinimum":
+        case "exclusiveMaximum":
+            return describeRange(schema)
+        case "minItems":
+        case "maxItems":
+            return describeItemCount(schema)
+        case "required":
+            return `must have "${error.params.missingProperty}"`
+        case "additionalProperties":
+            return `must not have "${error.params.additionalProperty}"`
+        case "unevaluatedProperties":
+            return `must not have "${error.params.unevaluatedProperty}"`
+        case "pattern":
+            return REFERENCE_TITLES.has(schema.title)
+                ? `must be a valid ${String(schema.title).toLowerCase()}`
+                : `must match the pattern ${error.params.pattern}`
+        case "format":
+            return `must be a valid ${FORMAT_NAMES[error.params.format] ?? error.params.format}`
+        case "not":
+            return "must not match the schema"
+        default:
+            return error.message ?? "is invalid"
+    }
+}
+
+/**
+ * Describe an error in one sentence
+ * "not" schemas describe the whole problem in their description.
+ */
+function describeError(error: ErrorObject, location: ErrorLocation): string {
+    if (error.keyword === "not" && error.parentSchema?.description) {
+        return error.parentSchema.description
+    }
+    return `${describeSubject(location)} ${describeProblem(error)}`
+}
+
+/**
+ * Create the issue for an error
+ */
+function createIssue(
+    error: ErrorObject,
+    location: ErrorLocation,
+    message: string
+): ValidationIssue {
+    const issue: ValidationIssue = {
+        severity: "error",
+        code: "schema",
+        keyword: error.keyword,
+        message,
+        pointer: error.instancePath,
+    }
+    if (location.path !== "") {
+        issue.path = location.path
+    }
+    return issue
+}
+
+/**
+ * Reduce the AJV errors of a design token document to one issue per problem
+ *
+ * @param errors - The errors of validating the document against the format
+ * schema, with AJV's verbose option
+ * @param document - The validated document, without the types
+ * declareInheritedTypes declares
+ * @returns The issues, in the order of their first error; one issue per
+ * error if no error is left after collapsing
+ *
+ * @example
+ * ```typescript
+ * collapseSchemaErrors(validate.errors, tokens);
+ * // [{ severity: 'error', code: 'schema', keyword: 'maximum',
+ * //    message: 'color component 2 must be between 0 and 1',
+ * //    pointer: '/colors/brand/$value/components/2', path: 'colors.brand' }]
+ * ```
+ */
+export function collapseSchemaErrors(
+    errors: readonly ErrorObject[],
+    document: unknown
+): ValidationIssue[] {
+    const locations = new Map(
+        errors.map((error) => [error, locate(error, document)])
+    )
+
+    // Steps 2 and 3: errors of alternatives that do not apply
+    const relevant = errors.filter(
+        (error) => !isAlternativeNoise(error, locations.get(error)!)
+    )
+
+    // Steps 1, 4 and 5: errors that other errors explain
+    const remaining = relevant.filter((error) => {
+        if (isInheritedTypeError(locations.get(error)!)) {
+            return false
+        }
+        if (SUMMARY_KEYWORDS.has(error.keyword)) {
+            return !hasErrorsBelow(
+                error,
+                relevant,
+                (keyword) => !SUMMARY_KEYWORDS.has(keyword)
+            )
+        }
+        if (ALTERNATIVE_KEYWORDS.has(error.keyword)) {
+            // "must be a string" adds nothing to "must be one of" the strings
+            if (
+                error.keyword === "type" &&
+                relevant.some(
+                    (other) =>
+                        other.parentSchema === error.parentSchema &&
+                        other.instancePath === error.instancePath &&
+                        (other.keyword === "enum" || other.keyword === "const")
+                )
+            ) {
+                return false
+            }
+            return !hasErrorsBelow(
+                error,
+                relevant,
+                (keyword) =>
+                    !SUMMARY_KEYWORDS.has(keyword) &&
+                    !ALTERNATIVE_KEYWORDS.has(keyword)
+            )
+        }
+        return !isMemberConsequence(error, relevant)
+    })
+
+    const issues: ValidationIssue[] = []
+    const alternatives = new Map<
+        string,
+        { issue: ValidationIssue; expected: string[] }
+    >()
+    const seen = new Set<string>()
+
+    for (const error of remaining) {
+        const location = locations.get(error)!
+
+        if (ALTERNATIVE_KEYWORDS.has(error.keyword)) {
+            let merged = alternatives.get(error.instancePath)
+            if (!merged) {
+                merged = {
+                    issue: createIssue(error, location, ""),
+                    expected: [],
+                }
+                alternatives.set(error.instancePath, merged)
+                issues.push(merged.issue)
+            }
+            for (const expected of describeAlternative(error)) {
+                if (!merged.expected.includes(expected)) {
+                    merged.expected.push(expected)
+                }
+            }
+            merged.issue.message = `${describeSubject(location)} must be ${merged.expected.join(" or ")}`
+            continue
+        }
+
+        const issue = createIssue(
+            error,
+            location,
+            describeError(error, location)
+        )
+        const key = `${issue.pointer}\n${issue.message}`
+        if (!seen.has(key)) {
+            seen.add(key)
+            issues.push(issue)
+        }
+    }
+
+    if (issues.length > 0 || errors.length === 0) {
+        return issues
+    }
+    // Nothing explains the errors: report them as they are
+    return errors.map((error) =>
+        createIssue(
+            error,
+            locations.get(error)!,
+            describeError(error, locations.get(error)!)
+        )
+    )
+}
+
+export default {
+    collapseSchemaErrors,
+    declareInheritedTypes,
+}
@@ -0,0 +1,306 @@
+/**
+ * Schema Loading
+ *
+ * Loads the DTCG JSON schemas bundled with this package into AJV. The schema
+ * files are located through the package's own exports
+ * ("dtcg-json-schema/schemas/*"), so they are found wherever the package is
+ * installed, not relative to the working directory.
+ */
+
+import addFormats from "ajv-formats"
+import Ajv2020 from "ajv/dist/2020.js"
+import { readFileSync, readdirSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+import type {
+    DiagnosticCode,
+    DiagnosticSeverity,
+} from "./preprocessors/types.js"
+
+/**
+ * Directory of the bundled schemas
+ */
+const SCHEMA_DIR = join(
+    dirname(
+        fileURLToPath(
+            import.meta.resolve("dtcg-json-schema/schemas/format/format.json")
+        )
+    ),
+    ".."
+)
+
+const SCHEMA_FILES = {
+    // Format schemas
+    tokenType: "format/tokenType.json",
+    token: "format/token.json",
+    group: "format/group.json",
+    groupOrToken: "format/groupOrToken.json",
+    format: "format/format.json",
+    // Resolver schemas
+    resolver: "resolver/resolver.json",
+    set: "resolver/set.json",
+    modifier: "resolver/modifier.json",
+    resolutionOrder: "resolver/resolutionOrder.json",
+} as const
+
+const AJV_CONFIG = {
+    strict: false,
+    allErrors: true,
+    verbose: true,
+} as const
+
+/**
+ * A problem found while validating a document
+ */
+export interface ValidationIssue {
+    severity: DiagnosticSeverity
+    /**
+     * The diagnostic code, or "schema" for schema errors; absent for problems
+     * reported without a code
+     */
+    code?: DiagnosticCode | "schema"
+    /** The schema keyword that failed, for schema errors, e.g. "required" */
+    keyword?: string
+    message: string
+    /** JSON Pointer to the value in the document, "" for the document itself */
+    pointer?: string
+    /** Dot path of the token or group, for design token documents */
+    path?: string
+    /** Location of the document the problem is in, when it is another file */
+    file?: string
+    /** Line of the value in the document's source, starting at 1, when known */
+    line?: number
+    /** Column of the value in the document's source, starting at 1, when known */
+    column?: number
+}
+
+/**
+ * Result of validating a document
+ */
+export interface ValidationResult {
+    valid: boolean
+    /** The errors among issues, formatted with formatIssue */
+    errors: string[]
+    /** Every problem found, including warnings */
+    issues: ValidationIssue[]
+}
+
+/**
+ * A validator with the schemas of one schema type loaded
+ */
+export interface SchemaContext {
+    ajv: Ajv2020
+    /** The schema to validate documents against */
+    formatSchema: object
+    resolverSchema?: object
+}
+
+/**
+ * Which documents to validate: design token files or resolver files
+ */
+export type SchemaType = "format" | "resolver"
+
+/**
+ * Load a JSON schema file of the package
+ */
+function loadSchemaFile(relativePath: string): object {
+    const schemaPath = join(SCHEMA_DIR, relativePath)
+    const content = readFileSync(schemaPath, "utf-8")
+    return JSON.parse(content)
+}
+
+/**
+ * Load all value schemas from the values directory
+ */
+function loadValueSchemas(ajv: Ajv2020): void {
+    const valuesDir = join(SCHEMA_DIR, "format", "values")
+    const schemaFiles = readdirSync(valuesDir).filter((file) =>
+        file.endsWith(".json")
+    )
+
+    for (const schemaFile of schemaFiles) {
+        const schema = loadSchemaFile(`format/values/${schemaFile}`)
+        ajv.addSchema(schema)
+    }
+}
+
+/**
+ * Create an AJV instance configured for DTCG schema validation
+ */
+export function createValidator(): Ajv2020 {
+    const ajv = new Ajv2020(AJV_CONFIG)
+    addFormats(ajv)
+    return ajv
+}
+
+/**
+ * Load all referenced schemas into the validator
+ */
+export function loadSchemas(
+    ajv: Ajv2020,
+    schemaType: SchemaType = "format"
+): SchemaContext {
+    if (schemaType === "format") {
+        // Load core format schemas in dependency order
+        const coreSchemas = [
+            SCHEMA_FILES.tokenType,
+            SCHEMA_FILES.token,
+            SCHEMA_FILES.group,
+            SCHEMA_FILES.groupOrToken,
+        ]
+
+        for (const schemaPath of coreSchemas) {
+            const schema = loadSchemaFile(schemaPath)
+            ajv.addSchema(schema)
+        }
+
+        // Load all value type schemas
+        loadValueSchemas(ajv)
+
+        // Load and return main format schema
+        const formatSchema = loadSchemaFile(SCHEMA_FILES.format)
+
+        return { ajv, formatSchema }
+    } else {
+        // Load resolver schemas in dependency order
+        const resolverSchemas = [
+            SCHEMA_FILES.set,
+            SCHEMA_FILES.modifier,
+            SCHEMA_FILES.resolutionOrder,
+        ]
+
+        for (const schemaPath of resolverSchemas) {
+            const schema = loadSchemaFile(schemaPath)
+            ajv.addSchema(schema)
+        }
+
+        // Also load format schema as it's referenced by resolver
+        const coreSchemas = [
+            SCHEMA_FILES.tokenType,
+            SCHEMA_FILES.token,
+            SCHEMA_FILES.group,
+            SCHEMA_FILES.groupOrToken,
+            SCHEMA_FILES.format,
+        ]
+
+        for (const schemaPath of coreSchemas) {
+            const schema = loadSchemaFile(schemaPath)
+            ajv.addSchema(schema)
+        }
+
+        // Load all value type schemas
+        loadValueSchemas(ajv)
+
+        // Load and return main resolver schema
+        const resolverSchema = loadSchemaFile(SCHEMA_FILES.resolver)
+
+        return { ajv, formatSchema: resolverSchema, resolverSchema }
+    }
+}
+
+/**
+ * Cached schema contexts to avoid reloading schemas for each validation
+ */
+const cachedSchemaContexts: Map<SchemaType, SchemaContext> = new Map()
+
+/**
+ * Get or create a cached schema context
+ */
+export function getSchemaContext(
+    schemaType: SchemaType = "format"
+): SchemaContext {
+    if (!cachedSchemaContexts.has(schemaType)) {
+        const ajv = createValidator()
+        const context = loadSchemas(ajv, schemaType)
+        cachedSchemaContexts.set(schemaType, context)
+    }
+    return cachedSchemaContexts.get(schemaType)!
+}
+
+/**
+ * Convert AJV validation errors into validation issues
+ */
+function toValidationIssues(errors: Array<any>): ValidationIssue[] {
+    return errors.map((error) => ({
+        severity: "error",
+        code: "schema",
+        keyword: error.keyword,
+        message: error.message || "validation error",
+        pointer: error.instancePath,
+    }))
+}
+
+/**
+ * Format a validation issue as a single human-readable line
+ * Schema errors are located by token path, or by JSON Pointer when they are
+ * not part of a token; other issues are formatted like diagnostics, see
+ * formatDiagnostic.
+ *
+ * @example
+ * ```typescript
+ * formatIssue({ severity: 'error', code: 'schema', message: 'must be object', pointer: '/colors' });
+ * // '/colors: must be object'
+ * ```
+ */
+export function formatIssue(issue: ValidationIssue): string {
+    const location = issue.path ?? issue.pointer
+    if (issue.code === "schema") {
+        return `${location || "(root)"}: ${issue.message}`
+    }
+
+    if (location === undefined) {
+        return issue.message
+    }
+    const code = issue.code ? `[${issue.code}] ` : ""
+    const file = issue.file ? ` (in ${issue.file})` : ""
+    return `${location || "(root)"}: ${code}${issue.message}${file}`
+}
+
+/**
+ * Format a validation issue like formatIssue, prefixed with where it is in
+ * the source as "file:line:column", the form editors and terminals link to
+ *
+ * @param issue - The issue
+ * @param file - The validated file, for issues that do not name another one
+ * @returns The formatted issue; like formatIssue when the position is unknown
+ *
+ * @example
+ * ```typescript
+ * formatIssueAt({ severity: 'error', code: 'schema', message: 'color value must be an object', pointer: '/brand/$value', path: 'brand', line: 4, column: 9 }, 'tokens.json');
+ * // 'tokens.json:4:9: brand: color value must be an object'
+ * ```
+ */
+export function formatIssueAt(issue: ValidationIssue, file: string): string {
+    if (issue.line === undefined) {
+        return formatIssue(issue)
+    }
+    const { file: issueFile, ...located } = issue
+    const position = `${issue.line}:${issue.column ?? 1}`
+    return `${issueFile ?? file}:${position}: ${formatIssue(located)}`
+}
+
+/**
+ * Validate a design token or resolver document against the schema
+ */
+export function validateAgainstSchema(
+    data: unknown,
+    ajv: Ajv2020,
+    schema: object
+): ValidationResult {
+    const validate = ajv.compile(schema)
+    const valid = validate(data)
+
+    const issues =
+        valid || !validate.errors ? [] : toValidationIssues(validate.errors)
+
+    return { valid, errors: issues.map(formatIssue), issues }
+}
+
+export default {
+    createValidator,
+    loadSchemas,
+    getSchemaContext,
+    validateAgainstSchema,
+    formatIssue,
+    formatIssueAt,
+}
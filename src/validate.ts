@@ -0,0 +1,588 @@
+/**
+ * Document Validation
+ *
+ * The validation entry points of the package:
+ * - preprocess resolves references and type inheritance in a design token
+ *   document, so it can be validated against the format schema
+ * - validateTokenDocument preprocesses a design token document and validates
+ *   it against the format schema
+ * - validateResolverDocument validates a resolver document against the
+ *   resolver schema, then checks what the schema cannot express: unique
+ *   names, default contexts, references and token type stability
+ * - validateResolverPermutations resolves every modifier-context permutation
+ *   of a resolver document and validates the resulting tokens
+ *
+ * Invalid documents are reported in the returned result, never thrown.
+ * The issues of documents parsed with parseJson are also located by line and
+ * column.
+ */
+
+import {
+    DiagnosticError,
+    formatDiagnostic,
+    hasErrors,
+} from "./preprocessors/diagnostics.js"
+import {
+    DocumentCache,
+    type DocumentLoader,
+} from "./preprocessors/documentLoader.js"
+import { formatPointer } from "./preprocessors/jsonPointer.js"
+import { resolveReferences } from "./preprocessors/referenceResolver.js"
+import { resolve, type SourceOptions } from "./preprocessors/resolverEngine.js"
+import {
+    enumeratePermutations,
+    formatPermutation,
+    type PermutationOptions,
+} from "./preprocessors/resolverPermutations.js"
+import {
+    classifyReference,
+    findResolverReferences,
+    validateResolverSemantics,
+} from "./preprocessors/resolverValidator.js"
+import {
+    findSourcePosition,
+    sourcePositionsOf,
+} from "./preprocessors/sourcePositions.js"
+import { checkTypeCompatibility } from "./preprocessors/typeCompatibility.js"
+import { processTypeInheritance } from "./preprocessors/typeInheritance.js"
+import { checkTypeStability } from "./preprocessors/typeStability.js"
+import type {
+    DesignTokenObject,
+    Diagnostic,
+    ResolverDocument,
+    ResolverInputs,
+} from "./preprocessors/types.js"
+import { collapseSchemaErrors, declareInheritedTypes } from "./schemaErrors.js"
+import {
+    formatIssue,
+    getSchemaContext,
+    validateAgainstSchema,
+    type ValidationIssue,
+    type ValidationResult,
+} from "./schemas.js"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for preprocess
+ */
+export interface PreprocessOptions {
+    /** Resolve aliases, $ref and $extends; true by default */
+    resolveReferences?: boolean
+    /** Give every token the $type of its closest group; true by default */
+    inheritTypes?: boolean
+    /** Infer the type of tokens that have no $type from their value */
+    inferTypes?: boolean
+    /** Check that aliases point at tokens of the expected type; true by default */
+    checkTypes?: boolean
+    /** Collect reference problems here instead of throwing on the first one */
+    diagnostics?: Diagnostic[]
+    /**
+     * Location of the document
+     * Relative file references are resolved against it.
+     */
+    location?: string
+    /**
+     * Loader for documents referenced by file
+     * Defaults to reading JSON files from the filesystem.
+     */
+    loader?: DocumentLoader
+    /** Cache of loaded documents; takes precedence over loader */
+    documents?: DocumentCache
+}
+
+/**
+ * Result of validating a document, with the problems found beyond the schema
+ */
+export interface DocumentValidationResult extends ValidationResult {
+    /** Problems found while preprocessing or checking, including warnings */
+    diagnostics: Diagnostic[]
+}
+
+/**
+ * Options for validateTokenDocument
+ */
+export interface TokenValidationOptions extends Omit<
+    PreprocessOptions,
+    "diagnostics"
+> {
+    /**
+     * Preprocess the document before validating it; true by default
+     * Without it, aliases are not followed and the values of tokens that
+     * inherit their $type are not checked.
+     */
+    preprocess?: boolean
+}
+
+/**
+ * Result of validateTokenDocument
+ */
+export interface TokenValidationResult extends DocumentValidationResult {
+    /** The preprocessed document, when it could be preprocessed */
+    tokens?: DesignTokenObject
+}
+
+/**
+ * Options for validateResolverDocument
+ */
+export interface ResolverDocumentOptions extends SourceOptions {
+    /**
+     * Check names, default contexts, references and type stability after
+     * schema validation; true by default
+     */
+    semantics?: boolean
+}
+
+// ============================================================================
+// Preprocessing
+// ============================================================================
+
+/**
+ * Preprocess a design token document for schema validation
+ * Clones the document to avoid mutations.
+ *
+ * 1. Checks that aliases point at tokens of the expected type
+ * 2. Resolves references (aliases, $ref and $extends)
+ * 3. Applies type inheritance, optionally inferring missing types
+ *
+ * @param document - The design token document
+ * @param options - Steps to run and where problems go, see PreprocessOptions
+ * @returns The preprocessed copy of the document
+ * @throws Error on the first problem, unless options.diagnostics is given
+ */
+export function preprocess(
+    document: DesignTokenObject,
+    options: PreprocessOptions = {}
+): DesignTokenObject {
+    let result = structuredClone(document)
+    const files = {
+        location: options.location,
+        loader: options.loader,
+        documents: options.documents,
+    }
+
+    // 1. Check alias types while the references are still in place
+    if (options.checkTypes ?? true) {
+        const mismatches = checkTypeCompatibility(result, {
+            ...files,
+            diagnostics: options.diagnostics,
+        })
+        if (!options.diagnostics && hasErrors(mismatches)) {
+            throw new Error(mismatches.map(formatDiagnostic).join("\n"))
+        }
+    }
+
+    // 2. Resolve references (includes $extends, aliases, and $ref)
+    if (options.resolveReferences ?? true) {
+        result = resolveReferences(result, {
+            ...files,
+            diagnostics: options.diagnostics,
+        })
+    }
+
+    // 3. Apply type inheritance last
+    if (options.inheritTypes ?? true) {
+        result = processTypeInheritance(result, {
+            inferTypes: options.inferTypes,
+            diagnostics: options.diagnostics,
+        })
+    }
+
+    return result
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Get the message of a thrown value
+ */
+function messageOf(error: unknown): string {
+    return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Convert a diagnostic into a validation issue
+ * Diagnostics are located by token path, or by JSON Pointer for problems in
+ * the structure of resolver documents. Token paths of design token documents
+ * are also pointers into the document; diagnostics can also give their own
+ * pointer, e.g. to the token file that declares a token.
+ */
+function issueFromDiagnostic(
+    diagnostic: Diagnostic,
+    tokenDocument: boolean
+): ValidationIssue {
+    const issue: ValidationIssue = {
+        severity: diagnostic.severity,
+        code: diagnostic.code,
+        message: diagnostic.message,
+    }
+    if (diagnostic.path === "" || diagnostic.path.startsWith("/")) {
+        issue.pointer = diagnostic.path
+    } else {
+        issue.path = diagnostic.path
+        if (diagnostic.pointer !== undefined) {
+            issue.pointer = diagnostic.pointer
+        } else if (tokenDocument) {
+            issue.pointer = formatPointer(diagnostic.path.split("."))
+        }
+    }
+    if (diagnostic.file) {
+        issue.file = diagnostic.file
+    }
+    return issue
+}
+
+/**
+ * Convert a thrown error into a validation issue
+ */
+function issueFromError(error: unknown): ValidationIssue {
+    const issue: ValidationIssue = {
+        severity: "error",
+        message: messageOf(error),
+    }
+    if (error instanceof DiagnosticError) {
+        issue.code = error.code
+    }
+    return issue
+}
+
+/**
+ * Add the line and column of their value to the issues, when their document
+ * was parsed with parseJson
+ * Issues naming another file are located in it when it is one of the given
+ * documents; otherwise they keep to the file, as their pointer is into the
+ * validated document, or there is none.
+ *
+ * @param documents - The other files the issues can be in, with pointers
+ * into them
+ */
+function locateIssues(
+    issues: ValidationIssue[],
+    document: object,
+    location: string | undefined,
+    documents?: DocumentCache
+): ValidationIssue[] {
+    return issues.map((issue) => {
+        if (issue.pointer === undefined) {
+            return issue
+        }
+        const positions =
+            issue.file === undefined || issue.file === location
+                ? sourcePositionsOf(document)
+                : documents && sourcePositionsOf(documents.get(issue.file))
+        const position =
+            positions && findSourcePosition(positions, issue.pointer)
+        return position ? { ...issue, ...position } : issue
+    })
+}
+
+/**
+ * Build a validation result from the issues found
+ */
+function createResult(
+    issues: ValidationIssue[],
+    diagnostics: Diagnostic[]
+): DocumentValidationResult {
+    const errors = issues
+        .filter((issue) => issue.severity === "error")
+        .map(formatIssue)
+    return { valid: errors.length === 0, errors, issues, diagnostics }
+}
+
+/**
+ * Validate a design token document against the format schema, collapsing
+ * the errors into one issue per problem, see collapseSchemaErrors
+ * Inherited types are declared first, see declareInheritedTypes.
+ */
+function validateTokenSchema(document: DesignTokenObject): ValidationIssue[] {
+    const { ajv, formatSchema } = getSchemaContext("format")
+    const validate = ajv.compile(formatSchema)
+    if (validate(declareInheritedTypes(document)) || !validate.errors) {
+        return []
+    }
+    return collapseSchemaErrors(validate.errors, document)
+}
+
+/**
+ * Validate a design token document against the format schema
+ *
+ * @param document - The design token document
+ * @param options - Preprocessing, see TokenValidationOptions
+ * @returns Whether the document is valid, the errors and every diagnostic;
+ * schema validation is skipped when preprocessing finds errors
+ *
+ * @example
+ * ```typescript
+ * const { valid, errors } = validateTokenDocument(tokens, {
+ *   location: 'tokens/base.json',
+ * });
+ * ```
+ */
+export function validateTokenDocument(
+    document: DesignTokenObject,
+    options: TokenValidationOptions = {}
+): TokenValidationResult {
+    const diagnostics: Diagnostic[] = []
+    const located = (issues: ValidationIssue[]) =>
+        locateIssues(issues, document, options.location)
+
+    if (options.preprocess === false) {
+        return createResult(
+            located(validateTokenSchema(document)),
+            diagnostics
+        )
+    }
+
+    let tokens: DesignTokenObject
+    try {
+        tokens = preprocess(document, { ...options, diagnostics })
+    } catch (error) {
+        const issues = diagnostics.map((diagnostic) =>
+            issueFromDiagnostic(diagnostic, true)
+        )
+        return createResult(
+            located([...issues, issueFromError(error)]),
+            diagnostics
+        )
+    }
+
+    // Reference problems are collected rather than thrown
+    const issues = diagnostics.map((diagnostic) =>
+        issueFromDiagnostic(diagnostic, true)
+    )
+    if (hasErrors(diagnostics)) {
+        return createResult(located(issues), diagnostics)
+    }
+
+    return {
+        ...createResult(
+            located([...issues, ...validateTokenSchema(tokens)]),
+            diagnostics
+        ),
+        tokens,
+    }
+}
+
+/**
+ * Check whether the sources of a resolver document include token files
+ */
+function referencesTokenFiles(resolver: ResolverDocument): boolean {
+    return findResolverReferences(resolver).some(
+        ({ reference }) => classifyReference(reference, []) === "file"
+    )
+}
+
+/**
+ * Validate a resolver document against the resolver schema
+ *
+ * @param document - The resolver document
+ * @param options - Semantic checks and loading of the token files the
+ * resolver references, see ResolverDocumentOptions
+ * @returns Whether the document is valid, the errors and every diagnostic;
+ * semantic checks are skipped when schema validation fails, and type
+ * stability, with a warning, when the document references token files but
+ * has no location or loader
+ *
+ * @example
+ * ```typescript
+ * const { valid, errors } = validateResolverDocument(resolver, {
+ *   location: 'design/resolver.json',
+ * });
+ * ```
+ */
+export function validateResolverDocument(
+    document: ResolverDocument,
+    options: ResolverDocumentOptions = {}
+): DocumentValidationResult {
+    const { ajv, formatSchema } = getSchemaContext("resolver")
+    const diagnostics: Diagnostic[] = []
+    // Kept to locate problems in the token files
+    const documents =
+        options.documents ?? new DocumentCache(options.loader, options.rootDir)
+    const located = (issues: ValidationIssue[]) =>
+        locateIssues(issues, document, options.location, documents)
+
+    const result = validateAgainstSchema(document, ajv, formatSchema)
+    if (!result.valid || options.semantics === false) {
+        return createResult(located(result.issues), diagnostics)
+    }
+
+    // Token files are found from the document's location or by the loader
+    const skipped: ValidationIssue[] =
+        options.location === undefined &&
+        options.loader === undefined &&
+        options.documents === undefined &&
+        referencesTokenFiles(document)
+            ? [
+                  {
+                      severity: "warning",
+                      message:
+                          "Type stability was not checked: the resolver document references token files, but has no location or loader to load them",
+                  },
+              ]
+            : []
+
+    try {
+        validateResolverSemantics(document as unknown as DesignTokenObject, {
+            diagnostics,
+        })
+        // Type stability needs a resolvable document
+        if (!hasErrors(diagnostics) && skipped.length === 0) {
+            checkTypeStability(document, {
+                ...options,
+                documents,
+                diagnostics,
+            })
+        }
+    } catch (error) {
+        const issues = diagnostics.map((diagnostic) =>
+            issueFromDiagnostic(diagnostic, false)
+        )
+        return createResult(
+            located([...issues, issueFromError(error)]),
+            diagnostics
+        )
+    }
+
+    return createResult(
+        located([
+            ...diagnostics.map((diagnostic) =>
+                issueFromDiagnostic(diagnostic, false)
+            ),
+            ...skipped,
+        ]),
+        diagnostics
+    )
+}
+
+// ============================================================================
+// Resolver Permutations
+// ============================================================================
+
+/**
+ * A modifier-context permutation that failed validation
+ */
+export interface PermutationFailure {
+    inputs: ResolverInputs
+    errors: string[]
+}
+
+/**
+ * Result of validating the permutations of a resolver document
+ */
+export interface PermutationReport {
+    /** Number of permutations the resolver document has */
+    total: number
+    /** Number of permutations validated */
+    checked: number
+    /** Whether the permutations were capped */
+    capped: boolean
+    /** Whether the validated permutations are a random sample */
+    sampled: boolean
+    failures: PermutationFailure[]
+}
+
+/**
+ * Validate a token file loaded as a resolver source against the format
+ * schema, without preprocessing
+ */
+function validateTokenFile(tokens: DesignTokenObject): string[] {
+    return validateTokenDocument(tokens, { preprocess: false }).errors
+}
+
+/**
+ * Resolve one permutation like resolve does and validate it against the
+ * format schema
+ * @returns The errors, empty if the permutation is valid
+ */
+function validatePermutation(
+    resolver: ResolverDocument,
+    inputs: ResolverInputs,
+    sourceOptions: SourceOptions
+): string[] {
+    const diagnostics: Diagnostic[] = []
+    let tokens: DesignTokenObject
+    try {
+        tokens = resolve(resolver, inputs, {
+            validateFile: validateTokenFile,
+            ...sourceOptions,
+            diagnostics,
+        })
+    } catch (error) {
+        return [messageOf(error)]
+    }
+
+    // Schema validation is skipped when the tokens cannot be resolved
+    if (hasErrors(diagnostics)) {
+        return diagnostics
+            .filter(({ severity }) => severity === "error")
+            .map((diagnostic) =>
+                formatIssue(issueFromDiagnostic(diagnostic, true))
+            )
+    }
+    return validateTokenDocument(tokens, { preprocess: false }).errors
+}
+
+/**
+ * Resolve every modifier-context permutation of a resolver document, as
+ * resolve does, and validate the resulting tokens against the format schema
+ * @param options - Cap and sampling of the permutations, and loading of the
+ * token files sources reference
+ */
+export function validateResolverPermutations(
+    resolver: ResolverDocument,
+    options: PermutationOptions & SourceOptions = {}
+): PermutationReport {
+    const { permutations, total, capped, sampled } = enumeratePermutations(
+        resolver,
+        options
+    )
+    const failures: PermutationFailure[] = []
+    // Load each token file once across permutations
+    const documents =
+        options.documents ?? new DocumentCache(options.loader, options.rootDir)
+
+    for (const inputs of permutations) {
+        const errors = validatePermutation(resolver, inputs, {
+            ...options,
+            documents,
+        })
+        if (errors.length > 0) {
+            failures.push({ inputs, errors })
+        }
+    }
+
+    return { total, checked: permutations.length, capped, sampled, failures }
+}
+
+/**
+ * Format a permutation report, with the errors grouped by permutation
+ */
+export function formatPermutationReport(report: PermutationReport): string {
+    let summary = `${report.failures.length} of ${report.checked} permutations failed`
+    if (report.capped) {
+        const selection = report.sampled ? "a random sample" : "the first"
+        summary += ` (${selection} of ${report.checked} out of ${report.total})`
+    }
+
+    const lines = [summary]
+    for (const failure of report.failures) {
+        lines.push("", `${formatPermutation(failure.inputs)}:`)
+        for (const error of failure.errors) {
+            lines.push(`  ${error}`)
+        }
+    }
+    return lines.join("\n")
+}
+
+export default {
+    preprocess,
+    validateTokenDocument,
+    validateResolverDocument,
+    validateResolverPermutations,
+    formatPermutationReport,
+}
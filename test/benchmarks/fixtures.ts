@@ -0,0 +1,158 @@
+/**
+ * Benchmark fixture generator
+ *
+ * Generates synthetic design token documents of a given size, shaped like
+ * real-world token files: primitives in nested typed groups, alias chains,
+ * JSON Pointer references, composite tokens built from references and
+ * layered themes that each $extends the previous one.
+ */
+
+import type { DesignTokenObject } from "../../src"
+
+/**
+ * Fixture sizes used by the benchmarks, in number of tokens
+ */
+export const BENCHMARK_SIZES = [1_000, 5_000, 20_000] as const
+
+/**
+ * Depth of the nested groups that primitives are placed in
+ */
+const GROUP_DEPTH = 4
+
+/**
+ * Length of the alias chains (alias -> alias -> ... -> primitive)
+ */
+const CHAIN_LENGTH = 20
+
+/**
+ * Number of tokens in each theme group
+ */
+const THEME_SIZE = 50
+
+/**
+ * Build a path of nested group names for the n-th primitive
+ */
+function groupPath(n: number): string[] {
+    const path: string[] = []
+    let rest = n
+    for (let level = 0; level < GROUP_DEPTH; level++) {
+        path.push(`g${level}-${rest % 4}`)
+        rest = Math.floor(rest / 4)
+    }
+    return path
+}
+
+/**
+ * Set a value at a path, creating groups on the way
+ */
+function setAtPath(
+    root: Record<string, any>,
+    path: string[],
+    value: unknown
+): void {
+    let current = root
+    for (const segment of path.slice(0, -1)) {
+        current[segment] ??= {}
+        current = current[segment]
+    }
+    current[path[path.length - 1]] = value
+}
+
+/**
+ * Generate a design token document with roughly the given number of tokens
+ *
+ * A fifth of the tokens each are:
+ * - color and dimension primitives whose $type is inherited from their
+ *   top-level group
+ * - alias chains of CHAIN_LENGTH hops
+ * - JSON Pointer references
+ * - shadow tokens whose sub-values reference primitives and aliases
+ * - themes of THEME_SIZE aliases, each theme extending the previous one and
+ *   overriding a single token
+ */
+export function generateTokenDocument(size: number): DesignTokenObject {
+    const doc: Record<string, any> = {
+        colors: { $type: "color" },
+        spacing: { $type: "dimension" },
+        aliases: {},
+        pointers: {},
+        shadows: { $type: "shadow" },
+        themes: {},
+    }
+    const fifth = Math.max(1, Math.floor(size / 5))
+    const colorPaths: string[][] = []
+    const spacingPaths: string[][] = []
+
+    for (let i = 0; i < fifth; i++) {
+        if (i % 2 === 0) {
+            const path = ["colors", ...groupPath(i), `c${i}`]
+            setAtPath(doc, path, {
+                $value: {
+                    colorSpace: "srgb",
+                    components: [(i % 256) / 255, 0.5, 0.5],
+                },
+            })
+            colorPaths.push(path)
+        } else {
+            const path = ["spacing", ...groupPath(i), `s${i}`]
+            setAtPath(doc, path, { $value: { value: i, unit: "px" } })
+            spacingPaths.push(path)
+        }
+    }
+
+    // Alias chains: each chain starts at a primitive and adds CHAIN_LENGTH hops
+    for (let i = 0; i < fifth; i++) {
+        const chain = Math.floor(i / CHAIN_LENGTH)
+        const hop = i % CHAIN_LENGTH
+        const target =
+            hop === 0
+                ? colorPaths[chain % colorPaths.length].join(".")
+                : `aliases.chain${chain}.hop${hop - 1}`
+        setAtPath(doc, ["aliases", `chain${chain}`, `hop${hop}`], {
+            $value: `{${target}}`,
+        })
+    }
+
+    for (let i = 0; i < fifth; i++) {
+        const target = colorPaths[(i * 7) % colorPaths.length]
+        doc.pointers[`p${i}`] = {
+            $ref: `#/${target.join("/")}/$value`,
+        }
+    }
+
+    for (let i = 0; i < fifth; i++) {
+        const spacing = (n: number) =>
+            `{${spacingPaths[(i + n) % spacingPaths.length].join(".")}}`
+        doc.shadows[`shadow${i}`] = {
+            $value: {
+                color: `{aliases.chain${
+                    i % Math.ceil(fifth / CHAIN_LENGTH)
+                }.hop0}`,
+                offsetX: spacing(0),
+                offsetY: spacing(1),
+                blur: spacing(2),
+                spread: spacing(3),
+            },
+        }
+    }
+
+    const themeCount = Math.max(1, Math.floor(fifth / THEME_SIZE))
+    for (let t = 0; t < themeCount; t++) {
+        const theme: Record<string, any> = { $type: "color" }
+        const tokenCount = t === 0 ? THEME_SIZE : 1
+        for (let i = 0; i < tokenCount; i++) {
+            const index = t === 0 ? i : t % THEME_SIZE
+            theme[`t${index}`] = {
+                $value: `{${colorPaths[(t + i) % colorPaths.length].join(
+                    "."
+                )}}`,
+            }
+        }
+        if (t > 0) {
+            theme.$extends = `{themes.theme${t - 1}}`
+        }
+        doc.themes[`theme${t}`] = theme
+    }
+
+    return doc
+}
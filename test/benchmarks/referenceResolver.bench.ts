@@ -0,0 +1,39 @@
+/**
+ * Reference resolution benchmark
+ *
+ * Resolves the generated benchmark fixtures and prints the fastest time
+ * taken per document and per token. Resolution should scale linearly: the
+ * time per token should not grow with the size of the document, though
+ * small documents pay a larger share of fixed costs.
+ *
+ * To measure the effect of a change, run the benchmark before and after it
+ * on the same machine and compare the printed times.
+ *
+ * Run with: npm run bench:references
+ */
+
+import { performance } from "node:perf_hooks"
+import { processTypeInheritance, resolveReferences } from "../../src"
+import { BENCHMARK_SIZES, generateTokenDocument } from "./fixtures"
+
+/**
+ * Number of timed runs per size; the fastest run is reported
+ */
+const RUNS = 3
+
+for (const size of BENCHMARK_SIZES) {
+    const document = generateTokenDocument(size)
+    let fastest = Infinity
+
+    for (let run = 0; run < RUNS; run++) {
+        const start = performance.now()
+        processTypeInheritance(resolveReferences(document))
+        fastest = Math.min(fastest, performance.now() - start)
+    }
+
+    const perToken = (fastest * 1000) / size
+    console.log(
+        `${String(size).padStart(7)} tokens: ${fastest.toFixed(1)} ms ` +
+            `(${perToken.toFixed(2)} µs/token)`
+    )
+}
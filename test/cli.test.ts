@@ -0,0 +1,271 @@
+/**
+ * Command-Line Tool Tests
+ *
+ * These tests run the dtcg command-line tool on the test fixtures and check
+ * its output and exit codes:
+ * - validate, with globs, with and without preprocessing and with each
+ *   report format
+ * - resolve, for design token files and resolver files
+ * - explain
+ * - usage errors
+ */
+
+import assert from "node:assert"
+import { join } from "node:path"
+import { describe, it } from "node:test"
+import { EXIT_CODES, runCli } from "../src/cli/cli"
+import { expandGlob } from "../src/cli/glob"
+
+const FIXTURES_DIR = join(import.meta.dirname, "fixtures")
+
+/**
+ * Run the command-line tool from the fixtures directory
+ */
+function run(...args: string[]) {
+    const stdout: string[] = []
+    const stderr: string[] = []
+    const exitCode = runCli(args, {
+        cwd: FIXTURES_DIR,
+        stdout: (text) => stdout.push(text),
+        stderr: (text) => stderr.push(text),
+    })
+    return {
+        exitCode,
+        stdout: stdout.join("\n"),
+        stderr: stderr.join("\n"),
+    }
+}
+
+describe("CLI", () => {
+    describe("validate", () => {
+        it("validates the files matching a glob", () => {
+            const result = run("validate", "resolver/valid/*.json")
+
+            assert.strictEqual(result.exitCode, EXIT_CODES.success)
+            assert.match(
+                result.stdout,
+                /^resolver\/valid\/minimal-resolver\.json: valid$/m
+            )
+            assert.match(result.stdout, /^0 of \d+ files invalid$/m)
+        })
+
+        it("reports invalid files with their errors", () => {
+            const result = run(
+                "validate",
+                "multi-file/tokens.json",
+                "format/invalid/references/reference-nonexistent.json",
+                "resolver/invalid/modifier-default-not-in-contexts.json"
+            )
+
+            assert.strictEqual(result.exitCode, EXIT_CODES.invalid)
+            assert.match(result.stdout, /^multi-file\/tokens\.json: valid$/m)
+            assert.match(
+                result.stdout,
+                /^format\/invalid\/references\/reference-nonexistent\.json: invalid\n  .*\[unresolved-reference\]/m
+            )
+            assert.match(
+                result.stdout,
+                /^resolver\/invalid\/modifier-default-not-in-contexts\.json: invalid\n  .*\[invalid-default\]/m
+            )
+            assert.match(result.stdout, /^2 of 3 files invalid$/m)
+        })
+
+        it("locates errors as file:line:column", () => {
+            const file =
+                "format/invalid/colors/color-component-out-of-range.json"
+            const result = run("validate", file)
+
+            assert.strictEqual(result.exitCode, EXIT_CODES.invalid)
+            assert.match(
+                result.stdout,
+                /^  format\/invalid\/colors\/color-component-out-of-range\.json:7:34: invalid-color: color component 2 must be between 0 and 1$/m
+            )
+
+            const sarif = JSON.parse(
+                run("validate", file, "--format", "sarif").stdout
+            )
+            assert.deepStrictEqual(
+                sarif.runs[0].results[0].locations[0].physicalLocation.region,
+                { startLine: 7, startColumn: 34 }
+            )
+        })
+
+        it("only validates against the schema with --no-preprocess", () => {
+            const result = run(
+                "validate",
+                "--no-preprocess",
+                "format/invalid/references/reference-nonexistent.json"
+            )
+
+            assert.strictEqual(result.exitCode, EXIT_CODES.success)
+        })
+
+        it("fails on globs that match nothing and unreadable files", () => {
+            const unmatched = run("validate", "missing/*.json")
+            assert.strictEqual(unmatched.exitCode, EXIT_CODES.error)
+            assert.strictEqual(
+                unmatched.stderr,
+                "No files match missing/*.json"
+            )
+
+            const unreadable = run("validate", "missing.json")
+            assert.strictEqual(unreadable.exitCode, EXIT_CODES.error)
+            assert.match(
+                unreadable.stdout,
+                /^missing\.json: invalid\n  File cannot be read \(ENOENT\)$/m
+            )
+        })
+
+        it("reports in the requested format", () => {
+            const file = "format/invalid/references/reference-nonexistent.json"
+            const json = run("validate", file, "--format", "json")
+            assert.strictEqual(json.exitCode, EXIT_CODES.invalid)
+            assert.deepStrictEqual(JSON.parse(json.stdout).summary, {
+                files: 1,
+                invalid: 1,
+                errors: 1,
+                warnings: 0,
+            })
+
+            const sarif = JSON.parse(
+                run("validate", file, "--format", "sarif").stdout
+            )
+            assert.strictEqual(
+                sarif.runs[0].results[0].locations[0].physicalLocation
+                    .artifactLocation.uri,
+                file
+            )
+
+            assert.strictEqual(
+                run("validate", file, "--format", "xml").exitCode,
+                EXIT_CODES.error
+            )
+        })
+    })
+
+    describe("resolve", () => {
+        it("prints the preprocessed tokens of a token file", () => {
+            const result = run("resolve", "multi-file/tokens.json")
+
+            assert.strictEqual(result.exitCode, EXIT_CODES.success)
+            const tokens = JSON.parse(result.stdout)
+            assert.deepStrictEqual(tokens.semantic.primary.$type, "color")
+            assert.strictEqual(tokens["primary-button"].$extends, undefined)
+        })
+
+        it("resolves resolver files for the given inputs", () => {
+            const file = "resolver/valid/resolver-with-modifiers.json"
+            const dark = JSON.parse(
+                run("resolve", file, "--input", "theme=dark").stdout
+            )
+            const light = JSON.parse(run("resolve", file).stdout)
+
+            assert.notDeepStrictEqual(
+                dark.color.background,
+                light.color.background
+            )
+
+            const invalid = run("resolve", file, "--input", "theme=sepia")
+            assert.strictEqual(invalid.exitCode, EXIT_CODES.invalid)
+            assert.match(invalid.stderr, /"sepia"/)
+        })
+
+        it("keeps references with --no-preprocess", () => {
+            const result = run(
+                "resolve",
+                "--no-preprocess",
+                "multi-file/tokens.json"
+            )
+
+            assert.strictEqual(result.exitCode, EXIT_CODES.success)
+            assert.deepStrictEqual(
+                JSON.parse(result.stdout).semantic.primary,
+                {
+                    $ref: "./base/colors.json#/brand/$value",
+                }
+            )
+        })
+    })
+
+    describe("explain", () => {
+        it("explains a token of a resolver file", () => {
+            const result = run(
+                "explain",
+                "resolver/valid/resolver-with-modifiers.json",
+                "color.background",
+                "--input",
+                "theme=dark"
+            )
+
+            assert.strictEqual(result.exitCode, EXIT_CODES.success)
+            assert.match(result.stdout, /^color\.background \(theme=dark\)$/m)
+            assert.match(
+                result.stdout,
+                /^  source: #\/modifiers\/theme\/contexts\/dark\/0 \(theme: dark\)$/m
+            )
+        })
+
+        it("fails on tokens that are not defined", () => {
+            const result = run("explain", "multi-file/tokens.json", "missing")
+
+            assert.strictEqual(result.exitCode, EXIT_CODES.invalid)
+            assert.match(result.stderr, /Token "missing" is not defined/)
+        })
+    })
+
+    it("reports usage errors", () => {
+        for (const args of [
+            [],
+            ["lint", "tokens.json"],
+            ["validate"],
+            ["validate", "--strict", "tokens.json"],
+            ["resolve", "multi-file/tokens.json", "--input", "theme"],
+            ["explain", "multi-file/tokens.json"],
+        ]) {
+            const result = run(...args)
+            assert.strictEqual(
+                result.exitCode,
+                EXIT_CODES.error,
+                `dtcg ${args.join(" ")}`
+            )
+            assert.match(result.stderr, /Usage: dtcg/)
+        }
+
+        assert.strictEqual(run("--help").exitCode, EXIT_CODES.success)
+    })
+})
+
+describe("CLI Globs", () => {
+    it("expands wildcards, ** and alternatives", () => {
+        assert.deepStrictEqual(
+            expandGlob("multi-file/**/*.json", FIXTURES_DIR),
+            [
+                "multi-file/base/button.json",
+                "multi-file/base/colors.json",
+                "multi-file/tokens.json",
+            ]
+        )
+        assert.deepStrictEqual(
+            expandGlob("multi-file/base/{button,missing}.js?n", FIXTURES_DIR),
+            ["multi-file/base/button.json"]
+        )
+        assert.deepStrictEqual(expandGlob("multi-file/tokens.json"), [
+            "multi-file/tokens.json",
+        ])
+    })
+
+    it("matches unbalanced braces literally", () => {
+        assert.deepStrictEqual(
+            expandGlob("multi-file/{tokens.json", FIXTURES_DIR),
+            []
+        )
+        assert.deepStrictEqual(
+            expandGlob("multi-file/base/{button,colors}}.json", FIXTURES_DIR),
+            []
+        )
+
+        const result = run("validate", "multi-file/{a.json")
+        assert.strictEqual(result.exitCode, EXIT_CODES.error)
+        assert.match(result.stderr, /No files match multi-file\/\{a\.json/)
+    })
+})
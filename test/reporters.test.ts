@@ -0,0 +1,217 @@
+/**
+ * Reporter Tests
+ *
+ * These tests render the same validation results with every reporter:
+ * - text, for terminals, with file:line:column when positions are known
+ * - json, with a stable layout
+ * - sarif, as a SARIF 2.1.0 log
+ * - junit, with a test case per file or per token
+ */
+
+import assert from "node:assert"
+import { describe, it } from "node:test"
+import {
+    jsonReporter,
+    junitReporter,
+    REPORTERS,
+    sarifReporter,
+    textReporter,
+    validateTokenDocument,
+    type FileReport,
+} from "../src"
+
+/**
+ * A valid file, and an invalid file with an error and a warning
+ */
+function createReports(): FileReport[] {
+    const tokens = {
+        color: {
+            $type: "color",
+            base: {
+                $value: { colorSpace: "srgb", components: [0, 0, 0] },
+                $deprecated: true,
+            },
+            text: { $value: "{color.base}" },
+            link: { $value: "{color.none}" },
+        },
+    }
+
+    return [
+        {
+            file: "tokens/base.json",
+            result: validateTokenDocument({}),
+            tokens: [],
+        },
+        {
+            file: "tokens/theme.json",
+            result: validateTokenDocument(tokens),
+            tokens: ["color.base", "color.text", "color.link"],
+        },
+    ]
+}
+
+describe("Reporters", () => {
+    it("reports issues as text", () => {
+        const [valid, invalid] = createReports()
+
+        assert.strictEqual(
+            textReporter([valid, invalid]),
+            [
+                "tokens/base.json: valid",
+                "tokens/theme.json: invalid",
+                `  ${invalid.result.errors[0]}`,
+                '  warning: color.text: [deprecated-reference] references deprecated token "color.base"',
+                "1 of 2 files invalid",
+            ].join("\n")
+        )
+    })
+
+    it("starts issues with file:line:column when their position is known", () => {
+        const [, invalid] = createReports()
+        const [warning, error] = invalid.result.issues
+        warning.line = 7
+        warning.column = 9
+        error.line = 8
+        error.column = 9
+
+        const text = textReporter([invalid])
+        assert.match(
+            text,
+            /^  tokens\/theme\.json:8:9: color\.link: \[unresolved-reference\]/m
+        )
+        assert.match(
+            text,
+            /^  warning: tokens\/theme\.json:7:9: color\.text: \[deprecated-reference\]/m
+        )
+        assert.match(
+            junitReporter([invalid]),
+            /<failure message="tokens\/theme\.json:8:9: color\.link: /
+        )
+    })
+
+    it("reports issues as stable JSON", () => {
+        const report = JSON.parse(jsonReporter(createReports()))
+
+        assert.strictEqual(report.version, 1)
+        assert.strictEqual(report.valid, false)
+        assert.deepStrictEqual(report.summary, {
+            files: 2,
+            invalid: 1,
+            errors: 1,
+            warnings: 1,
+        })
+        assert.deepStrictEqual(report.files[1].issues[1], {
+            severity: "error",
+            code: "unresolved-reference",
+            message: report.files[1].issues[1].message,
+            pointer: "/color/link",
+            path: "color.link",
+        })
+        assert.deepStrictEqual(Object.keys(report.files[1].issues[0]), [
+            "severity",
+            "code",
+            "message",
+            "pointer",
+            "path",
+        ])
+    })
+
+    it("reports issues as SARIF 2.1.0", () => {
+        const reports = createReports()
+        reports[1].result.issues[1].line = 9
+        reports[1].result.issues[1].column = 23
+        const log = JSON.parse(sarifReporter(reports))
+
+        assert.strictEqual(log.version, "2.1.0")
+        const [run] = log.runs
+        assert.deepStrictEqual(
+            run.tool.driver.rules.map((rule: { id: string }) => rule.id),
+            ["deprecated-reference", "unresolved-reference"]
+        )
+        assert.strictEqual(run.artifacts.length, 2)
+        assert.deepStrictEqual(
+            run.results.map((result: any) => result.level),
+            ["warning", "error"]
+        )
+        assert.deepStrictEqual(run.results[1].ruleIndex, 1)
+        assert.deepStrictEqual(run.results[1].locations[0], {
+            physicalLocation: {
+                artifactLocation: { uri: "tokens/theme.json" },
+                region: { startLine: 9, startColumn: 23 },
+            },
+            logicalLocations: [
+                {
+                    name: "color.link",
+                    fullyQualifiedName: "/color/link",
+                    kind: "member",
+                },
+            ],
+        })
+    })
+
+    it("names schema errors after the failing keyword in SARIF", () => {
+        const report: FileReport = {
+            file: "tokens/broken.json",
+            result: validateTokenDocument({
+                size: { $type: "dimension", $value: "4px" },
+            }),
+        }
+        const [run] = JSON.parse(sarifReporter([report])).runs
+
+        assert.ok(
+            run.tool.driver.rules.every((rule: { id: string }) =>
+                rule.id.startsWith("schema/")
+            )
+        )
+        assert.strictEqual(
+            run.results[0].locations[0].logicalLocations[0].name,
+            "size"
+        )
+    })
+
+    it("reports a JUnit test case per file", () => {
+        const xml = junitReporter(createReports())
+
+        assert.match(xml, /^<\?xml version="1.0" encoding="UTF-8"\?>\n/)
+        assert.match(xml, /<testsuites name="dtcg" tests="2" failures="1">/)
+        assert.match(
+            xml,
+            /<testcase name="tokens\/base.json" classname="dtcg"\/>/
+        )
+        assert.match(
+            xml,
+            /<failure message="color.link: \[unresolved-reference\] Curly brace reference &quot;\{color.none\}&quot;[^"]*" type="unresolved-reference">/
+        )
+        assert.match(
+            xml,
+            /<system-out>warning: color.text: \[deprecated-reference\]/
+        )
+    })
+
+    it("reports a JUnit test case per token", () => {
+        const xml = junitReporter(createReports(), { testCases: "token" })
+
+        assert.match(xml, /<testsuites name="dtcg" tests="5" failures="1">/)
+        assert.match(
+            xml,
+            /<testsuite name="tokens\/theme.json" tests="4" failures="1">/
+        )
+        assert.match(
+            xml,
+            /<testcase name="color.base" classname="tokens\/theme.json"\/>/
+        )
+        assert.match(
+            xml,
+            /<testcase name="color.link" classname="tokens\/theme.json">\n\s*<failure /
+        )
+    })
+
+    it("registers the built-in reporters by format", () => {
+        assert.deepStrictEqual(Object.keys(REPORTERS), [
+            "text",
+            "json",
+            "sarif",
+            "junit",
+        ])
+    })
+})
@@ -115,7 +115,10 @@ describe("Invalid Resolver Fixtures - Schema Validation (with preprocessing)", (
             ?.filter(
                 (tc) =>
                     tc.name === "circular-reference-in-sets" ||
-                    tc.name === "duplicate-names-in-resolution-order"
+                    tc.name === "duplicate-names-in-resolution-order" ||
+                    tc.name === "modifier-default-not-in-contexts" ||
+                    tc.name === "reference-to-missing-set" ||
+                    tc.name === "token-type-changes-between-contexts"
             ) || []
 
     if (preprocessingCases.length > 0) {
@@ -0,0 +1,54 @@
+/**
+ * Show the tokens that differ between the contexts of a modifier
+ *
+ * Resolves the resolver file once per context of the modifier and prints the
+ * tokens that are missing from some contexts or whose $value or $type
+ * differs, as a table or, with --json, as JSON. Token files the resolver
+ * references are loaded relative to it and must be inside its directory.
+ *
+ * Run with: npm run diff:contexts <resolver.json> <modifier>
+ * [--contexts <a,b>] [--input <modifier=context>]... [--json]
+ */
+
+import { readFileSync } from "node:fs"
+import { dirname, resolve } from "node:path"
+import { parseArgs } from "node:util"
+import {
+    diffContexts,
+    formatContextDiff,
+    type ResolverDocument,
+} from "../../src"
+
+const USAGE =
+    "Usage: npm run diff:contexts <resolver.json> <modifier> [--contexts <a,b>] [--input <modifier=context>]... [--json]"
+
+const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        contexts: { type: "string" },
+        input: { type: "string", multiple: true, default: [] },
+        json: { type: "boolean", default: false },
+    },
+})
+
+const inputs = values.input.map((input) => input.split("="))
+if (
+    positionals.length !== 2 ||
+    inputs.some((input) => input.length !== 2 || !input[0] || !input[1])
+) {
+    console.error(USAGE)
+    process.exit(2)
+}
+
+const location = resolve(positionals[0])
+const resolver: ResolverDocument = JSON.parse(readFileSync(location, "utf-8"))
+const diff = diffContexts(resolver, positionals[1], {
+    contexts: values.contexts?.split(","),
+    inputs: Object.fromEntries(inputs),
+    location,
+    rootDir: dirname(location),
+})
+
+console.log(
+    values.json ? JSON.stringify(diff, null, 4) : formatContextDiff(diff)
+)
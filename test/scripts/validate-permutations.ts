@@ -0,0 +1,58 @@
+/**
+ * Validate every modifier-context permutation of a resolver file
+ *
+ * Resolves each combination of modifier contexts, validates the tokens
+ * against the format schema with preprocessing and prints the failures
+ * grouped by permutation. Token files the resolver references are loaded
+ * relative to it and must be inside its directory. Exits with code 1 if any
+ * permutation fails.
+ *
+ * Run with: npm run validate:permutations <resolver.json> [--limit <n>]
+ * [--sample] [--seed <n>]
+ */
+
+import { readFileSync } from "node:fs"
+import { dirname, resolve } from "node:path"
+import { parseArgs } from "node:util"
+import {
+    formatPermutationReport,
+    validateResolverPermutations,
+    type ResolverDocument,
+} from "../../src"
+
+const USAGE =
+    "Usage: npm run validate:permutations <resolver.json> [--limit <n>] [--sample] [--seed <n>]"
+
+const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        limit: { type: "string" },
+        sample: { type: "boolean", default: false },
+        seed: { type: "string" },
+    },
+})
+
+if (positionals.length !== 1) {
+    console.error(USAGE)
+    process.exit(2)
+}
+
+const limit = values.limit === undefined ? undefined : Number(values.limit)
+if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    console.error(`--limit must be a positive integer, got "${values.limit}"`)
+    console.error(USAGE)
+    process.exit(2)
+}
+
+const location = resolve(positionals[0])
+const resolver: ResolverDocument = JSON.parse(readFileSync(location, "utf-8"))
+const report = validateResolverPermutations(resolver, {
+    location,
+    rootDir: dirname(location),
+    limit,
+    sample: values.sample,
+    seed: values.seed === undefined ? undefined : Number(values.seed),
+})
+
+console.log(formatPermutationReport(report))
+process.exitCode = report.failures.length > 0 ? 1 : 0
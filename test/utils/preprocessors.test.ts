@@ -5,15 +5,67 @@
  * - Reference resolution (curly brace and JSON Pointer)
  * - Type inheritance from parent groups
  * - Combined preprocessing (references then type inheritance)
+ * - Collapsing schema errors into one readable message per problem
+ * - Source positions of values and of the problems found in them
  */
 
 import assert from "node:assert"
-import { readFileSync } from "node:fs"
+import { readdirSync, readFileSync } from "node:fs"
 import { join } from "node:path"
 import { describe, it } from "node:test"
-import { resolveReferences } from "./preprocessors/referenceResolver"
-import { processTypeInheritance } from "./preprocessors/typeInheritance"
-import type { DesignTokenObject } from "./preprocessors/types"
+import { generateTokenDocument } from "../benchmarks/fixtures"
+import {
+    buildReferenceGraph,
+    bundleResolver,
+    collapseSchemaErrors,
+    checkTypeCompatibility,
+    checkTypeStability,
+    collectSources,
+    createFileSystemLoader,
+    createMemoryLoader,
+    diffContexts,
+    DocumentCache,
+    enumeratePermutations,
+    evaluatePointer,
+    explainResolvedToken,
+    explainToken,
+    findSourcePosition,
+    findUnusedTokens,
+    formatContextDiff,
+    formatDiagnostic,
+    formatFragmentPointer,
+    formatPermutationReport,
+    formatTokenExplanation,
+    getSchemaContext,
+    hoistTypes,
+    inferValueTypes,
+    JsonSyntaxError,
+    parseFragmentPointer,
+    parseJson,
+    parsePointer,
+    preprocess,
+    processTypeInheritance,
+    resolve,
+    resolveReferences,
+    sortTokensByDependencies,
+    sourcePositionsOf,
+    traceSources,
+    unbundleResolver,
+    validateAgainstSchema,
+    validateResolverInputs,
+    validateResolverDocument,
+    validateResolverPermutations,
+    validateResolverSemantics,
+    validateTokenDocument,
+    walkTokens,
+    type DesignTokenObject,
+    type Diagnostic,
+    type DocumentLoader,
+    type ResolverDocument,
+    type ResolveResult,
+    type SourceProvenance,
+    type TokenProvenance,
+} from "../../src"
 
 /**
  * Load a fixture file from the test/fixtures directory
@@ -300,6 +352,28 @@ describe("Type Inheritance", () => {
             "Type should be inherited through nested groups"
         )
     })
+
+    it("propagates $deprecated from groups to their tokens", () => {
+        const input: DesignTokenObject = {
+            legacy: {
+                $type: "number",
+                $deprecated: "Use scale instead",
+                half: { $value: 0.5 },
+                own: { $value: 1, $deprecated: true },
+                kept: {
+                    $deprecated: false,
+                    one: { $value: 1 },
+                },
+            },
+            scale: { $type: "number", one: { $value: 1 } },
+        }
+        const output = processTypeInheritance(input) as any
+
+        assert.strictEqual(output.legacy.half.$deprecated, "Use scale instead")
+        assert.strictEqual(output.legacy.own.$deprecated, true)
+        assert.strictEqual(output.legacy.kept.one.$deprecated, false)
+        assert.strictEqual("$deprecated" in output.scale.one, false)
+    })
 })
 
 describe("Reference Resolver - Error Handling", () => {
@@ -353,62 +427,2995 @@ describe("Reference Resolver - Error Handling", () => {
     })
 })
 
-describe("Type Inheritance - Error Handling", () => {
-    it("throws on token with no inherited type", () => {
+describe("Reference Resolver - Diagnostics", () => {
+    it("collects every broken reference instead of throwing", () => {
         const input: DesignTokenObject = {
-            tokens: {
-                orphan: {
-                    $value: "some-value",
+            colors: {
+                $type: "color",
+                blue: {
+                    $value: { colorSpace: "srgb", components: [0, 0.4, 0.8] },
+                },
+            },
+            semantic: {
+                primary: { $value: "{colors.blue}" },
+                missing: { $value: "{colors.red}" },
+                pointer: { $ref: "#/does/not/exist" },
+                loopA: { $value: "{semantic.loopB}" },
+                loopB: { $value: "{semantic.loopA}" },
+            },
+        }
+        const diagnostics: Diagnostic[] = []
+
+        const output = resolveReferences(input, { diagnostics })
+
+        assert.deepStrictEqual(
+            diagnostics.map((d) => [d.path, d.code, d.severity]),
+            [
+                ["semantic.missing", "unresolved-reference", "error"],
+                ["semantic.pointer", "unresolved-reference", "error"],
+                ["semantic.loopA", "circular-reference", "error"],
+                ["semantic.loopB", "circular-reference", "error"],
+            ]
+        )
+        assert.strictEqual(diagnostics[0].reference, "{colors.red}")
+
+        // Resolvable tokens are still resolved, broken ones are kept as-is
+        const semantic = output.semantic as any
+        assert.deepStrictEqual(semantic.primary.$value, {
+            colorSpace: "srgb",
+            components: [0, 0.4, 0.8],
+        })
+        assert.strictEqual(semantic.missing.$value, "{colors.red}")
+        assert.strictEqual(semantic.pointer.$ref, "#/does/not/exist")
+    })
+
+    it("reports each broken sub-value of a composite token", () => {
+        const input: DesignTokenObject = {
+            shadow: {
+                $type: "shadow",
+                $value: {
+                    color: "{colors.black}",
+                    offsetX: { $ref: "#/spacing/none/$value" },
+                    offsetY: { value: 2, unit: "px" },
+                    blur: { value: 4, unit: "px" },
+                    spread: { value: 0, unit: "px" },
                 },
             },
         }
+        const diagnostics: Diagnostic[] = []
+
+        resolveReferences(input, { diagnostics })
+
+        assert.deepStrictEqual(
+            diagnostics.map((d) => d.reference),
+            ["{colors.black}", "#/spacing/none/$value"]
+        )
+    })
+
+    it("reports $extends and $ref/$value problems", () => {
+        const input: DesignTokenObject = {
+            missing: { $extends: "{nonexistent}" },
+            ...loadFixture("invalid/group", "circular-extends.json"),
+            conflict: {
+                $type: "number",
+                $ref: "#/other/$value",
+                $value: 1,
+            },
+        }
+        const diagnostics: Diagnostic[] = []
+
+        resolveReferences(input, { diagnostics })
+
+        assert.deepStrictEqual(
+            diagnostics.map((d) => [d.path, d.code]),
+            [
+                ["missing", "unresolved-extends"],
+                ["circular-extends-a", "circular-extends"],
+                ["circular-extends-b", "circular-extends"],
+                ["conflict", "conflicting-ref-and-value"],
+            ]
+        )
+    })
+
+    it("still throws by default", () => {
+        const input = loadFixture("invalid/group", "extends-token.json")
 
         assert.throws(
-            () => processTypeInheritance(input),
-            /has no \$type and no inherited type/,
-            "Should throw error for token without type"
+            () => resolveReferences(input),
+            /points to a token, not a group/
         )
     })
 })
 
-describe("Combined Preprocessing", () => {
-    it("handles complex scenario with references and inheritance", () => {
+describe("Reference Resolver - Cross-file References", () => {
+    const blue = { colorSpace: "srgb", components: [0, 0.4, 0.8] }
+
+    it("follows $ref and $extends into files on disk", () => {
+        const location = join(
+            import.meta.dirname,
+            "..",
+            "fixtures",
+            "multi-file",
+            "tokens.json"
+        )
+        const input = JSON.parse(readFileSync(location, "utf-8"))
+
+        const output = resolveReferences(input, { location }) as any
+
+        assert.deepStrictEqual(output.semantic.primary.$value, blue)
+        assert.strictEqual(output.semantic.primary.$type, "color")
+        assert.deepStrictEqual(
+            output["primary-button"].background.$value,
+            blue
+        )
+        assert.deepStrictEqual(output["primary-button"].text.$value, {
+            colorSpace: "srgb",
+            components: [0, 0, 0],
+        })
+    })
+
+    it("loads each referenced document once", () => {
+        const memory = createMemoryLoader({
+            "base/colors.json": { blue: { $type: "color", $value: blue } },
+        })
+        const loaded: string[] = []
+        const loader: DocumentLoader = {
+            resolveLocation: memory.resolveLocation,
+            load(location) {
+                loaded.push(location)
+                return memory.load(location)
+            },
+        }
+        const input: DesignTokenObject = {
+            a: { $ref: "./base/colors.json#/blue/$value" },
+            b: { $ref: "base/colors.json#/blue/$value" },
+        }
+
+        const output = resolveReferences(input, {
+            location: "tokens.json",
+            loader,
+        }) as any
+
+        assert.deepStrictEqual(output.b.$value, blue)
+        assert.deepStrictEqual(loaded, ["base/colors.json"])
+    })
+
+    it("detects circular references across files", () => {
+        const documents = new DocumentCache(
+            createMemoryLoader({
+                "a.json": { x: { $ref: "./b.json#/y/$value" } },
+                "b.json": { y: { $ref: "./a.json#/x/$value" } },
+            })
+        )
+        const input = documents.load("a.json").root
+
+        assert.throws(
+            () => resolveReferences(input, { documents }),
+            /Circular reference detected: b\.json#\/y\/\$value -> a\.json#\/x\/\$value -> b\.json#\/y\/\$value/
+        )
+    })
+
+    it("reports the file each failing reference came from", () => {
+        const loader = createMemoryLoader({
+            "base/colors.json": { brand: { $value: "{missing}" } },
+        })
+        const input: DesignTokenObject = {
+            primary: { $ref: "./base/colors.json#/brand/$value" },
+            other: { $ref: "./base/nope.json#/x/$value" },
+        }
+        const diagnostics: Diagnostic[] = []
+
+        resolveReferences(input, {
+            location: "tokens.json",
+            loader,
+            diagnostics,
+        })
+
+        assert.deepStrictEqual(
+            diagnostics.map((d) => [d.path, d.code, d.file, d.reference]),
+            [
+                [
+                    "primary",
+                    "unresolved-reference",
+                    "base/colors.json",
+                    "{missing}",
+                ],
+                [
+                    "other",
+                    "unresolved-document",
+                    "tokens.json",
+                    "./base/nope.json",
+                ],
+            ]
+        )
+    })
+
+    it("resolves tokens inherited from another file only in that file", () => {
+        const loader = createMemoryLoader({
+            "base.json": {
+                button: {
+                    $type: "color",
+                    text: { $value: "{brand}" },
+                    border: { $ref: "#/nothing/$value" },
+                },
+            },
+        })
+        const input: DesignTokenObject = {
+            brand: { $type: "color", $value: blue },
+            primary: { $extends: "./base.json#/button" },
+        }
+        const diagnostics: Diagnostic[] = []
+
+        const output = resolveReferences(input, {
+            location: "main.json",
+            loader,
+            diagnostics,
+        }) as any
+
+        // base.json has no brand: main.json's must not stand in for it
+        assert.strictEqual(output.primary.text.$value, "{brand}")
+        assert.deepStrictEqual(
+            diagnostics.map((d) => [d.path, d.code, d.file]),
+            [
+                ["button.text", "unresolved-reference", "base.json"],
+                ["button.border", "unresolved-reference", "base.json"],
+            ]
+        )
+    })
+})
+
+describe("Reference Resolver - Preserving Aliases", () => {
+    const black = { colorSpace: "srgb", components: [0, 0, 0] }
+
+    it("keeps aliases and records resolved values by token path", () => {
+        const input = loadFixture("valid/references", "chained-reference.json")
+        const resolvedTokens = new Map<string, ResolveResult>()
+
+        const output = resolveReferences(input, {
+            preserveAliases: true,
+            resolvedTokens,
+        })
+
+        assert.deepStrictEqual(output, input)
+        assert.deepStrictEqual(resolvedTokens.get("aliases.brand"), {
+            value: { colorSpace: "srgb", components: [0, 0.4, 0.8] },
+            type: "color",
+        })
+        // Type inherited from the group for the aliased primitive
+        assert.strictEqual(resolvedTokens.get("colors.blue")!.type, "color")
+    })
+
+    it("keeps $ref and resolves composite sub-values in the side table", () => {
         const input = loadFixture(
             "valid/references",
-            "composite-with-refs.json"
+            "multi-source-composite.json"
         )
+        const resolvedTokens = new Map<string, ResolveResult>()
 
-        // Process: references first, then inheritance
-        const afterReferences = resolveReferences(input)
-        const final = processTypeInheritance(afterReferences)
+        const output = resolveReferences(input, {
+            preserveAliases: true,
+            resolvedTokens,
+        }) as any
 
-        // Check that references in shadow were resolved
-        const shadowValue = (final.shadows as any).default.$value
+        const path = "complex-shadow-from-multiple-sources"
+        assert.deepStrictEqual(output[path].$value.color, {
+            $ref: "#/base-gradient/$value/0/color",
+        })
         assert.deepStrictEqual(
-            shadowValue.color,
+            (resolvedTokens.get(path)!.value as any).color,
+            { colorSpace: "srgb", components: [1, 0, 0] }
+        )
+        assert.strictEqual(resolvedTokens.get(path)!.type, "shadow")
+    })
+
+    it("checks aliases inherited from another file in that file", () => {
+        const loader = createMemoryLoader({
+            "base.json": {
+                c: { x: { $type: "color", $value: black } },
+                button: { text: { $value: "{c.x}" } },
+            },
+        })
+        const input: DesignTokenObject = {
+            primary: { $extends: "./base.json#/button" },
+        }
+        const diagnostics: Diagnostic[] = []
+        const resolvedTokens = new Map<string, ResolveResult>()
+        const provenance = new Map<string, TokenProvenance>()
+
+        const output = resolveReferences(input, {
+            location: "main.json",
+            loader,
+            diagnostics,
+            preserveAliases: true,
+            resolvedTokens,
+            provenance,
+        }) as any
+
+        assert.deepStrictEqual(diagnostics, [])
+        assert.strictEqual(output.primary.text.$value, "{c.x}")
+        assert.deepStrictEqual(resolvedTokens.get("primary.text"), {
+            value: black,
+            type: "color",
+        })
+        assert.deepStrictEqual(provenance.get("primary.text"), {
+            origin: "button.text",
+            file: "base.json",
+            chain: ["primary.text", "button.text"],
+            overridden: false,
+        })
+    })
+
+    it("records inherited tokens of extended groups", () => {
+        const input = loadFixture("valid/group", "group-extends.json")
+        const resolvedTokens = new Map<string, ResolveResult>()
+
+        resolveReferences(input, { preserveAliases: true, resolvedTokens })
+
+        assert.deepStrictEqual(resolvedTokens.get("primary-button.text"), {
+            value: { colorSpace: "srgb", components: [1, 1, 1] },
+            type: "color",
+        })
+    })
+})
+
+describe("Reference Resolver - Provenance", () => {
+    const black = { colorSpace: "srgb", components: [0, 0, 0] }
+    const input: DesignTokenObject = {
+        button: {
+            $type: "color",
+            base: {
+                bg: { $value: black },
+                fg: { $value: black },
+                states: { hover: { $value: black } },
+            },
+            primary: {
+                $extends: "{button.base}",
+                bg: { $value: "{button.base.fg}" },
+            },
+            danger: {
+                $extends: "{button.primary}",
+                fg: { $value: black },
+            },
+        },
+    }
+
+    it("records local, inherited and overriding definitions", () => {
+        const provenance = new Map<string, TokenProvenance>()
+        resolveReferences(input, { provenance })
+
+        assert.deepStrictEqual(provenance.get("button.base.bg"), {
+            origin: "button.base.bg",
+            chain: ["button.base.bg"],
+            overridden: false,
+        })
+        assert.deepStrictEqual(provenance.get("button.primary.bg"), {
+            origin: "button.primary.bg",
+            chain: ["button.primary.bg"],
+            overridden: true,
+            overrides: "button.base.bg",
+        })
+        assert.deepStrictEqual(provenance.get("button.danger.fg"), {
+            origin: "button.danger.fg",
+            chain: ["button.danger.fg"],
+            overridden: true,
+            overrides: "button.base.fg",
+        })
+    })
+
+    it("follows inherited tokens through every $extends hop", () => {
+        const provenance = new Map<string, TokenProvenance>()
+        resolveReferences(input, { provenance })
+
+        assert.deepStrictEqual(provenance.get("button.danger.states.hover"), {
+            origin: "button.base.states.hover",
+            chain: [
+                "button.danger.states.hover",
+                "button.primary.states.hover",
+                "button.base.states.hover",
+            ],
+            overridden: false,
+        })
+        assert.deepStrictEqual(provenance.get("button.danger.bg"), {
+            origin: "button.primary.bg",
+            chain: ["button.danger.bg", "button.primary.bg"],
+            overridden: true,
+            overrides: "button.base.bg",
+        })
+    })
+
+    it("records the file of tokens inherited from other documents", () => {
+        const location = join(
+            import.meta.dirname,
+            "..",
+            "fixtures",
+            "multi-file",
+            "tokens.json"
+        )
+        const provenance = new Map<string, TokenProvenance>()
+        resolveReferences(JSON.parse(readFileSync(location, "utf-8")), {
+            location,
+            provenance,
+        })
+
+        assert.deepStrictEqual(provenance.get("primary-button.background"), {
+            origin: "button.background",
+            file: join(location, "..", "base", "button.json"),
+            chain: ["primary-button.background", "button.background"],
+            overridden: false,
+        })
+        assert.deepStrictEqual(provenance.get("primary-button.text"), {
+            origin: "primary-button.text",
+            chain: ["primary-button.text"],
+            overridden: true,
+            overrides: "button.text",
+        })
+    })
+})
+
+describe("Reference Resolver - Deprecation", () => {
+    const tokens = {
+        legacy: {
+            $type: "color",
+            $deprecated: "Use colors.blue instead",
+            blue: { $value: { colorSpace: "srgb", components: [0, 0, 1] } },
+        },
+        colors: {
+            $type: "color",
+            blue: { $value: { colorSpace: "srgb", components: [0, 0, 1] } },
+            old: { $value: "{colors.blue}", $deprecated: true },
+        },
+        spacing: {
+            $type: "dimension",
+            sm: { $value: { value: 4, unit: "px" } },
+        },
+    }
+
+    /**
+     * Resolve a document and return its warnings
+     */
+    function warnings(input: DesignTokenObject): Diagnostic[] {
+        const diagnostics: Diagnostic[] = []
+        resolveReferences(input, { diagnostics })
+        assert.ok(diagnostics.every((d) => d.severity === "warning"))
+        return diagnostics
+    }
+
+    it("warns about aliases to deprecated tokens", () => {
+        const input: DesignTokenObject = {
+            ...tokens,
+            brand: { $type: "color", $value: "{legacy.blue}" },
+            accent: { $type: "color", $ref: "#/colors/old/$value" },
+            fresh: { $type: "color", $value: "{colors.blue}" },
+        }
+
+        assert.deepStrictEqual(warnings(input), [
             {
-                colorSpace: "srgb",
-                components: [0, 0, 0],
-                alpha: 0.2,
+                path: "brand",
+                code: "deprecated-reference",
+                severity: "warning",
+                message:
+                    'references deprecated token "legacy.blue": Use colors.blue instead',
+                reference: "{legacy.blue}",
+                target: "legacy.blue",
             },
-            "Color reference should be resolved"
+            {
+                path: "accent",
+                code: "deprecated-reference",
+                severity: "warning",
+                message: 'references deprecated token "colors.old"',
+                reference: "#/colors/old/$value",
+                target: "colors.old",
+            },
+        ])
+    })
+
+    it("warns about deprecated tokens referenced inside composite values", () => {
+        const input: DesignTokenObject = {
+            ...tokens,
+            border: {
+                $type: "border",
+                $value: {
+                    color: { $ref: "#/legacy/blue/$value" },
+                    width: "{spacing.sm}",
+                    style: "solid",
+                },
+            },
+        }
+
+        assert.deepStrictEqual(
+            warnings(input).map(({ path, message }) => ({ path, message })),
+            [
+                {
+                    path: "border",
+                    message:
+                        'references deprecated token "legacy.blue" at $value.color: Use colors.blue instead',
+                },
+            ]
         )
+    })
 
-        // Check that all tokens have explicit types after preprocessing
-        assert.strictEqual(
-            (final.colors as any).black.$type,
-            "color",
-            "Color token should have type"
+    it("warns about $extends of deprecated groups", () => {
+        const input: DesignTokenObject = {
+            ...tokens,
+            theme: { $extends: "{legacy}" },
+            other: { $extends: { $ref: "#/spacing" } },
+        }
+
+        assert.deepStrictEqual(
+            warnings(input).map(({ path, message, target }) => ({
+                path,
+                message,
+                target,
+            })),
+            [
+                {
+                    path: "theme",
+                    message:
+                        'extends deprecated group "legacy": Use colors.blue instead',
+                    target: "legacy",
+                },
+            ]
+        )
+    })
+
+    it("does not throw for deprecated references by default", () => {
+        const output = resolveReferences({
+            ...tokens,
+            brand: { $type: "color", $value: "{legacy.blue}" },
+        }) as any
+
+        assert.deepStrictEqual(output.brand.$value, tokens.legacy.blue.$value)
+    })
+})
+
+describe("Reference Resolver - Large Documents", () => {
+    it("resolves long alias and $extends chains", () => {
+        const input = generateTokenDocument(1000) as any
+        const diagnostics: Diagnostic[] = []
+        const resolved = resolveReferences(input, { diagnostics }) as any
+
+        assert.deepStrictEqual(diagnostics, [])
+
+        const primitive = input.colors["g0-0"]["g1-0"]["g2-0"]["g3-0"].c0
+        assert.deepStrictEqual(
+            resolved.aliases.chain0.hop19.$value,
+            primitive.$value
         )
+        assert.strictEqual(resolved.aliases.chain0.hop19.$type, "color")
+
+        // The last theme inherits every token through the $extends chain
+        const themes = Object.keys(resolved.themes)
+        const lastTheme = resolved.themes[themes[themes.length - 1]]
+        for (let i = 0; i < 50; i++) {
+            assert.strictEqual(typeof lastTheme[`t${i}`].$value, "object")
+        }
+    })
+
+    it("resolves shared references identically for every token", () => {
+        const input: DesignTokenObject = {
+            base: { $type: "color", $value: "{brand}" },
+            brand: {
+                $type: "color",
+                $value: { colorSpace: "srgb", components: [0, 0, 1] },
+            },
+            a: { $value: "{base}" },
+            b: { $ref: "#/base/$value" },
+            c: { $value: "{base}" },
+        }
+        const resolved = resolveReferences(input) as any
+
+        for (const name of ["a", "b", "c"]) {
+            assert.deepStrictEqual(
+                resolved[name].$value,
+                resolved.brand.$value
+            )
+            assert.strictEqual(resolved[name].$type, "color")
+        }
+    })
+})
+
+describe("JSON Pointer", () => {
+    it("parses escaped and percent-encoded reference tokens", () => {
+        assert.deepStrictEqual(parsePointer(""), [])
+        assert.deepStrictEqual(parsePointer("/a~1b/c~0d/"), ["a/b", "c~d", ""])
+        assert.deepStrictEqual(parseFragmentPointer("#"), [])
+        assert.deepStrictEqual(parseFragmentPointer("#/token%20name/~01"), [
+            "token name",
+            "~1",
+        ])
         assert.strictEqual(
-            (final.spacing as any).small.$type,
-            "dimension",
-            "Dimension token should have type"
+            formatFragmentPointer(["token name", "a/b", "{x}"]),
+            "#/token%20name/a~1b/%7Bx%7D"
+        )
+    })
+
+    it("rejects malformed pointers with the reason", () => {
+        const cases: Array<[string, RegExp]> = [
+            ["/colors/primary", /a URI fragment must start with "#"/],
+            ["##/invalid/path", /"#" at position 1 is not allowed/],
+            ["#/colors/{blue}", /"\{" at position 9 is not allowed/],
+            ["#/token name", /" " at position 7 is not allowed/],
+            ["#/a%2", /"%" at position 3 must be followed by two hex/],
+            ["#colors", /must be empty or start with "\/"/],
+            ["#/a~2", /"~" in reference token "a~2" must be followed/],
+        ]
+
+        for (const [pointer, expected] of cases) {
+            assert.throws(
+                () => parseFragmentPointer(pointer),
+                (error: any) =>
+                    error.code === "invalid-pointer" &&
+                    expected.test(error.message),
+                pointer
+            )
+        }
+    })
+
+    it("evaluates array indices strictly", () => {
+        const doc = { list: [10, 20, 30], "": { "a/b": true } }
+
+        assert.strictEqual(evaluatePointer(doc, ["list", "2"]), 30)
+        assert.strictEqual(evaluatePointer(doc, ["", "a/b"]), true)
+        assert.throws(
+            () => evaluatePointer(doc, ["list", "-"]),
+            /"-" refers to the element after the last one/
+        )
+        assert.throws(
+            () => evaluatePointer(doc, ["list", "01"]),
+            /"01" is not an array index/
+        )
+        assert.throws(
+            () => evaluatePointer(doc, ["list", "3"]),
+            /"#\/list" is an array with 3 elements; index 3 is out of bounds/
+        )
+        assert.throws(
+            () => evaluatePointer(doc, ["list", "0", "x"]),
+            /"#\/list\/0" is a number and has no members/
+        )
+        assert.throws(
+            () => evaluatePointer(doc, ["length"]),
+            /"#" has no member "length"/
+        )
+    })
+
+    it("reports precise errors for pointers outside token values", () => {
+        const cases: Array<[string, RegExp]> = [
+            ["json-pointer-empty-path.json", /points to the whole document/],
+            ["json-pointer-to-group.json", /points to the group "colors"/],
+            [
+                "json-pointer-to-metadata.json",
+                /points to "\$type" of token "colors.srgb-color"/,
+            ],
+            [
+                "json-pointer-trailing-slash.json",
+                /"#\/colors\/srgb-color\/\$value" has no member ""/,
+            ],
+            [
+                "json-pointer-negative-array-index.json",
+                /"-1" is not an array index/,
+            ],
+            [
+                "json-pointer-missing-hash.json",
+                /a URI fragment must start with "#"/,
+            ],
+        ]
+
+        for (const [fixture, expected] of cases) {
+            const diagnostics: Diagnostic[] = []
+            resolveReferences(loadFixture("invalid/references", fixture), {
+                diagnostics,
+            })
+            assert.strictEqual(diagnostics.length, 1, fixture)
+            assert.match(diagnostics[0].message, expected, fixture)
+        }
+    })
+})
+
+describe("Reference Graph", () => {
+    it("records direct and transitive dependencies and dependents", () => {
+        const input = loadFixture("valid/references", "chained-reference.json")
+        const graph = buildReferenceGraph(input)
+
+        const brand = graph.nodes.get("aliases.brand")!
+        assert.deepStrictEqual(brand.dependencies, ["semantic.primary"])
+        assert.deepStrictEqual(brand.transitiveDependencies, [
+            "semantic.primary",
+            "colors.blue",
+        ])
+        assert.strictEqual(brand.aliasDepth, 2)
+        assert.strictEqual(brand.isLeaf, false)
+
+        const blue = graph.nodes.get("colors.blue")!
+        assert.strictEqual(blue.isLeaf, true)
+        assert.strictEqual(blue.aliasDepth, 0)
+        assert.deepStrictEqual(blue.dependents, ["semantic.primary"])
+        assert.deepStrictEqual(blue.transitiveDependents.sort(), [
+            "aliases.brand",
+            "semantic.primary",
+        ])
+    })
+
+    it("maps JSON Pointer and composite references to tokens", () => {
+        const input = loadFixture(
+            "valid/references",
+            "multi-source-composite.json"
+        )
+        const graph = buildReferenceGraph(input)
+
+        assert.deepStrictEqual(
+            graph.nodes.get("complex-shadow-from-multiple-sources")!
+                .dependencies,
+            ["base-gradient", "base-border", "base-shadow"]
+        )
+        assert.deepStrictEqual(findUnusedTokens(graph), [])
+    })
+
+    it("adds tokens inherited through $extends", () => {
+        const input = loadFixture("valid/group", "multi-level-extends.json")
+        const graph = buildReferenceGraph(input)
+
+        const border = graph.nodes.get("primary-button.border")!
+        assert.strictEqual(border.inherited, true)
+        assert.deepStrictEqual(border.dependencies, ["button.border"])
+        assert.deepStrictEqual(border.transitiveDependencies, [
+            "button.border",
+            "base-component.border",
+        ])
+        assert.strictEqual(border.aliasDepth, 0)
+
+        // Overridden tokens do not depend on the extended group
+        assert.deepStrictEqual(
+            graph.nodes.get("primary-button.background")!.dependencies,
+            []
+        )
+    })
+
+    it("orders tokens dependencies first and reports cycles", () => {
+        const input = loadFixture("valid/references", "chained-reference.json")
+        const order = sortTokensByDependencies(buildReferenceGraph(input))
+
+        assert.ok(
+            order.indexOf("colors.blue") < order.indexOf("semantic.primary")
+        )
+        assert.ok(
+            order.indexOf("semantic.primary") < order.indexOf("aliases.brand")
+        )
+
+        const circular = buildReferenceGraph(
+            loadFixture("invalid/references", "circular-reference-chain.json")
         )
+        assert.strictEqual(circular.cycles.length, 1)
         assert.strictEqual(
-            (final.shadows as any).default.$type,
-            "shadow",
-            "Shadow token should have type"
+            circular.nodes.get(circular.cycles[0][0])!.aliasDepth,
+            Infinity
+        )
+        assert.throws(
+            () => sortTokensByDependencies(circular),
+            /Cannot order tokens with circular references/
+        )
+    })
+
+    it("reports references that do not point to a token", () => {
+        const input = loadFixture(
+            "invalid/references",
+            "reference-nonexistent.json"
         )
+        const graph = buildReferenceGraph(input)
+
+        assert.strictEqual(graph.diagnostics.length, 1)
+        assert.strictEqual(graph.diagnostics[0].code, "unresolved-reference")
+    })
+})
+
+describe("Type Compatibility", () => {
+    const primitives = {
+        spacing: {
+            $type: "dimension",
+            sm: { $value: { value: 4, unit: "px" } },
+        },
+        durations: {
+            fast: { $type: "duration", $value: { value: 100, unit: "ms" } },
+        },
+        colors: {
+            $type: "color",
+            blue: { $value: { colorSpace: "srgb", components: [0, 0, 1] } },
+            brand: { $value: "{colors.blue}" },
+        },
+    }
+
+    it("reports aliases to a token of another type", () => {
+        const input: DesignTokenObject = {
+            ...primitives,
+            gap: { $type: "dimension", $value: "{durations.fast}" },
+            accent: { $type: "color", $ref: "#/spacing/sm/$value" },
+        }
+        const diagnostics = checkTypeCompatibility(input)
+
+        assert.deepStrictEqual(
+            diagnostics.map(({ path, message, target }) => ({
+                path,
+                message,
+                target,
+            })),
+            [
+                {
+                    path: "gap",
+                    message:
+                        "expected dimension, got duration from {durations.fast}",
+                    target: "durations.fast",
+                },
+                {
+                    path: "accent",
+                    message:
+                        "expected color, got dimension from #/spacing/sm/$value",
+                    target: "spacing.sm",
+                },
+            ]
+        )
+        assert.ok(diagnostics.every((d) => d.code === "type-mismatch"))
+    })
+
+    it("checks references inside composite values", () => {
+        const input: DesignTokenObject = {
+            ...primitives,
+            card: {
+                $type: "shadow",
+                $value: [
+                    {
+                        color: "{spacing.sm}",
+                        offsetX: "{spacing.sm}",
+                        offsetY: "{spacing.sm}",
+                        blur: "{colors.brand}",
+                        spread: "{spacing.sm}",
+                    },
+                ],
+            },
+            fade: {
+                $type: "transition",
+                $value: {
+                    duration: "{durations.fast}",
+                    delay: "{spacing.sm}",
+                    timingFunction: [0, 0, 1, 1],
+                },
+            },
+            dashed: {
+                $type: "strokeStyle",
+                $value: {
+                    dashArray: ["{spacing.sm}", "{durations.fast}"],
+                    lineCap: "round",
+                },
+            },
+        }
+
+        assert.deepStrictEqual(
+            checkTypeCompatibility(input).map(
+                (d) => `${d.path}: ${d.message}`
+            ),
+            [
+                "card: expected color, got dimension from {spacing.sm} at $value.0.color",
+                "card: expected dimension, got color from {colors.brand} at $value.0.blur",
+                "fade: expected duration, got dimension from {spacing.sm} at $value.delay",
+                "dashed: expected dimension, got duration from {durations.fast} at $value.dashArray.1",
+            ]
+        )
+    })
+
+    it("uses the type of the part of a value a JSON Pointer points into", () => {
+        const input: DesignTokenObject = {
+            ...primitives,
+            outline: {
+                $type: "border",
+                $value: {
+                    color: "{colors.brand}",
+                    width: "{spacing.sm}",
+                    style: "solid",
+                },
+            },
+            ring: {
+                $type: "border",
+                $value: {
+                    color: { $ref: "#/outline/$value/width" },
+                    width: { $ref: "#/outline/$value/width" },
+                    style: "solid",
+                },
+            },
+        }
+
+        assert.deepStrictEqual(
+            checkTypeCompatibility(input).map(
+                (d) => `${d.path}: ${d.message}`
+            ),
+            [
+                "ring: expected color, got dimension from #/outline/$value/width at $value.color",
+            ]
+        )
+    })
+
+    it("accepts alias chains, inherited types and unresolvable references", () => {
+        const input: DesignTokenObject = {
+            ...primitives,
+            semantic: {
+                $type: "color",
+                primary: { $value: "{colors.brand}" },
+                missing: { $value: "{colors.missing}" },
+            },
+            untyped: { $value: "{spacing.sm}" },
+        }
+
+        assert.deepStrictEqual(checkTypeCompatibility(input), [])
+    })
+})
+
+describe("Type Inheritance - Error Handling", () => {
+    it("throws on token with no inherited type", () => {
+        const input: DesignTokenObject = {
+            tokens: {
+                orphan: {
+                    $value: "some-value",
+                },
+            },
+        }
+
+        assert.throws(
+            () => processTypeInheritance(input),
+            /has no \$type and no inherited type/,
+            "Should throw error for token without type"
+        )
+    })
+})
+
+describe("Type Inference", () => {
+    it("infers types from value shapes", () => {
+        const black = { colorSpace: "srgb", components: [0, 0, 0] }
+        const small = { value: 4, unit: "px" }
+        const cases: Array<[unknown, string[]]> = [
+            [black, ["color"]],
+            [small, ["dimension"]],
+            [{ value: 1, unit: "rem" }, ["dimension"]],
+            [{ value: 200, unit: "ms" }, ["duration"]],
+            [{ value: 4, unit: "em" }, []],
+            [[0.25, 0.1, 0.25, 1], ["cubicBezier"]],
+            [1.5, ["number"]],
+            [400, ["number", "fontWeight"]],
+            [0, ["number"]],
+            [450, ["number"]],
+            [1000, ["number"]],
+            ["Inter", ["fontFamily"]],
+            [["Inter", "sans-serif"], ["fontFamily"]],
+            [{ color: black, width: small, style: "solid" }, ["border"]],
+            [
+                [
+                    { color: black, position: 0 },
+                    { color: black, position: 1 },
+                ],
+                ["gradient"],
+            ],
+            [
+                [
+                    {
+                        color: black,
+                        offsetX: small,
+                        offsetY: small,
+                        blur: small,
+                        spread: small,
+                    },
+                ],
+                ["shadow"],
+            ],
+            ["bold", ["fontWeight", "fontFamily"]],
+            ["dashed", ["strokeStyle", "fontFamily"]],
+            ["{colors.black}", []],
+        ]
+
+        for (const [value, expected] of cases) {
+            assert.deepStrictEqual(
+                inferValueTypes(value),
+                expected,
+                JSON.stringify(value)
+            )
+        }
+    })
+
+    it("adds and records inferred types when enabled", () => {
+        const input: DesignTokenObject = {
+            spacing: { sm: { $value: { value: 4, unit: "px" } } },
+            motion: {
+                $type: "duration",
+                fast: { $value: { value: 100, unit: "ms" } },
+            },
+        }
+        const inferredTypes = new Map<string, string>()
+        const output = processTypeInheritance(input, {
+            inferTypes: true,
+            inferredTypes,
+        }) as any
+
+        assert.strictEqual(output.spacing.sm.$type, "dimension")
+        assert.strictEqual(output.motion.fast.$type, "duration")
+        assert.deepStrictEqual(
+            [...inferredTypes],
+            [["spacing.sm", "dimension"]]
+        )
+    })
+
+    it("reports ambiguous and unrecognised values", () => {
+        const input: DesignTokenObject = {
+            weight: { $value: "bold" },
+            size: { $value: { value: 4, unit: "em" } },
+        }
+        const diagnostics: Diagnostic[] = []
+        const output = processTypeInheritance(input, {
+            inferTypes: true,
+            diagnostics,
+        }) as any
+
+        assert.strictEqual(output.weight.$type, undefined)
+        assert.deepStrictEqual(
+            diagnostics.map(({ path, code }) => ({ path, code })),
+            [
+                { path: "weight", code: "ambiguous-type" },
+                { path: "size", code: "missing-type" },
+            ]
+        )
+        assert.match(
+            diagnostics[0].message,
+            /could be any of: fontWeight, fontFamily/
+        )
+        assert.throws(
+            () => processTypeInheritance(input, { inferTypes: true }),
+            /could be any of: fontWeight, fontFamily/
+        )
+    })
+
+    it("infers numbers that could be font weights with a warning", () => {
+        const input: DesignTokenObject = {
+            lineHeight: { $value: 1.5 },
+            zIndex: { $value: 10 },
+            weight: { $value: 400 },
+        }
+        const diagnostics: Diagnostic[] = []
+        const output = processTypeInheritance(input, {
+            inferTypes: true,
+            diagnostics,
+        }) as any
+
+        assert.strictEqual(output.lineHeight.$type, "number")
+        assert.strictEqual(output.zIndex.$type, "number")
+        assert.strictEqual(output.weight.$type, "number")
+        assert.deepStrictEqual(
+            diagnostics.map(({ path, code, severity }) => ({
+                path,
+                code,
+                severity,
+            })),
+            [{ path: "weight", code: "ambiguous-type", severity: "warning" }]
+        )
+        assert.match(
+            diagnostics[0].message,
+            /inferred as number but could also be fontWeight/
+        )
+    })
+})
+
+describe("Type Hoisting", () => {
+    /**
+     * Effective type of every token, keyed by token path
+     */
+    function tokenTypes(doc: DesignTokenObject): Record<string, unknown> {
+        const types: Record<string, unknown> = {}
+        walkTokens(processTypeInheritance(doc), (token, segments) => {
+            types[segments.join(".")] = token.$type
+        })
+        return types
+    }
+
+    it("moves shared types up to groups with the fewest declarations", () => {
+        const input: DesignTokenObject = {
+            colors: {
+                primary: { $type: "color", $value: "#1" },
+                secondary: { $type: "color", $value: "#2" },
+                gap: { $type: "dimension", $value: "#3" },
+            },
+            opacity: {
+                $type: "number",
+                half: { $type: "number", $value: 0.5 },
+            },
+        }
+
+        assert.deepStrictEqual(hoistTypes(input), {
+            colors: {
+                $type: "color",
+                primary: { $value: "#1" },
+                secondary: { $value: "#2" },
+                gap: { $type: "dimension", $value: "#3" },
+            },
+            opacity: {
+                $type: "number",
+                half: { $value: 0.5 },
+            },
+        })
+    })
+
+    it("keeps untyped tokens and $extends groups as they are", () => {
+        const input: DesignTokenObject = {
+            misc: {
+                label: { $value: "untyped" },
+                size: { $type: "dimension", $value: "#1" },
+                weight: { $type: "dimension", $value: "#2" },
+            },
+            base: {
+                bg: { $type: "color", $value: "#3" },
+                fg: { $type: "color", $value: "#4" },
+            },
+            primary: { $extends: "{base}" },
+        }
+        const output = hoistTypes(input) as any
+
+        assert.strictEqual(output.misc.$type, undefined)
+        assert.strictEqual(output.misc.size.$type, "dimension")
+        assert.deepStrictEqual(output.base, input.base)
+    })
+
+    it("round-trips every valid fixture through processTypeInheritance", () => {
+        const validDir = join(
+            import.meta.dirname,
+            "..",
+            "fixtures",
+            "format",
+            "valid"
+        )
+
+        for (const category of readdirSync(validDir)) {
+            for (const file of readdirSync(join(validDir, category))) {
+                const input = loadFixture(`valid/${category}`, file)
+                let expected: Record<string, unknown>
+                try {
+                    expected = tokenTypes(input)
+                } catch {
+                    // Untyped fixtures cannot be compared
+                    continue
+                }
+
+                const output = hoistTypes(input)
+                assert.deepStrictEqual(tokenTypes(output), expected, file)
+                assert.deepStrictEqual(hoistTypes(output), output, file)
+            }
+        }
+    })
+})
+
+describe("Resolver Engine", () => {
+    /**
+     * Load a valid resolver fixture
+     */
+    function loadResolver(filename: string): ResolverDocument {
+        const fixturePath = join(
+            import.meta.dirname,
+            "..",
+            "fixtures",
+            "resolver",
+            "valid",
+            filename
+        )
+        return JSON.parse(readFileSync(fixturePath, "utf-8"))
+    }
+
+    const resolver: ResolverDocument = {
+        version: "2025.10",
+        sets: {
+            base: {
+                sources: [
+                    {
+                        colors: {
+                            $type: "color",
+                            black: {
+                                $value: {
+                                    colorSpace: "srgb",
+                                    components: [0, 0, 0],
+                                },
+                            },
+                            white: {
+                                $value: {
+                                    colorSpace: "srgb",
+                                    components: [1, 1, 1],
+                                },
+                            },
+                        },
+                    },
+                ],
+            },
+            brand: {
+                sources: [{ $ref: "#/sets/base" }, { $ref: "#/$defs/brand" }],
+            },
+        },
+        modifiers: {
+            theme: {
+                contexts: {
+                    light: [{ text: { $value: "{colors.black}" } }],
+                    dark: [{ text: { $value: "{colors.white}" } }],
+                },
+                default: "light",
+            },
+        },
+        resolutionOrder: [
+            { $ref: "#/sets/brand" },
+            {
+                type: "set",
+                name: "overrides",
+                sources: [{ colors: { white: { $value: "{colors.black}" } } }],
+            },
+            { $ref: "#/modifiers/theme" },
+        ],
+        $defs: {
+            brand: { colors: { accent: { $value: "{colors.white}" } } },
+        },
+    }
+
+    it("merges sources in resolution order and resolves the result", () => {
+        const tokens = resolve(resolver, { theme: "dark" }) as any
+        const black = { colorSpace: "srgb", components: [0, 0, 0] }
+
+        assert.deepStrictEqual(tokens.colors.white, {
+            $value: black,
+            $type: "color",
+        })
+        // Aliases are resolved after merging, so they see the override
+        assert.deepStrictEqual(tokens.colors.accent.$value, black)
+        assert.deepStrictEqual(tokens.text, { $value: black, $type: "color" })
+    })
+
+    it("lists the selected sources with where they come from", () => {
+        assert.deepStrictEqual(
+            collectSources(resolver).map(({ pointer, name, context }) => ({
+                pointer,
+                name,
+                context,
+            })),
+            [
+                {
+                    pointer: "#/sets/base/sources/0",
+                    name: "brand",
+                    context: undefined,
+                },
+                {
+                    pointer: "#/$defs/brand",
+                    name: "brand",
+                    context: undefined,
+                },
+                {
+                    pointer: "#/resolutionOrder/1/sources/0",
+                    name: "overrides",
+                    context: undefined,
+                },
+                {
+                    pointer: "#/modifiers/theme/contexts/light/0",
+                    name: "theme",
+                    context: "light",
+                },
+            ]
+        )
+    })
+
+    it("uses inputs and default contexts of every modifier", () => {
+        const document = loadResolver("resolver-with-multiple-modifiers.json")
+
+        const tokens = resolve(document, { theme: "dark" }) as any
+        assert.deepStrictEqual(tokens.color.text.$value.components, [1, 1, 1])
+        assert.deepStrictEqual(tokens.fontSize.base.$value.value, 16)
+
+        const large = resolve(document, {
+            theme: "light",
+            size: "large",
+        }) as any
+        assert.deepStrictEqual(large.fontSize.base.$value.value, 18)
+
+        const referencing = resolve(
+            loadResolver("resolver-modifier-referencing-set.json"),
+            { size: "small" }
+        ) as any
+        assert.strictEqual(referencing.space.base.$type, "dimension")
+        assert.strictEqual(referencing.space.multiplier.$value, 0.75)
+    })
+
+    it("records which sources declared each merged token", () => {
+        const provenance = new Map<string, SourceProvenance>()
+        resolve(resolver, { theme: "dark" }, { provenance })
+
+        assert.deepStrictEqual(Array.from(provenance.keys()), [
+            "colors.black",
+            "colors.white",
+            "colors.accent",
+            "text",
+        ])
+        assert.deepStrictEqual(provenance.get("colors.white"), {
+            source: {
+                pointer: "#/resolutionOrder/1/sources/0",
+                index: 2,
+                name: "overrides",
+            },
+            overridden: [
+                { pointer: "#/sets/base/sources/0", index: 0, name: "brand" },
+            ],
+        })
+        assert.deepStrictEqual(provenance.get("text"), {
+            source: {
+                pointer: "#/modifiers/theme/contexts/dark/0",
+                index: 3,
+                name: "theme",
+                context: "dark",
+            },
+            overridden: [],
+        })
+    })
+
+    it("leaves out tokens a later source replaced with a group", () => {
+        const provenance = new Map<string, SourceProvenance>()
+        const layered: ResolverDocument = {
+            version: "2025.10",
+            resolutionOrder: [
+                {
+                    type: "set",
+                    name: "base",
+                    sources: [
+                        { size: { $type: "number", $value: 1 } },
+                        {
+                            size: {
+                                $type: "number",
+                                small: { $value: 1 },
+                                large: { $value: 2 },
+                            },
+                        },
+                    ],
+                },
+            ],
+        }
+
+        resolve(layered, {}, { provenance })
+
+        assert.deepStrictEqual(Array.from(provenance.keys()), [
+            "size.small",
+            "size.large",
+        ])
+        assert.deepStrictEqual(
+            Array.from(traceSources(collectSources(layered)).keys()),
+            ["size", "size.small", "size.large"]
+        )
+    })
+
+    it("throws on missing inputs, unknown contexts and circular sets", () => {
+        const document = loadResolver("resolver-with-multiple-modifiers.json")
+
+        assert.throws(
+            () => resolve(document),
+            /\/modifiers\/theme: No input for modifier "theme", which has no default context/
+        )
+        assert.throws(
+            () => resolve(document, { theme: "sepia" }),
+            /\/modifiers\/theme\/contexts: Input "sepia" for modifier "theme" is not one of its contexts: light, dark/
+        )
+        assert.throws(
+            () =>
+                resolve({
+                    version: "2025.10",
+                    sets: {
+                        a: { sources: [{ $ref: "#/sets/b" }] },
+                        b: { sources: [{ $ref: "#/sets/a" }] },
+                    },
+                    resolutionOrder: [{ $ref: "#/sets/a" }],
+                }),
+            /Circular reference detected in sets: a -> b -> a/
+        )
+    })
+
+    describe("token files", () => {
+        const fileResolver: ResolverDocument = {
+            version: "2025.10",
+            sets: {
+                base: {
+                    sources: [
+                        { $ref: "tokens/base.json" },
+                        { $ref: "tokens/brand.json#/semantic" },
+                    ],
+                },
+            },
+            resolutionOrder: [{ $ref: "#/sets/base" }],
+        }
+        const files = {
+            "design/tokens/base.json": {
+                colors: {
+                    $type: "color",
+                    black: {
+                        $value: { colorSpace: "srgb", components: [0, 0, 0] },
+                    },
+                },
+            },
+            "design/tokens/brand.json": {
+                semantic: { text: { $value: "{colors.black}" } },
+            },
+            "design/tokens/invalid.json": {
+                colors: { black: { $type: "color", $value: "#000000" } },
+            },
+            "design/tokens/links.json": {
+                link: { $ref: "./palette/blue.json#/blue/$value" },
+                brand: { $value: "{colors.black}" },
+            },
+            "design/tokens/buttons.json": {
+                button: {
+                    base: { text: { $value: "{colors.black}" } },
+                    primary: { $extends: "{button.base}" },
+                },
+            },
+            "design/tokens/palette/blue.json": {
+                blue: { $ref: "../base.json#/colors/black/$value" },
+            },
+            "design/tokens/leak.json": {
+                secret: { $ref: "../../secrets.json#/key/$value" },
+            },
+            "secrets.json": { key: { $value: "hunter2" } },
+            "design/..tokens.json": {},
+        }
+        const sourceOptions = {
+            location: "design/resolver.json",
+            loader: createMemoryLoader(files),
+            rootDir: "design",
+            validateFile: (tokens: DesignTokenObject) =>
+                validateTokenDocument(tokens, { preprocess: false }).errors,
+        }
+
+        it("loads files relative to the resolver, with fragments", () => {
+            const sources = collectSources(fileResolver, {}, sourceOptions)
+            assert.deepStrictEqual(
+                sources.map(({ pointer, file }) => ({ pointer, file })),
+                [
+                    { pointer: "#", file: "design/tokens/base.json" },
+                    {
+                        pointer: "#/semantic",
+                        file: "design/tokens/brand.json",
+                    },
+                ]
+            )
+
+            assert.deepStrictEqual(traceSources(sources).get("text")?.source, {
+                pointer: "#/semantic",
+                file: "design/tokens/brand.json",
+                index: 1,
+                name: "base",
+            })
+
+            const tokens = resolve(fileResolver, {}, sourceOptions) as any
+            assert.deepStrictEqual(tokens.text, {
+                $value: { colorSpace: "srgb", components: [0, 0, 0] },
+                $type: "color",
+            })
+        })
+
+        it("follows references of token files relative to them", () => {
+            const tokens = resolve(
+                {
+                    ...fileResolver,
+                    sets: {
+                        base: {
+                            sources: [
+                                { $ref: "tokens/base.json" },
+                                { $ref: "tokens/links.json" },
+                            ],
+                        },
+                    },
+                },
+                {},
+                { ...sourceOptions, validateFile: undefined }
+            ) as any
+            const black = { colorSpace: "srgb", components: [0, 0, 0] }
+            assert.deepStrictEqual(tokens.link.$value, black)
+            assert.deepStrictEqual(tokens.brand.$value, black)
+        })
+
+        it("leaves curly brace references of token files to the merged tokens", () => {
+            const tokens = resolve(
+                {
+                    ...fileResolver,
+                    sets: {
+                        base: {
+                            sources: [
+                                { $ref: "tokens/base.json" },
+                                { $ref: "tokens/buttons.json" },
+                            ],
+                        },
+                    },
+                },
+                {},
+                { ...sourceOptions, validateFile: undefined }
+            ) as any
+            assert.deepStrictEqual(tokens.button.primary.text, {
+                $value: { colorSpace: "srgb", components: [0, 0, 0] },
+                $type: "color",
+            })
+        })
+
+        it("refuses files outside the root directory referenced by token files", () => {
+            assert.throws(
+                () =>
+                    resolve(
+                        {
+                            ...fileResolver,
+                            sets: {
+                                base: {
+                                    sources: [{ $ref: "tokens/leak.json" }],
+                                },
+                            },
+                        },
+                        {},
+                        { ...sourceOptions, validateFile: undefined }
+                    ),
+                (error: any) =>
+                    error.code === "outside-root" &&
+                    /Document "secrets.json" is outside the root directory "design"/.test(
+                        error.message
+                    )
+            )
+        })
+
+        it("rejects files that are not valid token files", () => {
+            assert.throws(
+                () =>
+                    collectSources(
+                        {
+                            ...fileResolver,
+                            sets: {
+                                base: {
+                                    sources: [{ $ref: "tokens/invalid.json" }],
+                                },
+                            },
+                        },
+                        {},
+                        sourceOptions
+                    ),
+                (error: any) =>
+                    error.code === "invalid-document" &&
+                    error.file === "design/tokens/invalid.json" &&
+                    /which is not a valid token file/.test(error.message)
+            )
+        })
+
+        it("refuses files outside the root directory", () => {
+            assert.throws(
+                () =>
+                    collectSources(
+                        {
+                            ...fileResolver,
+                            sets: {
+                                base: {
+                                    sources: [{ $ref: "../secrets.json" }],
+                                },
+                            },
+                        },
+                        {},
+                        sourceOptions
+                    ),
+                (error: any) =>
+                    error.code === "outside-root" &&
+                    /#\/sets\/base\/sources\/0 references "..\/secrets.json", which is outside the root directory "design"/.test(
+                        error.message
+                    )
+            )
+        })
+
+        it("accepts files whose name starts with two dots", () => {
+            const sources = collectSources(
+                {
+                    ...fileResolver,
+                    sets: { base: { sources: [{ $ref: "..tokens.json" }] } },
+                },
+                {},
+                sourceOptions
+            )
+            assert.strictEqual(sources[0].file, "design/..tokens.json")
+        })
+    })
+})
+
+describe("Resolver Bundler", () => {
+    const validDir = join(
+        import.meta.dirname,
+        "..",
+        "fixtures",
+        "resolver",
+        "valid"
+    )
+    const fixtures = readdirSync(validDir).map((filename) => ({
+        filename,
+        resolver: JSON.parse(
+            readFileSync(join(validDir, filename), "utf-8")
+        ) as ResolverDocument,
+    }))
+
+    /**
+     * Assert a resolver document passes the resolver schema and semantic
+     * validation
+     */
+    function assertValidResolver(resolver: ResolverDocument, message: string) {
+        const { ajv, formatSchema } = getSchemaContext("resolver")
+        assert.deepStrictEqual(
+            validateAgainstSchema(resolver as any, ajv, formatSchema).errors,
+            [],
+            message
+        )
+        assert.doesNotThrow(
+            () => validateResolverSemantics(resolver as any),
+            message
+        )
+    }
+
+    it("unbundles inline sources into files that resolve identically", () => {
+        for (const { filename, resolver } of fixtures) {
+            const { resolver: unbundled, files } = unbundleResolver(resolver)
+            const options = {
+                location: "resolver.json",
+                loader: createMemoryLoader(files),
+            }
+
+            assertValidResolver(unbundled, filename)
+            for (const inputs of enumeratePermutations(resolver)
+                .permutations) {
+                assert.deepStrictEqual(
+                    resolve(unbundled, inputs, options),
+                    resolve(resolver, inputs),
+                    `${filename} with ${JSON.stringify(inputs)}`
+                )
+            }
+            // Bundling the files back gives the original document
+            assert.deepStrictEqual(
+                bundleResolver(unbundled, options),
+                resolver,
+                filename
+            )
+        }
+    })
+
+    it("names files after the sets and modifier contexts they belong to", () => {
+        const { resolver, files } = unbundleResolver({
+            version: "2025.10",
+            sets: {
+                base: { sources: [{ a: { $value: 1, $type: "number" } }] },
+                "brand/core": {
+                    sources: [
+                        { b: { $value: 2, $type: "number" } },
+                        { $ref: "#/sets/base" },
+                        { c: { $value: 3, $type: "number" } },
+                    ],
+                },
+            },
+            modifiers: {
+                theme: {
+                    contexts: {
+                        dark: [{ d: { $value: 4, $type: "number" } }],
+                    },
+                },
+            },
+            resolutionOrder: [
+                { $ref: "#/sets/brand~1core" },
+                { $ref: "#/modifiers/theme" },
+            ],
+        })
+
+        assert.deepStrictEqual(Object.keys(files), [
+            "sets/base.json",
+            "sets/brand_core-0.json",
+            "sets/brand_core-2.json",
+            "modifiers/theme/dark.json",
+        ])
+        assert.deepStrictEqual(resolver.sets!["brand/core"].sources, [
+            { $ref: "sets/brand_core-0.json" },
+            { $ref: "#/sets/base" },
+            { $ref: "sets/brand_core-2.json" },
+        ])
+    })
+
+    it("keeps every name to a single path segment", () => {
+        const tokens = { a: { $value: 1, $type: "number" } }
+        const { files } = unbundleResolver({
+            version: "2025.10",
+            sets: {
+                "..": { sources: [tokens] },
+                "../../etc/passwd": { sources: [tokens] },
+                "a\\b": { sources: [tokens] },
+            },
+            modifiers: {
+                theme: { contexts: { ".": [tokens], "": [tokens] } },
+            },
+            resolutionOrder: [{ $ref: "#/modifiers/theme" }],
+        })
+
+        assert.deepStrictEqual(Object.keys(files), [
+            "sets/_...json",
+            "sets/.._.._etc_passwd.json",
+            "sets/a_b.json",
+            "modifiers/theme/_..json",
+            "modifiers/theme/_.json",
+        ])
+    })
+
+    it("inlines token files, including fragments", () => {
+        const resolver: ResolverDocument = {
+            version: "2025.10",
+            sets: {
+                base: {
+                    sources: [
+                        { $ref: "tokens/base.json" },
+                        { $ref: "tokens/brand.json#/semantic" },
+                    ],
+                },
+            },
+            resolutionOrder: [{ $ref: "#/sets/base" }],
+        }
+        const options = {
+            location: "design/resolver.json",
+            loader: createMemoryLoader({
+                "design/tokens/base.json": {
+                    colors: {
+                        $type: "color",
+                        black: {
+                            $value: {
+                                colorSpace: "srgb",
+                                components: [0, 0, 0],
+                            },
+                        },
+                    },
+                },
+                "design/tokens/brand.json": {
+                    semantic: { text: { $value: "{colors.black}" } },
+                },
+            }),
+        }
+
+        const bundled = bundleResolver(resolver, options)
+
+        assert.deepStrictEqual(bundled.sets!.base.sources[1], {
+            text: { $value: "{colors.black}" },
+        })
+        assertValidResolver(bundled, "bundled resolver")
+        assert.deepStrictEqual(
+            resolve(bundled),
+            resolve(resolver, {}, options)
+        )
+    })
+
+    it("rebases the references of inlined token files", () => {
+        const resolver: ResolverDocument = {
+            version: "2025.10",
+            sets: {
+                base: { sources: [{ $ref: "tokens/theme.json#/light" }] },
+            },
+            resolutionOrder: [{ $ref: "#/sets/base" }],
+        }
+        const options = {
+            location: "design/resolver.json",
+            loader: createMemoryLoader({
+                "design/tokens/theme.json": {
+                    shared: { blue: { $type: "number", $value: 1 } },
+                    light: {
+                        primary: { $ref: "#/shared/blue/$value" },
+                        accent: { $ref: "./palette.json#/red/$value" },
+                    },
+                },
+                "design/tokens/palette.json": {
+                    red: { $type: "number", $value: 2 },
+                },
+            }),
+        }
+
+        const bundled = bundleResolver(resolver, options)
+
+        assert.deepStrictEqual(bundled.sets!.base.sources[0], {
+            primary: { $ref: "tokens/theme.json#/shared/blue/$value" },
+            accent: { $ref: "tokens/palette.json#/red/$value" },
+        })
+        assert.deepStrictEqual(
+            resolve(bundled, {}, options),
+            resolve(resolver, {}, options)
+        )
+    })
+
+    it("rebases the references of unbundled sources", () => {
+        const resolver: ResolverDocument = {
+            version: "2025.10",
+            sets: {
+                a: { sources: [{ blue: { $type: "number", $value: 1 } }] },
+                b: {
+                    sources: [
+                        { link: { $ref: "#/blue/$value" } },
+                        { other: { $ref: "tokens/red.json#/red/$value" } },
+                    ],
+                },
+            },
+            resolutionOrder: [{ $ref: "#/sets/a" }, { $ref: "#/sets/b" }],
+        }
+        const red = {
+            "tokens/red.json": { red: { $type: "number", $value: 2 } },
+        }
+
+        const { resolver: unbundled, files } = unbundleResolver(resolver)
+
+        // The link points into the merged tokens, which no file can reference
+        assert.deepStrictEqual(unbundled.sets!.b.sources, [
+            { link: { $ref: "#/blue/$value" } },
+            { $ref: "sets/b-1.json" },
+        ])
+        assert.deepStrictEqual(files["sets/b-1.json"], {
+            other: { $ref: "../tokens/red.json#/red/$value" },
+        })
+
+        const expected = resolve(
+            resolver,
+            {},
+            {
+                location: "resolver.json",
+                loader: createMemoryLoader(red),
+            }
+        ) as any
+        assert.strictEqual(expected.link.$value, 1)
+        assert.deepStrictEqual(
+            resolve(
+                unbundled,
+                {},
+                {
+                    location: "resolver.json",
+                    loader: createMemoryLoader({ ...files, ...red }),
+                }
+            ),
+            expected
+        )
+        assert.deepStrictEqual(
+            bundleResolver(unbundled, {
+                location: "resolver.json",
+                loader: createMemoryLoader({ ...files, ...red }),
+            }),
+            resolver
+        )
+    })
+})
+
+describe("Context Diff", () => {
+    const resolver: ResolverDocument = {
+        version: "2025.10",
+        sets: {
+            base: {
+                sources: [
+                    {
+                        space: {
+                            $type: "number",
+                            unit: { $value: 4 },
+                            gap: { $value: "{space.unit}" },
+                        },
+                    },
+                ],
+            },
+        },
+        modifiers: {
+            density: {
+                contexts: {
+                    compact: [],
+                    comfortable: [
+                        {
+                            space: {
+                                gap: { $value: 8 },
+                                inset: { $value: 12 },
+                            },
+                        },
+                    ],
+                    print: [
+                        {
+                            space: {
+                                gap: {
+                                    $type: "dimension",
+                                    $value: { value: 2, unit: "rem" },
+                                },
+                            },
+                        },
+                    ],
+                },
+                default: "compact",
+            },
+            theme: {
+                contexts: {
+                    light: [{ space: { unit: { $value: 4 } } }],
+                    dark: [{ space: { unit: { $value: 5 } } }],
+                },
+                default: "light",
+            },
+        },
+        resolutionOrder: [
+            { $ref: "#/sets/base" },
+            { $ref: "#/modifiers/theme" },
+            { $ref: "#/modifiers/density" },
+        ],
+    }
+
+    it("reports missing tokens, value and type changes across all contexts", () => {
+        const diff = diffContexts(resolver, "density")
+
+        assert.deepStrictEqual(diff.contexts, [
+            "compact",
+            "comfortable",
+            "print",
+        ])
+        assert.strictEqual(diff.tokenCount, 3)
+        assert.deepStrictEqual(
+            diff.differences.map(({ path, changes }) => ({ path, changes })),
+            [
+                { path: "space.gap", changes: ["value", "type"] },
+                { path: "space.inset", changes: ["presence"] },
+            ]
+        )
+        assert.deepStrictEqual(diff.differences[1].contexts, {
+            compact: null,
+            comfortable: { $type: "number", $value: 12 },
+            print: null,
+        })
+        // The result is plain JSON
+        assert.deepStrictEqual(JSON.parse(JSON.stringify(diff)), diff)
+    })
+
+    it("compares two contexts with the other modifiers fixed", () => {
+        const diff = diffContexts(resolver, "theme", {
+            contexts: ["light", "dark"],
+            inputs: { density: "compact" },
+        })
+
+        assert.deepStrictEqual(diff.inputs, { density: "compact" })
+        assert.deepStrictEqual(formatContextDiff(diff).split("\n"), [
+            "theme: 2 of 2 tokens differ between light and dark",
+            "",
+            "Token       Changes  light       dark",
+            "space.unit  value    4 (number)  5 (number)",
+            "space.gap   value    4 (number)  5 (number)",
+        ])
+        // The overridden gap no longer follows the unit
+        const comfortable = diffContexts(resolver, "theme", {
+            inputs: { density: "comfortable" },
+        })
+        assert.deepStrictEqual(
+            comfortable.differences.map(({ path }) => path),
+            ["space.unit"]
+        )
+        assert.strictEqual(comfortable.tokenCount, 3)
+    })
+
+    it("throws for unused modifiers and fewer than two contexts", () => {
+        assert.throws(
+            () => diffContexts(resolver, "size"),
+            /Modifier "size" is not used in resolutionOrder/
+        )
+        assert.throws(
+            () => diffContexts(resolver, "theme", { contexts: ["dark"] }),
+            /needs at least two contexts, got: dark/
+        )
+        assert.throws(
+            () =>
+                diffContexts(resolver, "theme", {
+                    contexts: ["light", "sepia"],
+                }),
+            /Input "sepia" for modifier "theme" is not one of its contexts/
+        )
+    })
+})
+
+describe("Resolver Type Stability", () => {
+    const validDir = join(
+        import.meta.dirname,
+        "..",
+        "fixtures",
+        "resolver",
+        "valid"
+    )
+
+    it("accepts the valid resolver fixtures", () => {
+        for (const filename of readdirSync(validDir)) {
+            const resolver = JSON.parse(
+                readFileSync(join(validDir, filename), "utf-8")
+            )
+            assert.deepStrictEqual(checkTypeStability(resolver), [], filename)
+        }
+    })
+
+    it("reports tokens whose type differs between contexts", () => {
+        const diagnostics = checkTypeStability({
+            version: "2025.10",
+            sets: {
+                base: {
+                    sources: [
+                        {
+                            color: {
+                                $type: "color",
+                                background: { $value: "#ffffff" },
+                                text: { $value: "#000000" },
+                            },
+                        },
+                    ],
+                },
+            },
+            modifiers: {
+                theme: {
+                    contexts: {
+                        light: [],
+                        // text inherits color from the base set
+                        dark: [
+                            {
+                                color: {
+                                    background: {
+                                        $type: "dimension",
+                                        $value: { value: 0, unit: "px" },
+                                    },
+                                    text: { $value: "#ffffff" },
+                                },
+                            },
+                        ],
+                        contrast: [
+                            {
+                                color: {
+                                    $type: "number",
+                                    background: { $value: 0 },
+                                },
+                            },
+                        ],
+                    },
+                    default: "light",
+                },
+            },
+            resolutionOrder: [
+                { $ref: "#/sets/base" },
+                { $ref: "#/modifiers/theme" },
+            ],
+        })
+
+        assert.deepStrictEqual(diagnostics, [
+            {
+                path: "color.background",
+                code: "unstable-type",
+                severity: "error",
+                message:
+                    "has different types: color at #/sets/base/sources/0/color/background; dimension at #/modifiers/theme/contexts/dark/0/color/background; number at #/modifiers/theme/contexts/contrast/0/color/background",
+                pointer: "/modifiers/theme/contexts/dark/0/color/background",
+            },
+        ])
+    })
+
+    it("reports token paths that are also groups", () => {
+        const diagnostics = checkTypeStability(
+            {
+                version: "2025.10",
+                sets: {
+                    base: { sources: [{ $ref: "tokens/base.json" }] },
+                },
+                resolutionOrder: [
+                    { $ref: "#/sets/base" },
+                    {
+                        type: "set",
+                        name: "scale",
+                        sources: [
+                            {
+                                size: {
+                                    $type: "number",
+                                    small: { $value: 1 },
+                                },
+                            },
+                        ],
+                    },
+                ],
+            },
+            {
+                location: "resolver.json",
+                loader: createMemoryLoader({
+                    "tokens/base.json": {
+                        size: { $type: "number", $value: 1 },
+                    },
+                }),
+            }
+        )
+
+        assert.deepStrictEqual(diagnostics, [
+            {
+                path: "size",
+                code: "token-group-conflict",
+                severity: "error",
+                message:
+                    "is a token at tokens/base.json#/size and a group at #/resolutionOrder/1/sources/0/size",
+                pointer: "/size",
+                file: "tokens/base.json",
+            },
+        ])
+    })
+})
+
+describe("Resolver Semantics", () => {
+    const resolver: ResolverDocument = {
+        version: "2025.10",
+        modifiers: {
+            theme: {
+                contexts: { light: [], dark: [] },
+                default: "sepia",
+            },
+            density: {
+                contexts: { compact: [], comfortable: [] },
+            },
+        },
+        resolutionOrder: [
+            { $ref: "#/modifiers/theme" },
+            { $ref: "#/modifiers/density" },
+            {
+                type: "modifier",
+                name: "size",
+                contexts: { small: [], large: [] },
+                default: "medium",
+            },
+        ],
+    }
+
+    it("checks that modifier defaults are one of their contexts", () => {
+        const diagnostics: Diagnostic[] = []
+        validateResolverSemantics(resolver as any, { diagnostics })
+
+        assert.deepStrictEqual(
+            diagnostics.map(({ path, code, message }) => ({
+                path,
+                code,
+                message,
+            })),
+            [
+                {
+                    path: "/modifiers/theme/default",
+                    code: "invalid-default",
+                    message:
+                        'Default context "sepia" is not one of the contexts: light, dark',
+                },
+                {
+                    path: "/resolutionOrder/2/default",
+                    code: "invalid-default",
+                    message:
+                        'Default context "medium" is not one of the contexts: small, large',
+                },
+            ]
+        )
+        assert.throws(
+            () => validateResolverSemantics(resolver as any),
+            /^DiagnosticError: \/modifiers\/theme\/default: Default context "sepia"/
+        )
+    })
+
+    it("checks that every reference exists and has an allowed target", () => {
+        const diagnostics: Diagnostic[] = []
+        validateResolverSemantics(
+            {
+                version: "2025.10",
+                sets: {
+                    base: {
+                        sources: [
+                            { $ref: "#/sets/missing" },
+                            { $ref: "#/modifiers/theme" },
+                            { $ref: "./tokens.json" },
+                            { $ref: "#/$defs/extra" },
+                        ],
+                    },
+                },
+                modifiers: {
+                    theme: {
+                        contexts: {
+                            light: [{ $ref: "#/sets/base" }],
+                            dark: [{ $ref: "#/sets/base%" }],
+                        },
+                    },
+                },
+                resolutionOrder: [
+                    { $ref: "#/sets/base" },
+                    { $ref: "#/modifiers/size" },
+                    { $ref: "#/$defs/extra" },
+                ],
+                $defs: { extra: {} },
+            },
+            { diagnostics }
+        )
+
+        assert.deepStrictEqual(
+            diagnostics.map(({ path, code, message }) => ({
+                path,
+                code,
+                message,
+            })),
+            [
+                {
+                    path: "/sets/base/sources/0/$ref",
+                    code: "unresolved-reference",
+                    message:
+                        'Reference "#/sets/missing" points to a set that does not exist',
+                },
+                {
+                    path: "/sets/base/sources/1/$ref",
+                    code: "invalid-reference",
+                    message: "Sources cannot reference a modifier",
+                },
+                {
+                    path: "/modifiers/theme/contexts/dark/0/$ref",
+                    code: "invalid-pointer",
+                    message:
+                        'Invalid JSON Pointer "#/sets/base%": "%" at position 11 must be followed by two hexadecimal digits',
+                },
+                {
+                    path: "/resolutionOrder/1/$ref",
+                    code: "unresolved-reference",
+                    message:
+                        'Reference "#/modifiers/size" points to a modifier that does not exist',
+                },
+                {
+                    path: "/resolutionOrder/2/$ref",
+                    code: "invalid-reference",
+                    message:
+                        "resolutionOrder items must reference a set or a modifier, not another part of the document",
+                },
+            ]
+        )
+    })
+
+    it("reports cycles through sets and modifiers", () => {
+        const diagnostics: Diagnostic[] = []
+        validateResolverSemantics(
+            {
+                version: "2025.10",
+                sets: {
+                    a: { sources: [{ $ref: "#/sets/b" }] },
+                    b: { sources: [{ $ref: "#/sets/c/sources/0" }] },
+                    c: { sources: [{ $ref: "#/sets/a" }] },
+                },
+                modifiers: {
+                    theme: {
+                        contexts: {
+                            light: [{ $ref: "#/sets/a" }],
+                            dark: [],
+                        },
+                    },
+                },
+                resolutionOrder: [{ $ref: "#/modifiers/theme" }],
+            },
+            { diagnostics }
+        )
+
+        assert.deepStrictEqual(
+            diagnostics.map(({ path, message }) => ({ path, message })),
+            [
+                {
+                    path: "/sets/c/sources/0/$ref",
+                    message:
+                        "Circular reference detected: #/sets/a -> #/sets/b -> #/sets/c -> #/sets/a",
+                },
+            ]
+        )
+    })
+
+    it("accepts the references of every valid resolver fixture", () => {
+        const validDir = join(
+            import.meta.dirname,
+            "..",
+            "fixtures",
+            "resolver",
+            "valid"
+        )
+
+        for (const file of readdirSync(validDir)) {
+            const diagnostics: Diagnostic[] = []
+            const document = JSON.parse(
+                readFileSync(join(validDir, file), "utf-8")
+            )
+            validateResolverSemantics(document, { diagnostics })
+            assert.deepStrictEqual(diagnostics, [], file)
+        }
+    })
+
+    it("checks modifier inputs", () => {
+        const diagnostics = validateResolverInputs(
+            resolver,
+            { theme: "dark", size: "huge", color: "red" },
+            { diagnostics: [] }
+        )
+
+        assert.deepStrictEqual(
+            diagnostics.map(({ path, code }) => ({ path, code })),
+            [
+                {
+                    path: "/resolutionOrder/2/contexts",
+                    code: "unknown-context",
+                },
+                { path: "/modifiers", code: "unknown-modifier" },
+                { path: "/modifiers/density", code: "missing-input" },
+            ]
+        )
+        assert.deepStrictEqual(
+            validateResolverInputs(resolver, {
+                theme: "light",
+                density: "compact",
+                size: "small",
+            }),
+            []
+        )
+    })
+})
+
+describe("Resolver Permutations", () => {
+    const color = (value: number) => ({
+        $type: "color",
+        $value: { colorSpace: "srgb", components: [value, value, value] },
+    })
+    const size = (value: number) => ({
+        $type: "dimension",
+        $value: { value, unit: "px" },
+    })
+
+    // The dark theme aliases a token only the compact density defines
+    const resolver: ResolverDocument = {
+        version: "2025.10",
+        modifiers: {
+            theme: {
+                contexts: {
+                    light: [{ text: color(0) }],
+                    dark: [
+                        {
+                            text: color(1),
+                            outline: {
+                                $type: "dimension",
+                                $value: "{space.tight}",
+                            },
+                        },
+                    ],
+                },
+            },
+            density: {
+                contexts: {
+                    compact: [{ space: { tight: size(2) } }],
+                    comfortable: [{ space: { loose: size(8) } }],
+                },
+            },
+            unused: {
+                contexts: { a: [], b: [] },
+            },
+        },
+        resolutionOrder: [
+            { $ref: "#/modifiers/theme" },
+            { $ref: "#/modifiers/density" },
+        ],
+    }
+
+    it("enumerates the contexts of the modifiers in resolutionOrder", () => {
+        const { permutations, total, capped } = enumeratePermutations(resolver)
+
+        assert.strictEqual(total, 4)
+        assert.strictEqual(capped, false)
+        assert.deepStrictEqual(permutations, [
+            { theme: "light", density: "compact" },
+            { theme: "light", density: "comfortable" },
+            { theme: "dark", density: "compact" },
+            { theme: "dark", density: "comfortable" },
+        ])
+    })
+
+    it("reports the permutations that fail validation", () => {
+        const report = validateResolverPermutations(resolver)
+
+        assert.strictEqual(report.checked, 4)
+        assert.deepStrictEqual(
+            report.failures.map(({ inputs }) => inputs),
+            [{ theme: "dark", density: "comfortable" }]
+        )
+        assert.match(
+            formatPermutationReport(report),
+            /^1 of 4 permutations failed\n\ntheme=dark, density=comfortable:\n {2}outline: \[unresolved-reference\]/
+        )
+    })
+
+    it("resolves permutations like resolve", () => {
+        const fragment: ResolverDocument = {
+            version: "2025.10",
+            sets: {
+                base: { sources: [{ $ref: "tokens/theme.json#/light" }] },
+            },
+            resolutionOrder: [{ $ref: "#/sets/base" }],
+        }
+        const report = validateResolverPermutations(fragment, {
+            location: "resolver.json",
+            loader: createMemoryLoader({
+                "tokens/theme.json": {
+                    shared: { black: color(0) },
+                    light: {
+                        text: {
+                            $type: "color",
+                            $ref: "#/shared/black/$value",
+                        },
+                    },
+                },
+            }),
+        })
+
+        assert.deepStrictEqual(report.failures, [])
+    })
+
+    it("caps and samples large numbers of permutations", () => {
+        const contexts = Object.fromEntries(
+            ["a", "b", "c", "d", "e", "f"].map((name) => [name, []])
+        )
+        const large: ResolverDocument = {
+            version: "2025.10",
+            resolutionOrder: ["m1", "m2", "m3", "m4"].map((name) => ({
+                type: "modifier" as const,
+                name,
+                contexts,
+            })),
+        }
+
+        const first = enumeratePermutations(large, { limit: 10 })
+        assert.strictEqual(first.total, 1296)
+        assert.strictEqual(first.capped, true)
+        assert.strictEqual(first.sampled, false)
+        assert.deepStrictEqual(first.permutations[9], {
+            m1: "a",
+            m2: "a",
+            m3: "b",
+            m4: "d",
+        })
+
+        const sample = enumeratePermutations(large, {
+            limit: 10,
+            sample: true,
+            seed: 7,
+        })
+        assert.strictEqual(sample.sampled, true)
+        assert.strictEqual(
+            new Set(sample.permutations.map((p) => JSON.stringify(p))).size,
+            10
+        )
+        assert.deepStrictEqual(
+            enumeratePermutations(large, { limit: 10, sample: true, seed: 7 }),
+            sample
+        )
+    })
+
+    it("rejects limits that are not positive integers", () => {
+        for (const limit of [0, -1, 1.5, NaN]) {
+            assert.throws(
+                () => enumeratePermutations(resolver, { limit }),
+                /The permutation limit must be a positive integer/,
+                String(limit)
+            )
+        }
+    })
+})
+
+describe("Combined Preprocessing", () => {
+    it("handles complex scenario with references and inheritance", () => {
+        const input = loadFixture(
+            "valid/references",
+            "composite-with-refs.json"
+        )
+
+        // Process: references first, then inheritance
+        const afterReferences = resolveReferences(input)
+        const final = processTypeInheritance(afterReferences)
+
+        // Check that references in shadow were resolved
+        const shadowValue = (final.shadows as any).default.$value
+        assert.deepStrictEqual(
+            shadowValue.color,
+            {
+                colorSpace: "srgb",
+                components: [0, 0, 0],
+                alpha: 0.2,
+            },
+            "Color reference should be resolved"
+        )
+
+        // Check that all tokens have explicit types after preprocessing
+        assert.strictEqual(
+            (final.colors as any).black.$type,
+            "color",
+            "Color token should have type"
+        )
+        assert.strictEqual(
+            (final.spacing as any).small.$type,
+            "dimension",
+            "Dimension token should have type"
+        )
+        assert.strictEqual(
+            (final.shadows as any).default.$type,
+            "shadow",
+            "Shadow token should have type"
+        )
+    })
+})
+
+describe("Token Explanation", () => {
+    const tokens: DesignTokenObject = {
+        color: {
+            $type: "color",
+            black: {
+                $value: { colorSpace: "srgb", components: [0, 0, 0] },
+            },
+            text: { $value: "{color.black}" },
+            link: { $value: "{color.text}" },
+            broken: { $value: "{color.none}" },
+        },
+    }
+
+    it("explains where a token's value comes from", () => {
+        const explanation = explainToken(tokens, "color.text")
+
+        assert.deepStrictEqual(explanation, {
+            path: "color.text",
+            $type: "color",
+            $value: { colorSpace: "srgb", components: [0, 0, 0] },
+            declared: "{color.black}",
+            references: ["color.black"],
+            referencedBy: ["color.link"],
+            definition: {
+                origin: "color.text",
+                chain: ["color.text"],
+                overridden: false,
+            },
+            diagnostics: [],
+        })
+        assert.strictEqual(
+            formatTokenExplanation(explanation),
+            [
+                "color.text",
+                "  $type: color",
+                '  $value: {"colorSpace":"srgb","components":[0,0,0]}',
+                '  written as: "{color.black}"',
+                "  references: color.black",
+                "  referenced by: color.link",
+            ].join("\n")
+        )
+    })
+
+    it("explains tokens whose references cannot be resolved", () => {
+        const explanation = explainToken(tokens, "color.broken")
+
+        assert.strictEqual(explanation.$value, "{color.none}")
+        assert.deepStrictEqual(
+            explanation.diagnostics.map(({ code }) => code),
+            ["unresolved-reference"]
+        )
+        assert.throws(
+            () => explainToken(tokens, "color.none"),
+            /Token "color.none" is not defined/
+        )
+    })
+
+    it("explains which resolver sources declared a token", () => {
+        const resolver: ResolverDocument = {
+            version: "2025.10",
+            sets: { base: { sources: [tokens] } },
+            modifiers: {
+                theme: {
+                    contexts: {
+                        light: [],
+                        dark: [
+                            {
+                                color: {
+                                    text: {
+                                        $value: {
+                                            colorSpace: "srgb",
+                                            components: [1, 1, 1],
+                                        },
+                                    },
+                                },
+                            },
+                        ],
+                    },
+                    default: "light",
+                },
+            },
+            resolutionOrder: [
+                { $ref: "#/sets/base" },
+                { $ref: "#/modifiers/theme" },
+            ],
+        }
+
+        const explanation = explainResolvedToken(resolver, "color.text", {
+            inputs: { theme: "dark" },
+        })
+
+        assert.deepStrictEqual(explanation.$value, {
+            colorSpace: "srgb",
+            components: [1, 1, 1],
+        })
+        assert.deepStrictEqual(explanation.sources, {
+            source: {
+                pointer: "#/modifiers/theme/contexts/dark/0",
+                index: 1,
+                name: "theme",
+                context: "dark",
+            },
+            overridden: [
+                { pointer: "#/sets/base/sources/0", index: 0, name: "base" },
+            ],
+        })
+        assert.match(
+            formatTokenExplanation(explanation),
+            /^color\.text \(theme=dark\)\n[\s\S]*\n  source: #\/modifiers\/theme\/contexts\/dark\/0 \(theme: dark\)\n  overrides: #\/sets\/base\/sources\/0 \(base\)$/
+        )
+    })
+})
+
+describe("Validation API", () => {
+    const tokens: DesignTokenObject = {
+        spacing: {
+            $type: "dimension",
+            small: { $value: { value: 4, unit: "px" } },
+            gap: { $value: "{spacing.small}" },
+        },
+    }
+
+    it("preprocesses token documents before validating them", () => {
+        const result = validateTokenDocument(tokens)
+
+        assert.strictEqual(result.valid, true, result.errors.join("\n"))
+        assert.deepStrictEqual((result.tokens!.spacing as any).gap, {
+            $value: { value: 4, unit: "px" },
+            $type: "dimension",
+        })
+        assert.deepStrictEqual(
+            validateTokenDocument(tokens, { preprocess: false }),
+            { valid: true, errors: [], issues: [], diagnostics: [] }
+        )
+        assert.deepStrictEqual(preprocess(tokens), result.tokens)
+    })
+
+    it("reports preprocessing problems as diagnostics", () => {
+        const result = validateTokenDocument({
+            spacing: { $type: "dimension", gap: { $value: "{spacing.none}" } },
+        })
+
+        assert.strictEqual(result.valid, false)
+        assert.strictEqual(result.tokens, undefined)
+        assert.deepStrictEqual(
+            result.diagnostics.map(({ path, code }) => ({ path, code })),
+            [{ path: "spacing.gap", code: "unresolved-reference" }]
+        )
+        assert.deepStrictEqual(result.errors, [
+            formatDiagnostic(result.diagnostics[0]),
+        ])
+    })
+
+    it("checks resolver documents beyond the schema", () => {
+        const resolver: ResolverDocument = {
+            version: "2025.10",
+            modifiers: {
+                theme: {
+                    contexts: { light: [], dark: [] },
+                    default: "sepia",
+                },
+            },
+            resolutionOrder: [{ $ref: "#/modifiers/theme" }],
+        }
+
+        const result = validateResolverDocument(resolver)
+        assert.strictEqual(result.valid, false)
+        assert.deepStrictEqual(
+            result.diagnostics.map(({ path, code }) => ({ path, code })),
+            [{ path: "/modifiers/theme/default", code: "invalid-default" }]
+        )
+        assert.strictEqual(
+            validateResolverDocument(resolver, { semantics: false }).valid,
+            true
+        )
+    })
+
+    it("skips type stability for token files it cannot load", () => {
+        const resolver: ResolverDocument = {
+            version: "2025.10",
+            sets: {
+                base: {
+                    sources: [
+                        { $ref: "tokens/base.json" },
+                        { size: { $type: "number", $value: 1 } },
+                    ],
+                },
+            },
+            resolutionOrder: [{ $ref: "#/sets/base" }],
+        }
+
+        const result = validateResolverDocument(resolver)
+        assert.strictEqual(result.valid, true, result.errors.join("\n"))
+        assert.deepStrictEqual(
+            result.issues.map(({ severity }) => severity),
+            ["warning"]
+        )
+        assert.match(
+            result.issues[0].message,
+            /Type stability was not checked/
+        )
+    })
+})
+
+describe("Schema Errors", () => {
+    /**
+     * Get the errors of validating a document against the format schema
+     */
+    function schemaErrors(document: unknown) {
+        const { ajv, formatSchema } = getSchemaContext("format")
+        const validate = ajv.compile(formatSchema)
+        assert.strictEqual(validate(document), false)
+        return validate.errors!
+    }
+
+    it("reports one problem per token in DTCG terms", () => {
+        const result = validateTokenDocument({
+            colors: {
+                brand: {
+                    $type: "color",
+                    $value: { colorSpace: "srgb", components: [0, 0.5, 2] },
+                },
+            },
+        })
+
+        assert.deepStrictEqual(result.errors, [
+            "colors.brand: color component 2 must be between 0 and 1",
+        ])
+        assert.deepStrictEqual(result.issues, [
+            {
+                severity: "error",
+                code: "schema",
+                keyword: "maximum",
+                message: "color component 2 must be between 0 and 1",
+                pointer: "/colors/brand/$value/components/2",
+                path: "colors.brand",
+            },
+        ])
+    })
+
+    it("merges failed alternatives and names array items by type", () => {
+        const document = {
+            color: {
+                $type: "color",
+                $value: {
+                    colorSpace: "srgb",
+                    components: [0, "half", 0],
+                },
+            },
+            shadow: {
+                $type: "shadow",
+                $value: [
+                    {
+                        color: "{color}",
+                        offsetX: { value: 1, unit: "px" },
+                        offsetY: { value: 1, unit: "px" },
+                        blur: { value: 2, unit: "pt" },
+                        spread: { value: 0, unit: "px" },
+                    },
+                ],
+            },
+            easing: { $type: "cubicBezier", $value: [0, 0, 1] },
+        }
+
+        assert.deepStrictEqual(
+            collapseSchemaErrors(schemaErrors(document), document).map(
+                ({ path, message }) => `${path}: ${message}`
+            ),
+            [
+                'color: color component 1 must be a number or "none"',
+                'shadow: shadow layer 0 blur unit must be one of "px", "rem"',
+                "easing: cubicBezier value must have exactly 4 items",
+            ]
+        )
+    })
+
+    it("keeps the alternative that applies to tokens and groups", () => {
+        const document = {
+            group: {
+                $type: "color",
+                token: {
+                    $value: { colorSpace: "srgb", components: [0, 0, 0] },
+                    extra: true,
+                },
+                other: 1,
+            },
+            ref: { $ref: "/group/token/$value" },
+        }
+
+        assert.deepStrictEqual(
+            collapseSchemaErrors(schemaErrors(document), document).map(
+                ({ path, message }) => `${path}: ${message}`
+            ),
+            [
+                'group.token: token must not have "extra"',
+                "group.other: token or group must be an object",
+                "ref: $ref must be a valid JSON Pointer fragment, such as #/colors/red",
+            ]
+        )
+    })
+
+    it("checks values against the type inherited from groups", () => {
+        const result = validateTokenDocument(
+            {
+                colors: {
+                    $type: "color",
+                    brand: {
+                        $value: { colorSpace: "srgb", components: [1, 0, 2] },
+                    },
+                },
+                fonts: { $type: "font", body: { $value: "Inter" } },
+            },
+            { preprocess: false }
+        )
+
+        assert.deepStrictEqual(result.errors, [
+            "colors.brand: color component 2 must be between 0 and 1",
+            'fonts: $type must be one of "color", "dimension", "fontFamily", "fontWeight", "duration", "cubicBezier", "number", "strokeStyle", "border", "transition", "shadow", "gradient", "typography"',
+        ])
+    })
+})
+
+describe("Source Positions", () => {
+    const text = [
+        "{",
+        '    "color": {',
+        '        "$type": "color",',
+        '        "brand": {',
+        '            "$value": { "colorSpace": "srgb", "components": [0, 0.5, 2] }',
+        "        },",
+        '        "link": { "$value": "{color.none}" }',
+        "    }",
+        "}",
+    ].join("\n")
+
+    it("parses JSON and locates members by name and items by value", () => {
+        const document = parseJson(text)
+        const positions = sourcePositionsOf(document)!
+
+        assert.deepStrictEqual(document, JSON.parse(text))
+        assert.deepStrictEqual(
+            findSourcePosition(positions, "/color/brand/$value"),
+            { line: 5, column: 13 }
+        )
+        assert.deepStrictEqual(
+            findSourcePosition(positions, "/color/brand/$value/components/2"),
+            { line: 5, column: 70 }
+        )
+        // Values that are not in the text are located at their closest parent
+        assert.deepStrictEqual(
+            findSourcePosition(positions, "/color/link/$type"),
+            { line: 7, column: 9 }
+        )
+        assert.strictEqual(sourcePositionsOf(JSON.parse(text)), undefined)
+    })
+
+    it("reports where JSON syntax errors are", () => {
+        assert.throws(
+            () => parseJson('{\n    "a": 1,\n}'),
+            (error: unknown) =>
+                error instanceof JsonSyntaxError &&
+                error.line === 3 &&
+                error.column === 1 &&
+                error.message ===
+                    'Expected a property name but found character "}" at line 3 column 1'
+        )
+    })
+
+    it("locates schema and reference errors in parsed documents", () => {
+        const document = parseJson(text) as DesignTokenObject
+        const [unresolved] = validateTokenDocument(document).issues
+        assert.deepStrictEqual(
+            { line: unresolved.line, column: unresolved.column },
+            { line: 7, column: 9 }
+        )
+
+        const color = document.color as DesignTokenObject
+        delete color.link
+        const [schema] = validateTokenDocument(document).issues
+        assert.strictEqual(schema.pointer, "/color/brand/$value/components/2")
+        assert.deepStrictEqual(
+            { line: schema.line, column: schema.column },
+            { line: 5, column: 70 }
+        )
+    })
+
+    it("leaves errors in referenced files to their file", () => {
+        const loader = createMemoryLoader({
+            "base.json": { size: { $type: "dimension", $value: "{size}" } },
+        })
+        const result = validateTokenDocument(
+            parseJson(
+                '{ "gap": { "$ref": "./base.json#/size" } }'
+            ) as DesignTokenObject,
+            { location: "tokens.json", loader }
+        )
+
+        const [issue] = result.issues
+        assert.strictEqual(issue.file, "base.json")
+        assert.strictEqual(issue.line, undefined)
+    })
+
+    it("locates type stability errors where the token is declared", () => {
+        const loader = createMemoryLoader({
+            "tokens/base.json": parseJson(
+                '{\n    "size": { "$type": "number", "$value": 1 }\n}'
+            ) as DesignTokenObject,
+        })
+        const resolver = parseJson(
+            JSON.stringify(
+                {
+                    version: "2025.10",
+                    sets: {
+                        base: { sources: [{ $ref: "tokens/base.json" }] },
+                    },
+                    resolutionOrder: [
+                        {
+                            type: "set",
+                            name: "scale",
+                            sources: [
+                                {
+                                    size: {
+                                        $type: "dimension",
+                                        $value: { value: 1, unit: "px" },
+                                    },
+                                },
+                            ],
+                        },
+                        { $ref: "#/sets/base" },
+                    ],
+                },
+                null,
+                4
+            )
+        ) as ResolverDocument
+
+        const [conflict] = validateResolverDocument(resolver, {
+            location: "resolver.json",
+            loader,
+        }).issues
+        assert.deepStrictEqual(
+            {
+                code: conflict.code,
+                file: conflict.file,
+                line: conflict.line,
+                column: conflict.column,
+            },
+            {
+                code: "unstable-type",
+                file: "tokens/base.json",
+                line: 2,
+                column: 5,
+            }
+        )
+    })
+
+    it("loads files with the positions of their values", () => {
+        const document = createFileSystemLoader().load(
+            join(
+                import.meta.dirname,
+                "..",
+                "fixtures",
+                "resolver",
+                "invalid",
+                "modifier-default-not-in-contexts.json"
+            )
+        )
+        assert.notStrictEqual(sourcePositionsOf(document), undefined)
+    })
+
+    it("locates errors in resolver documents", () => {
+        const resolver = parseJson(
+            readFileSync(
+                join(
+                    import.meta.dirname,
+                    "..",
+                    "fixtures",
+                    "resolver",
+                    "invalid",
+                    "modifier-default-not-in-contexts.json"
+                ),
+                "utf-8"
+            )
+        ) as ResolverDocument
+
+        const [issue] = validateResolverDocument(resolver).issues
+        assert.strictEqual(issue.code, "invalid-default")
+        assert.strictEqual(typeof issue.line, "number")
+        assert.strictEqual(typeof issue.column, "number")
     })
 })
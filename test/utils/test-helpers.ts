@@ -1,43 +1,24 @@
 /**
- * Shared test utilities for JSON Schema validation and fixture loading
+ * Shared test utilities for fixture loading and validation test cases
  */
 
-import addFormats from "ajv-formats"
-import Ajv2020 from "ajv/dist/2020"
 import { readFileSync, readdirSync, statSync } from "node:fs"
 import { join } from "node:path"
-import { resolveReferences } from "./preprocessors/referenceResolver"
-import { validateResolverSemantics } from "./preprocessors/resolverValidator"
-import { processTypeInheritance } from "./preprocessors/typeInheritance"
-import type { DesignTokenObject } from "./preprocessors/types"
+import {
+    validateResolverDocument,
+    validateTokenDocument,
+    type DesignTokenObject,
+    type ResolverDocument,
+    type SchemaType,
+    type ValidationResult,
+} from "../../src"
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-const SCHEMA_DIR = join(import.meta.dirname, "..", "..", "schemas")
 const FIXTURES_DIR = join(import.meta.dirname, "..", "fixtures")
 
-const SCHEMA_FILES = {
-    // Format schemas
-    tokenType: "format/tokenType.json",
-    token: "format/token.json",
-    group: "format/group.json",
-    groupOrToken: "format/groupOrToken.json",
-    format: "format/format.json",
-    // Resolver schemas
-    resolver: "resolver/resolver.json",
-    set: "resolver/set.json",
-    modifier: "resolver/modifier.json",
-    resolutionOrder: "resolver/resolutionOrder.json",
-} as const
-
-const AJV_CONFIG = {
-    strict: false,
-    allErrors: true,
-    verbose: true,
-} as const
-
 // ============================================================================
 // Types
 // ============================================================================
@@ -56,24 +37,6 @@ export interface TestCase {
     shouldPass: boolean
 }
 
-export interface ValidationResult {
-    valid: boolean
-    errors: string[]
-}
-
-export interface PreprocessorOptions {
-    resolveReferences?: boolean
-    inheritTypes?: boolean
-}
-
-export interface SchemaContext {
-    ajv: Ajv2020
-    formatSchema: object
-    resolverSchema?: object
-}
-
-export type SchemaType = "format" | "resolver"
-
 // ============================================================================
 // Fixture Loading
 // ============================================================================
@@ -129,195 +92,6 @@ export function getFixtureFiles(
     return files
 }
 
-// ============================================================================
-// Schema Loading and Validation
-// ============================================================================
-
-/**
- * Load a JSON schema file from disk
- */
-function loadSchemaFile(relativePath: string): object {
-    const schemaPath = join(SCHEMA_DIR, relativePath)
-    const content = readFileSync(schemaPath, "utf-8")
-    return JSON.parse(content)
-}
-
-/**
- * Load all value schemas from the values directory
- */
-function loadValueSchemas(ajv: Ajv2020): void {
-    const valuesDir = join(SCHEMA_DIR, "format", "values")
-    const schemaFiles = readdirSync(valuesDir).filter((file) =>
-        file.endsWith(".json")
-    )
-
-    for (const schemaFile of schemaFiles) {
-        const schema = loadSchemaFile(`format/values/${schemaFile}`)
-        ajv.addSchema(schema)
-    }
-}
-
-/**
- * Create an AJV instance configured for DTCG schema validation
- */
-export function createValidator(): Ajv2020 {
-    const ajv = new Ajv2020(AJV_CONFIG)
-    addFormats(ajv)
-    return ajv
-}
-
-/**
- * Load all referenced schemas into the validator
- */
-export function loadSchemas(
-    ajv: Ajv2020,
-    schemaType: SchemaType = "format"
-): SchemaContext {
-    if (schemaType === "format") {
-        // Load core format schemas in dependency order
-        const coreSchemas = [
-            SCHEMA_FILES.tokenType,
-            SCHEMA_FILES.token,
-            SCHEMA_FILES.group,
-            SCHEMA_FILES.groupOrToken,
-        ]
-
-        for (const schemaPath of coreSchemas) {
-            const schema = loadSchemaFile(schemaPath)
-            ajv.addSchema(schema)
-        }
-
-        // Load all value type schemas
-        loadValueSchemas(ajv)
-
-        // Load and return main format schema
-        const formatSchema = loadSchemaFile(SCHEMA_FILES.format)
-
-        return { ajv, formatSchema }
-    } else {
-        // Load resolver schemas in dependency order
-        const resolverSchemas = [
-            SCHEMA_FILES.set,
-            SCHEMA_FILES.modifier,
-            SCHEMA_FILES.resolutionOrder,
-        ]
-
-        for (const schemaPath of resolverSchemas) {
-            const schema = loadSchemaFile(schemaPath)
-            ajv.addSchema(schema)
-        }
-
-        // Also load format schema as it's referenced by resolver
-        const coreSchemas = [
-            SCHEMA_FILES.tokenType,
-            SCHEMA_FILES.token,
-            SCHEMA_FILES.group,
-            SCHEMA_FILES.groupOrToken,
-            SCHEMA_FILES.format,
-        ]
-
-        for (const schemaPath of coreSchemas) {
-            const schema = loadSchemaFile(schemaPath)
-            ajv.addSchema(schema)
-        }
-
-        // Load all value type schemas
-        loadValueSchemas(ajv)
-
-        // Load and return main resolver schema
-        const resolverSchema = loadSchemaFile(SCHEMA_FILES.resolver)
-
-        return { ajv, formatSchema: resolverSchema, resolverSchema }
-    }
-}
-
-/**
- * Cached schema contexts to avoid reloading schemas for each test
- */
-const cachedSchemaContexts: Map<SchemaType, SchemaContext> = new Map()
-
-/**
- * Get or create a cached schema context
- */
-export function getSchemaContext(
-    schemaType: SchemaType = "format"
-): SchemaContext {
-    if (!cachedSchemaContexts.has(schemaType)) {
-        const ajv = createValidator()
-        const context = loadSchemas(ajv, schemaType)
-        cachedSchemaContexts.set(schemaType, context)
-    }
-    return cachedSchemaContexts.get(schemaType)!
-}
-
-/**
- * Format AJV validation errors into human-readable messages
- */
-function formatValidationErrors(errors: Array<any>): string[] {
-    return errors.map((error) => {
-        const path = error.instancePath || "(root)"
-        const message = error.message || "validation error"
-        return `${path}: ${message}`
-    })
-}
-
-/**
- * Validate a design token object against the schema
- */
-export function validateAgainstSchema(
-    data: DesignTokenObject,
-    ajv: Ajv2020,
-    schema: object
-): ValidationResult {
-    const validate = ajv.compile(schema)
-    const valid = validate(data)
-
-    const errors =
-        valid || !validate.errors
-            ? []
-            : formatValidationErrors(validate.errors)
-
-    return { valid, errors }
-}
-
-// ============================================================================
-// Preprocessing
-// ============================================================================
-
-const DEFAULT_PREPROCESSOR_OPTIONS: PreprocessorOptions = {
-    resolveReferences: true,
-    inheritTypes: true,
-}
-
-/**
- * Apply preprocessors to a design token object
- * Clones the data to avoid mutations
- */
-export function applyPreprocessors(
-    data: DesignTokenObject,
-    options: PreprocessorOptions = DEFAULT_PREPROCESSOR_OPTIONS,
-    schemaType: SchemaType = "format"
-): DesignTokenObject {
-    let result = structuredClone(data)
-
-    // For resolver schema, run semantic validation
-    if (schemaType === "resolver") {
-        return validateResolverSemantics(result)
-    }
-
-    // 1. Resolve references (includes $extends, aliases, and $ref)
-    if (options.resolveReferences) {
-        result = resolveReferences(result)
-    }
-
-    // 2. Apply type inheritance last
-    if (options.inheritTypes) {
-        result = processTypeInheritance(result)
-    }
-
-    return result
-}
-
 // ============================================================================
 // Test Case Generation
 // ============================================================================
@@ -366,6 +140,9 @@ export const SKIP_RAW_VALIDATION = new Set([
     // Resolver errors that cannot be caught by schema validation
     "circular-reference-in-sets",
     "duplicate-names-in-resolution-order",
+    "modifier-default-not-in-contexts",
+    "reference-to-missing-set",
+    "token-type-changes-between-contexts",
 ])
 
 /**
@@ -487,29 +264,12 @@ export function runValidationTest(
     usePreprocessing: boolean,
     schemaType: SchemaType = "format"
 ): ValidationResult {
-    const { ajv, formatSchema } = getSchemaContext(schemaType)
     const filename = getFixtureFilename(testCase)
-    let data = loadFixture(testCase.category, filename)
-
-    // Apply preprocessors if requested
-    if (usePreprocessing) {
-        try {
-            // Apply preprocessors (they may throw for invalid fixtures)
-            data = applyPreprocessors(
-                data,
-                DEFAULT_PREPROCESSOR_OPTIONS,
-                schemaType
-            )
-        } catch (error) {
-            // If preprocessing fails for invalid fixtures, this is expected
-            if (!testCase.shouldPass) {
-                return { valid: false, errors: [] }
-            }
-            // For valid fixtures, preprocessing should not throw
-            throw error
-        }
-    }
+    const data = loadFixture(testCase.category, filename)
 
-    // Validate against schema
-    return validateAgainstSchema(data, ajv, formatSchema)
+    return schemaType === "resolver"
+        ? validateResolverDocument(data as unknown as ResolverDocument, {
+              semantics: usePreprocessing,
+          })
+        : validateTokenDocument(data, { preprocess: usePreprocessing })
 }